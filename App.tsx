@@ -1,43 +1,24 @@
 import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { Send, Menu, Sparkles, AlertCircle, Moon, Sun, PanelLeft } from 'lucide-react';
-import { Message, Role, DomainCheckResult } from './types';
-import { sendMessageToBackend } from './services/chatService';
-import { checkMultipleDomains } from './services/domainService';
+import { BrainstormJob, Message, Role, DomainCheckResult, TokenUsage, ToolCallData, WatchAlert, WatchedDomain } from './types';
+import { MAX_COMPETITOR_LENGTH, MAX_COMPETITORS } from './services/brandSimilarity';
+import { followBrainstorm, runBrainstorm } from './services/brainstormService';
+import { describeChatError, describeRetry, streamMessageToBackend } from './services/chatService';
+import { checkDomainAvailability, checkNameVariants, fetchRegistrationDetails, pendingDomainResults } from './services/domainService';
+import { isKnownTld } from './services/tldCatalog';
+import { SYSTEM_INSTRUCTION } from './services/systemInstruction';
+import { addUsage, formatCostUsd, formatTokenCount } from './services/usage';
+import {
+  applyWatchCheck,
+  createWatchlistScheduler,
+  loadWatchlist,
+  saveWatchlist,
+  watchEntryFromResult
+} from './services/watchlist';
 import { ChatMessage } from './components/ChatMessage';
 import { Sidebar } from './components/Sidebar';
 import { ExplanationModal } from './components/ExplanationModal';
-
-const SYSTEM_INSTRUCTION = `You are Namer.ai, a creative naming expert.
-Your goal is to help users brainstorm concise, modern, and memorable brand names.
-
-IMPORTANT: Do NOT ask clarifying questions by default.
-If the user doesn't specify things like target audience, tone, or style, assume neutral defaults:
-- Audience: broad (founders/builders)
-- Tone: modern/tech/clean
-- Names: short, brandable, easy to pronounce
-
-DOMAIN WORKFLOW (non-negotiable):
-1) Reflect on candidate names internally.
-2) Call the 'checkDomains' tool with base names ONLY (no TLDs in the names array).
-3) After tool results, present ONLY domains that are AVAILABLE.
-   - Do NOT list or mention taken/unknown domains.
-   - Do NOT show a "Taken" list.
-
-COUNT REQUIREMENT:
-- If the user requests a specific number (e.g. "10 names"), you MUST return EXACTLY that many AVAILABLE domains.
-- If the first check does not yield enough AVAILABLE domains, generate more fresh candidates and call 'checkDomains' again.
-- Avoid repeats.
-
-BATCHING (cost control):
-- When brainstorming, prefer generating MANY candidates per tool call (rather than many small calls).
-- Each time you call 'checkDomains', include at least 10-20 NEW base names.
-- If the user forces a rare TLD like .ai, increase the batch size (20-40) to improve hit-rate.
-- Do not output a final answer until you have enough AVAILABLE results.
-
-TLD RULES:
-- If the user explicitly mentions a TLD (e.g. .ai), include it in the tool call as { tlds: ['.ai'] }.
-- If the user says "check again" / "again" / "recheck", run another availability check and expand the TLD set beyond the previous check.
-`;
+import { WatchAlerts } from './components/WatchAlerts';
 
 const extractRequestedCount = (text: string): number | null => {
   const t = String(text || '').toLowerCase();
@@ -84,7 +65,8 @@ const extractExplicitTlds = (text: string): string[] | null => {
   let m: RegExpExecArray | null;
   while ((m = re.exec(t))) {
     const tld = `.${String(m[2] || '').toLowerCase()}`;
-    if (tld.length >= 3 && tld.length <= 15) seen.add(tld);
+    // Only real, delegated TLDs count (".ia" or ".txt" are not extensions we can check).
+    if (isKnownTld(tld)) seen.add(tld);
     if (seen.size >= 8) break;
   }
 
@@ -124,11 +106,6 @@ const userForcesAiTld = (text: string): boolean => {
   return /(^|\W)\.ai(\W|$)/i.test(t) || /\bextension\b[^\n]{0,32}\.ai\b/i.test(t);
 };
 
-const isProbablyFrench = (text: string): boolean => {
-  const t = String(text || '').toLowerCase();
-  return /\b(je|mon|ma|mes|une|un|des|domaine|nom|disponibilit[ée]|v[ée]rifi(?:er|cation)|temps\s*r[ée]el)\b/i.test(t);
-};
-
 type ChatMode = 'check' | 'brainstorm';
 
 const looksLikeExplicitNameCheck = (text: string): boolean => {
@@ -180,6 +157,70 @@ const detectMode = (userText: string, lastMode: ChatMode): ChatMode => {
   return 'brainstorm';
 };
 
+// Swaps one domain's result (matched by `domain`) inside a message's tool responses.
+const replaceDomainResult = (messages: Message[], messageId: string, result: DomainCheckResult): Message[] =>
+  messages.map(m => {
+    if (m.id !== messageId || !Array.isArray(m.toolResponses)) return m;
+    return {
+      ...m,
+      toolResponses: m.toolResponses.map(tr =>
+        Array.isArray(tr.result)
+          ? { ...tr, result: (tr.result as DomainCheckResult[]).map(r => (r?.domain === result.domain ? result : r)) }
+          : tr
+      )
+    };
+  });
+
+// Replaces the message with the same id, or appends it (streamed replies grow in place).
+const upsertMessage = (messages: Message[], message: Message): Message[] =>
+  messages.some(m => m.id === message.id)
+    ? messages.map(m => (m.id === message.id ? message : m))
+    : [...messages, message];
+
+const COMPETITORS_STORAGE_KEY = 'namer.competitors';
+// Id of the server-side brainstorm run in flight, so a reloaded page can follow it again.
+const BRAINSTORM_RUN_STORAGE_KEY = 'namer.brainstormRun';
+
+const rememberBrainstormRun = (id: string | null) => {
+  try {
+    if (id) localStorage.setItem(BRAINSTORM_RUN_STORAGE_KEY, id);
+    else localStorage.removeItem(BRAINSTORM_RUN_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+};
+
+// The bubble for a brainstorm run: live progress while it runs, then the summary with every
+// kept domain as cards (synthetic tool response, available domains only).
+const brainstormMessage = (id: string, job: BrainstormJob): Message => {
+  if (job.status === 'error') {
+    return { id, role: Role.MODEL, text: describeChatError({ code: job.errorCode, retryAfterMs: job.retryAfterMs }), isError: true };
+  }
+  // The server only accepts tool responses that answer a tool call of the same message.
+  const toolCalls = [{ id: 'available', name: 'checkDomains', args: { names: job.available.map(r => r.baseName).filter(Boolean), tlds: job.tlds } }];
+  const toolResponses = [{ ...toolCalls[0], args: {}, result: job.available }];
+  if (job.status === 'running') {
+    return {
+      id,
+      role: Role.MODEL,
+      text: `Brainstorming & checking availability… ${job.available.length} found so far`,
+      isPending: true,
+      toolCalls,
+      toolResponses,
+      toolDisplayMode: 'availableOnly'
+    };
+  }
+  const found = job.available.length > 0;
+  return {
+    id,
+    role: Role.MODEL,
+    text: job.text || '',
+    toolCalls: found ? toolCalls : undefined,
+    toolResponses: found ? toolResponses : undefined,
+    toolDisplayMode: 'availableOnly'
+  };
+};
+
 const INITIAL_MESSAGE: Message = {
   id: 'init',
   role: Role.MODEL,
@@ -211,6 +252,23 @@ function App() {
     }
   });
   const [isExplanationOpen, setIsExplanationOpen] = useState(false);
+  const [watchlist, setWatchlist] = useState<WatchedDomain[]>(() => loadWatchlist());
+  const [watchAlerts, setWatchAlerts] = useState<WatchAlert[]>([]);
+  // Model tokens and cost of this conversation (chat replies + brainstorm runs), as priced by the server.
+  const [sessionUsage, setSessionUsage] = useState<TokenUsage | undefined>(undefined);
+  const watchlistRef = useRef<WatchedDomain[]>(watchlist);
+  const [competitors, setCompetitors] = useState<string[]>(() => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(COMPETITORS_STORAGE_KEY) || '[]');
+      // Lists saved before the API capped them are cut to what it accepts.
+      return Array.isArray(stored)
+        ? stored.map(String).filter(c => c.trim() && c.length <= MAX_COMPETITOR_LENGTH).slice(0, MAX_COMPETITORS)
+        : [];
+    } catch {
+      return [];
+    }
+  });
+  const competitorsRef = useRef<string[]>(competitors);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -253,12 +311,44 @@ function App() {
     }
   }, [theme]);
 
+  useEffect(() => {
+    competitorsRef.current = competitors;
+    try {
+      localStorage.setItem(COMPETITORS_STORAGE_KEY, JSON.stringify(competitors));
+    } catch {
+      // ignore
+    }
+  }, [competitors]);
+
   useEffect(() => {
     autosizeTextarea();
   }, [inputValue, autosizeTextarea]);
 
   useEffect(() => {
-    // Lightweight check: tells the UI if the server has MISTRAL_API_KEY configured.
+    watchlistRef.current = watchlist;
+    saveWatchlist(watchlist);
+  }, [watchlist]);
+
+  // Background re-checks of watched domains while the app is open.
+  useEffect(() => {
+    const scheduler = createWatchlistScheduler({
+      getEntries: () => watchlistRef.current,
+      check: entry => checkDomainAvailability(entry.baseName, entry.tld, { force: true }),
+      onChecked: (entry, result) => {
+        const current = watchlistRef.current.find(e => e.domain === entry.domain);
+        if (!current) return; // removed while it was being checked
+        const { entry: next, alert } = applyWatchCheck(current, result);
+        watchlistRef.current = watchlistRef.current.map(e => (e.domain === next.domain ? next : e));
+        setWatchlist(watchlistRef.current);
+        if (alert) setWatchAlerts(prev => [...prev, alert]);
+      }
+    });
+    scheduler.start();
+    return () => scheduler.stop();
+  }, []);
+
+  useEffect(() => {
+    // Lightweight check: tells the UI if the server has a chat backend (LLM provider) configured.
     // (No secrets are exposed to the browser.)
     let cancelled = false;
     (async () => {
@@ -279,6 +369,33 @@ function App() {
     };
   }, []);
 
+  // A brainstorm that was still running on the server when the page reloaded: follow it again.
+  useEffect(() => {
+    let runId: string | null = null;
+    try {
+      runId = localStorage.getItem(BRAINSTORM_RUN_STORAGE_KEY);
+    } catch {
+      runId = null;
+    }
+    if (!runId) return;
+    const messageId = `brainstorm-${runId}`;
+    let cancelled = false;
+    followBrainstorm(runId, job => {
+      if (!cancelled) setMessages(prev => upsertMessage(prev, brainstormMessage(messageId, job)));
+    })
+      .then(job => {
+        if (!cancelled) setSessionUsage(prev => addUsage(prev, job.usage));
+      })
+      // Unknown run (expired, or the server restarted): nothing to show.
+      .catch(() => setMessages(prev => prev.filter(m => m.id !== messageId)))
+      .finally(() => {
+        if (!cancelled) rememberBrainstormRun(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   const handleSendMessage = useCallback(async () => {
     if (!inputValue.trim() || isLoading) return;
 
@@ -327,88 +444,81 @@ function App() {
       // CHECK MODE: old behavior — check exactly what the user asked, show all cards for selected TLDs.
       if (mode === 'check') {
         log('Entering CHECK mode', { selectedTlds });
-        // Send message to Backend
-        const result = await sendMessageToBackend(updatedMessages, SYSTEM_INSTRUCTION);
-
-        log('Backend response (CHECK):', {
-          textPreview: String(result?.text || '').slice(0, 220),
-          functionCalls: result?.functionCalls
-        });
-
-        const functionCalls = Array.isArray(result.functionCalls) ? result.functionCalls : [];
-        let toolResponsesData: any[] = [];
-        let finalResponseText = result.text || '';
-
-        if (functionCalls.length > 0) {
-          const toolResponses = await Promise.all(
-            functionCalls.map(async (call: any) => {
-              if (call.name === 'checkDomains') {
-                const { names, tlds } = call.args as { names: string[]; tlds?: string[] };
-                // If the user asked a specific full domain (e.g. namer.de), the backend extraction will
-                // provide tlds. In that case, ignore the sidebar TLDs and check only what was requested.
-                const tldsToCheck = Array.isArray(tlds) && tlds.length > 0 ? tlds : selectedTlds;
-                log('Tool call (CHECK):', { id: call.id, names, tldsToCheck });
-                const availabilityResults = await checkMultipleDomains(names, tldsToCheck);
-                log('Tool results (CHECK):', {
-                  id: call.id,
-                  total: availabilityResults.length,
-                  available: availabilityResults.filter(r => r.status === 'available').length,
-                  taken: availabilityResults.filter(r => r.status === 'taken').length,
-                  unknown: availabilityResults.filter(r => r.status === 'unknown').length
-                });
-                return {
-                  id: call.id,
-                  name: call.name,
-                  result: availabilityResults
-                };
-              }
-              return { id: call.id, name: call.name, result: { error: 'Unknown tool' } };
-            })
-          );
-
-          toolResponsesData = toolResponses;
-
-          const toolResponseMessage: Message = {
-            id: (Date.now() + 1).toString(),
+        // One request: the server runs the tool calls itself and streams the text, each tool's
+        // start and its result. Cards show as "Checking…" until their tool has finished.
+        const responseMessageId = (Date.now() + 1).toString();
+        // If the user asked a specific full domain (e.g. namer.de), the model passes its tlds;
+        // otherwise the sidebar TLDs are checked.
+        const tldsFor = (args: any): string[] => {
+          const tlds = args?.tlds;
+          return Array.isArray(tlds) && tlds.length > 0 ? tlds : selectedTlds;
+        };
+        const tools = new Map<string, ToolCallData>();
+        let text = '';
+        // Shown until the reply starts, e.g. "Rate limited, retrying in 8s…".
+        let notice = '';
+        const render = () => {
+          const calls = Array.from(tools.values());
+          const message: Message = {
+            id: responseMessageId,
             role: Role.MODEL,
-            text: finalResponseText,
-            toolCalls: functionCalls,
-            toolResponses: toolResponsesData,
-            toolDisplayMode: 'all'
-          };
-
-          const messagesWithTool = [...updatedMessages, toolResponseMessage];
-          const postToolResponse = await sendMessageToBackend(messagesWithTool, SYSTEM_INSTRUCTION);
-
-          if (postToolResponse.text && postToolResponse.text !== finalResponseText) {
-            finalResponseText += "\n\n" + postToolResponse.text;
-          }
-
-          const finalModelMsg: Message = {
-            ...toolResponseMessage,
-            text: finalResponseText,
+            text: text || notice,
+            toolCalls: calls.length > 0 ? calls.map(({ id, name, args }) => ({ id, name, args })) : undefined,
+            toolResponses: calls.length > 0 ? calls : undefined,
             toolDisplayMode: 'all'
           };
+          setMessages(prev => upsertMessage(prev, message));
+        };
 
-          setMessages(prev => [...prev, finalModelMsg]);
-        } else {
-          const modelMsg: Message = {
-            id: (Date.now() + 1).toString(),
-            role: Role.MODEL,
-            text: finalResponseText
-          };
-          setMessages(prev => [...prev, modelMsg]);
-        }
+        // An explicit "recheck" / "check again" should hit the registries, not the cache.
+        const force = /^(?:check\s+again|recheck)\b/i.test(userText);
+        const result = await streamMessageToBackend(
+          updatedMessages,
+          SYSTEM_INSTRUCTION,
+          {
+            onText: (_, streamed) => {
+              text = streamed;
+              render();
+            },
+            onToolStart: call => {
+              log('Tool call (CHECK):', call);
+              const placeholder =
+                call.name === 'checkDomains'
+                  ? pendingDomainResults(Array.isArray(call.args?.names) ? call.args.names : [], tldsFor(call.args))
+                  : [];
+              tools.set(call.id, { id: call.id, name: call.name, args: call.args, result: placeholder });
+              render();
+            },
+            onToolResult: invocation => {
+              tools.set(invocation.id, { id: invocation.id, name: invocation.name, args: invocation.args, result: invocation.result });
+              render();
+            },
+            onRetry: retry => {
+              log('Retrying model call (CHECK):', retry);
+              notice = describeRetry(retry);
+              render();
+            }
+          },
+          { tlds: selectedTlds, competitors, force }
+        );
 
+        log('Backend response (CHECK):', {
+          textPreview: String(result?.text || '').slice(0, 220),
+          toolTrace: (result.toolTrace || []).map(t => ({ step: t.step, name: t.name, args: t.args, durationMs: t.durationMs })),
+          stepLimitReached: result.stepLimitReached,
+          usage: result.usage
+        });
+        setSessionUsage(prev => addUsage(prev, result.usage));
+        text = result.text || '';
+        notice = '';
+        render();
         return;
       }
 
-      // BRAINSTORM MODE: iterative — only show available domains (cards + text), and enforce requested count if provided.
+      // BRAINSTORM MODE: the loop runs on the server (/api/brainstorm); this resolves the brief's
+      // constraints and renders progress. An explicit "N names" is a hard cap, otherwise the
+      // server aims for at least 3 and keeps every available domain it happens to find.
       const desiredAvailableCount = extractRequestedCount(userText);
-      // If the user explicitly asks for N names, treat that as a hard cap.
-      // If they don't, we use 3 as a minimum target, but we will return *all* available domains we happened to find.
-      const hardAvailableCap = desiredAvailableCount ?? null;
-      const targetAvailableCount = hardAvailableCap ?? 3;
       const forceAiOnly = userForcesAiTld(userText);
       const explicitTlds = extractExplicitTlds(userText);
 
@@ -446,357 +556,49 @@ function App() {
 
       log('Entering BRAINSTORM mode', {
         selectedTlds,
-        targetAvailableCount,
-        hardAvailableCap,
+        desiredAvailableCount,
         explicitTlds,
         continuation,
         clearsConstraint,
         forcedTlds
       });
 
-      const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
-      // Candidate batch sizing: larger batches reduce AI calls.
-      // In .ai-only mode, we ask for more candidates per call to improve odds.
-      const MIN_CANDIDATES_PER_CALL = forceAiOnly ? 20 : 10;
-      const MAX_CANDIDATES_PER_CALL = forceAiOnly ? 40 : 25;
-
-      const checkedBaseNames = new Set<string>();
-      const availableDomains = new Map<string, DomainCheckResult>();
-
-      // If Mistral keeps returning no tool calls, fall back to asking for a strict JSON list
-      // of names and run the availability checks client-side.
-      let noToolCallStreak = 0;
-
-      const tryParseJsonNameList = (raw: string): string[] | null => {
-        const txt = String(raw || '').trim();
-        if (!txt) return null;
-        // Try to isolate JSON if the model wraps it in text.
-        const start = txt.indexOf('[');
-        const end = txt.lastIndexOf(']');
-        const slice = start >= 0 && end > start ? txt.slice(start, end + 1) : txt;
-        try {
-          const parsed = JSON.parse(slice);
-          if (!Array.isArray(parsed)) return null;
-          const out: string[] = [];
-          const seen = new Set<string>();
-          for (const v of parsed) {
-            const s = String(v || '').trim().toLowerCase();
-            if (!s) continue;
-            // keep base-name-ish tokens only
-            const cleaned = s
-              .replace(/^https?:\/\//, '')
-              .split('.')[0]
-              .replace(/\s+/g, '')
-              .replace(/[^a-z0-9-]/g, '')
-              .replace(/^-+/, '')
-              .replace(/-+$/, '')
-              .slice(0, 63);
-            if (!cleaned || seen.has(cleaned)) continue;
-            if (checkedBaseNames.has(cleaned)) continue;
-            seen.add(cleaned);
-            out.push(cleaned);
-            if (out.length >= 80) break;
-          }
-          return out.length > 0 ? out : null;
-        } catch {
-          return null;
-        }
-      };
-
-      const startTs = Date.now();
-      // Brainstorm should keep trying until it finds enough available domains.
-      // Still keep a safety cap to avoid infinite loops if DNS/LLM/network is down.
-      const MAX_WALL_TIME_MS = forceAiOnly ? 35_000 : 25_000;
-      const MAX_MODEL_CALLS = Math.max(14, Math.min(90, targetAvailableCount * 12));
-
-      let workingMessages: Message[] = [...updatedMessages];
-
-      // We'll add ONE assistant message to the UI at the end, but keep tool-call history in workingMessages.
-      // This avoids showing pre-check suggestions that may include taken domains.
-      let finalUiMessage: Message | null = null;
-
-      const buildDynamicInstruction = () => {
-        const parts: string[] = [SYSTEM_INSTRUCTION];
-        // We mostly drive the model to emit tool calls / JSON candidates; the UI builds the final answer.
-        // Still, being explicit here improves reliability.
-        if (hardAvailableCap != null) {
-          parts.push(`\nHard requirement: we need EXACTLY ${hardAvailableCap} AVAILABLE domains total. Stop as soon as you have enough.`);
-        } else {
-          parts.push(`\nRequirement: we need AT LEAST ${targetAvailableCount} AVAILABLE domains total. If your checks produce more, that's fine — do not throw them away.`);
-        }
-        if (forcedTlds && forcedTlds.length > 0) {
-          parts.push(`\nTLD constraint: ONLY use these TLDs: ${forcedTlds.join(', ')}.`);
-        }
-
-        const remaining = Math.max(0, targetAvailableCount - availableDomains.size);
-        // Heuristic: ask for more candidates when we're aiming for a minimum, but keep it tighter
-        // when the user asked for an exact count.
-        const multiplier = hardAvailableCap != null ? (forceAiOnly ? 6 : 3) : (forceAiOnly ? 10 : 6);
-        const desiredBatch = clamp(Math.ceil(Math.max(MIN_CANDIDATES_PER_CALL, remaining * multiplier)), MIN_CANDIDATES_PER_CALL, MAX_CANDIDATES_PER_CALL);
-        parts.push(
-          `\nEfficiency requirement: On your NEXT checkDomains tool call, include ${desiredBatch} NEW, unique base names (no TLDs). Avoid repeats. Do not write a final answer yet.`
-        );
-
-        parts.push(
-          `\nIf you cannot emit tool calls for any reason, output ONLY a valid JSON array of ${desiredBatch} NEW base names (strings), no prose.`
-        );
-
-        if (availableDomains.size > 0) {
-          const domains = Array.from(availableDomains.keys()).slice(0, 25);
-          parts.push(`\nAlready found available (do not repeat, just count them): ${domains.join(', ')}`);
+      const job = await runBrainstorm(
+        { brief: userText, history: messages, tlds: selectedTlds, forcedTlds, count: desiredAvailableCount, competitors },
+        update => {
+          if (update.status === 'running') rememberBrainstormRun(update.id);
+          setMessages(prev => prev.map(m => (m.id === pendingId ? brainstormMessage(pendingId, update) : m)));
         }
-        if (checkedBaseNames.size > 0) {
-          const names = Array.from(checkedBaseNames.values()).slice(0, 40);
-          parts.push(`\nAvoid rechecking these base names: ${names.join(', ')}`);
-        }
-        return parts.join('\n');
-      };
-
-      let modelCallCount = 0;
-      while (
-        availableDomains.size < targetAvailableCount &&
-        modelCallCount < MAX_MODEL_CALLS &&
-        Date.now() - startTs < MAX_WALL_TIME_MS
-      ) {
-        log('Brainstorm loop tick', {
-          modelCallCount,
-          availableSoFar: availableDomains.size,
-          targetAvailableCount,
-          checkedBaseNames: checkedBaseNames.size,
-          forcedTlds
-        });
-        const instruction = buildDynamicInstruction();
-        const result = await sendMessageToBackend(workingMessages, instruction);
-
-        const functionCalls = Array.isArray(result.functionCalls) ? result.functionCalls : [];
-        const assistantText = functionCalls.length > 0 ? 'Checking domain availability…' : (result.text || '');
-
-        log('Backend response (BRAINSTORM):', {
-          toolCalls: functionCalls.map((c: any) => ({
-            id: c.id,
-            name: c.name,
-            namesCount: Array.isArray(c?.args?.names) ? c.args.names.length : 0,
-            tlds: c?.args?.tlds
-          })),
-          textPreview: String(result?.text || '').slice(0, 220)
-        });
-
-        const modelMsgId = `${Date.now()}-${modelCallCount}`;
-        let modelMsg: Message = {
-          id: modelMsgId,
-          role: Role.MODEL,
-          text: assistantText,
-          toolCalls: functionCalls.length > 0 ? functionCalls : undefined
-        };
-
-        workingMessages = [...workingMessages, modelMsg];
-
-        if (functionCalls.length === 0) {
-          noToolCallStreak += 1;
-          // Force the model back onto the tool path.
-          const remaining = Math.max(1, targetAvailableCount - availableDomains.size);
-          const multiplier = hardAvailableCap != null ? (forceAiOnly ? 6 : 3) : (forceAiOnly ? 10 : 6);
-          const desiredBatch = clamp(Math.ceil(Math.max(MIN_CANDIDATES_PER_CALL, remaining * multiplier)), MIN_CANDIDATES_PER_CALL, MAX_CANDIDATES_PER_CALL);
-
-          // Fallback: if the model won't emit tool_calls, ask for strict JSON list and check ourselves.
-          const parsedNames = tryParseJsonNameList(result?.text || '');
-          if (parsedNames && parsedNames.length > 0) {
-            const finalTldsToCheck = forcedTlds && forcedTlds.length > 0 ? forcedTlds : selectedTlds;
-            log('Names generated by Mistral (parsed JSON/fallback):', parsedNames);
-            for (const base of parsedNames) checkedBaseNames.add(base);
-
-            const availabilityResults = await checkMultipleDomains(parsedNames, finalTldsToCheck);
-            for (const r of availabilityResults) {
-              log(`Tested ${r.domain}: ${r.status}`);
-              if (r?.status === 'available' && r?.domain) {
-                if (hardAvailableCap == null || availableDomains.size < hardAvailableCap) {
-                  availableDomains.set(r.domain, r);
-                }
-              }
-              if (hardAvailableCap != null && availableDomains.size >= hardAvailableCap) break;
-            }
-            modelCallCount += 1;
-            // Continue the loop — we may already have enough.
-            continue;
-          }
-
-          log('No tool calls returned; nudging model', { remaining, desiredBatch, noToolCallStreak });
-
-          workingMessages = [
-            ...workingMessages,
-            {
-              id: `${Date.now()}-nudge-${modelCallCount}`,
-              role: Role.USER,
-              text:
-                noToolCallStreak >= 2
-                  ? `Internal instruction: Tool calls are not working. Output ONLY a valid JSON array (no prose) with ${desiredBatch} NEW base names (strings), no TLDs, no dots, no spaces. Example: ["nova", "cloudly"].`
-                  : `Internal instruction: We still need ${remaining} more AVAILABLE domains. Generate ${desiredBatch} NEW candidate base names (no TLDs) and CALL checkDomains immediately. If you can't call tools, output ONLY JSON.`
-            }
-          ];
-          modelCallCount += 1;
-          continue;
-        }
-
-        // If we got tool calls again, reset streak.
-        noToolCallStreak = 0;
-
-        const toolResponses = await Promise.all(
-          functionCalls.map(async (call: any) => {
-            if (call.name === 'checkDomains') {
-              const { names, tlds } = call.args as { names: string[]; tlds?: string[] };
-
-              const tldsToCheck = Array.isArray(tlds) && tlds.length > 0 ? tlds : selectedTlds;
-              const finalTldsToCheck = forcedTlds && forcedTlds.length > 0 ? forcedTlds : tldsToCheck;
-
-              const incomingList = Array.isArray(names) ? names.map((n: any) => String(n || '').trim()) : [];
-              log('Names generated by Mistral (tool_call.names):', incomingList);
-              log('Tool call (BRAINSTORM):', {
-                id: call.id,
-                incomingNamesCount: incomingList.length,
-                finalTldsToCheck
-              });
-
-              const incoming = Array.isArray(names) ? names : [];
-              const normalizedUnique: string[] = [];
-              const seen = new Set<string>();
-              for (const n of incoming) {
-                const base = String(n || '').trim().toLowerCase();
-                if (!base) continue;
-                if (seen.has(base)) continue;
-                seen.add(base);
-                // Skip names we've already checked in this brainstorm run.
-                if (checkedBaseNames.has(base)) continue;
-                normalizedUnique.push(base);
-              }
-
-              for (const base of normalizedUnique) checkedBaseNames.add(base);
-
-              const availabilityResults = await checkMultipleDomains(normalizedUnique, finalTldsToCheck);
-              for (const r of availabilityResults) {
-                log(`Tested ${r.domain}: ${r.status}`);
-                if (r?.status === 'available' && r?.domain) {
-                  if (hardAvailableCap == null || availableDomains.size < hardAvailableCap) {
-                    availableDomains.set(r.domain, r);
-                  }
-                }
-                if (hardAvailableCap != null && availableDomains.size >= hardAvailableCap) break;
-              }
-
-              log('Tool results (BRAINSTORM):', {
-                id: call.id,
-                checkedPairs: availabilityResults.length,
-                availableNow: Array.from(availableDomains.keys()).slice(0, 12),
-                availableCount: availableDomains.size,
-                deltaAvailable: availabilityResults.filter(r => r.status === 'available').length,
-                taken: availabilityResults.filter(r => r.status === 'taken').length,
-                unknown: availabilityResults.filter(r => r.status === 'unknown').length
-              });
-
-              return {
-                id: call.id,
-                name: call.name,
-                result: availabilityResults
-              };
-            }
-            return { id: call.id, name: call.name, result: { error: 'Unknown tool' } };
-          })
-        );
-
-        modelMsg = { ...modelMsg, toolResponses };
-        workingMessages = [...workingMessages.slice(0, -1), modelMsg];
-
-        modelCallCount += 1;
-
-        // If user asked for an explicit limit, stop immediately once we reach it.
-        if (hardAvailableCap != null && availableDomains.size >= hardAvailableCap) break;
-      }
-
-      // If we never got a final assistant message without tool calls, fall back to a minimal summary.
-      const finalList = hardAvailableCap != null
-        ? Array.from(availableDomains.values()).slice(0, hardAvailableCap)
-        : Array.from(availableDomains.values());
-      const finalLines = finalList.map(r => `- ${r.domain}`);
-
-      const french = isProbablyFrench(userText);
-      const header = french
-        ? `Voici ${finalList.length} nom${finalList.length > 1 ? 's' : ''} de domaine disponible${finalList.length > 1 ? 's' : ''}${forcedTlds ? ' (en .ai)' : ''} :`
-        : `Here are ${finalList.length} available domain${finalList.length !== 1 ? 's' : ''}${forcedTlds ? ' (.ai only)' : ''}:`;
-
-      const notEnough = finalList.length < targetAvailableCount;
-      const footer = notEnough
-        ? (french
-            ? `\n\nJe n'ai pas réussi à trouver ${targetAvailableCount} domaines disponibles avec ces contraintes. Essaie un brief plus large (mots-clés, style) ou autorise d'autres extensions.`
-            : `\n\nI couldn't reach ${targetAvailableCount} available domains with the current constraints. Try broadening the brief or allowing more TLDs.`)
-        : '';
-
-      finalUiMessage = {
-        id: (Date.now() + 4242).toString(),
-        role: Role.MODEL,
-        text:
-          finalLines.length > 0
-            ? `${header}\n${finalLines.join('\n')}${footer}`
-            : (french
-                ? `Je n'ai pas trouvé de domaine disponible dans la limite de sécurité (${modelCallCount}/${MAX_MODEL_CALLS} appels, ~${Math.round((Date.now() - startTs) / 1000)}s). Soit on augmente la limite, soit on change la stratégie (noms plus inventés/courts), soit on autorise d'autres extensions.`
-                : `I couldn't find an available domain within the safety limit (${modelCallCount}/${MAX_MODEL_CALLS} calls, ~${Math.round((Date.now() - startTs) / 1000)}s). We can increase the limit, generate more invented/shorter names, or allow more TLDs.`)
-      };
+      );
+      rememberBrainstormRun(null);
+      setSessionUsage(prev => addUsage(prev, job.usage));
 
       log('Brainstorm final', {
-        found: finalList.length,
-        targetAvailableCount,
-        hardAvailableCap,
-        forcedTlds,
-        domains: finalList.map(d => d.domain)
+        status: job.status,
+        found: job.available.length,
+        modelCalls: job.modelCalls,
+        checkedNames: job.checkedNames,
+        domains: job.available.map(d => d.domain),
+        usage: job.usage,
+        budgetExceeded: job.budgetExceeded,
+        error: job.error
       });
 
-      // Update UI: show ALL available domains found across the brainstorm loops.
-      // We provide a synthetic tool response so the cards can render everything (no duplicates).
-      const allAvailable = hardAvailableCap != null
-        ? Array.from(availableDomains.values()).slice(0, hardAvailableCap)
-        : Array.from(availableDomains.values());
-      const toolCallId = 'available';
-      const toolCallArgs = {
-        names: allAvailable.map(r => r.baseName).filter(Boolean),
-        tlds: (forcedTlds && forcedTlds.length > 0) ? forcedTlds : selectedTlds
-      };
-      const uiMsg: Message = {
-        ...finalUiMessage,
-        toolCalls:
-          allAvailable.length > 0
-            ? [
-                {
-                  id: toolCallId,
-                  name: 'checkDomains',
-                  args: toolCallArgs
-                }
-              ]
-            : undefined,
-        toolResponses:
-          allAvailable.length > 0
-            ? [
-                {
-                  id: toolCallId,
-                  name: 'checkDomains',
-                  args: {},
-                  result: allAvailable
-                }
-              ]
-            : undefined,
-        toolDisplayMode: 'availableOnly'
-      };
-
       // Replace the pending bubble with the final brainstorm message.
-      setMessages(prev => prev.map(m => (m.id === pendingId ? uiMsg : m)));
+      const finalId = `brainstorm-${job.id}`;
+      setMessages(prev => prev.map(m => (m.id === pendingId ? brainstormMessage(finalId, job) : m)));
 
     } catch (error) {
       console.error("Error in chat loop:", error);
       const errorMsg: Message = {
         id: Date.now().toString(),
         role: Role.MODEL,
-        text: "Sorry, I encountered an error connecting to the brain. Please try again.",
+        text: describeChatError(error),
         isError: true
       };
       // If we created a pending brainstorm bubble, replace it; otherwise append.
       if (mode === 'brainstorm') {
+        rememberBrainstormRun(null);
         setMessages(prev => prev.map(m => (m.id === pendingId ? errorMsg : m)));
       } else {
         setMessages(prev => [...prev, errorMsg]);
@@ -806,7 +608,58 @@ function App() {
       // eslint-disable-next-line no-console
       console.groupEnd?.();
     }
-  }, [inputValue, isLoading, selectedTlds, messages]);
+  }, [inputValue, isLoading, selectedTlds, competitors, messages]);
+
+  const handleRecheckDomain = useCallback(async (messageId: string, result: DomainCheckResult) => {
+    try {
+      const fresh = await checkDomainAvailability(result.baseName, result.tld, { force: true, competitors: competitorsRef.current });
+      setMessages(prev =>
+        prev.map(m => {
+          if (m.id !== messageId || !Array.isArray(m.toolResponses)) return m;
+          return {
+            ...m,
+            toolResponses: m.toolResponses.map(tr =>
+              Array.isArray(tr.result)
+                ? { ...tr, result: (tr.result as DomainCheckResult[]).map(r => (r?.domain === result.domain ? fresh : r)) }
+                : tr
+            )
+          };
+        })
+      );
+    } catch (error) {
+      console.error(`Error rechecking ${result.domain}:`, error);
+    }
+  }, []);
+
+  // Attaches RDAP registration details to the card's result so they stay in the history.
+  const handleLoadDomainDetails = useCallback(async (messageId: string, result: DomainCheckResult) => {
+    const details = await fetchRegistrationDetails(result);
+    setMessages(prev => replaceDomainResult(prev, messageId, { ...result, details }));
+  }, []);
+
+  // Variants stay local to the card (they are not part of the conversation history).
+  const handleFindVariants = useCallback(async (result: DomainCheckResult) => {
+    const results = await checkNameVariants(result, { competitors: competitorsRef.current });
+    return results.filter(r => r.status === 'available');
+  }, []);
+
+  // Taken domains are stored with their expiry date, so the registration details are
+  // fetched when the card does not have them yet.
+  const handleToggleWatch = useCallback(async (result: DomainCheckResult) => {
+    if (watchlistRef.current.some(e => e.domain === result.domain)) {
+      setWatchlist(prev => prev.filter(e => e.domain !== result.domain));
+      return;
+    }
+    const details = result.status === 'taken' && !result.details ? await fetchRegistrationDetails(result) : result.details;
+    const entry = watchEntryFromResult(result, details?.expiresAt);
+    setWatchlist(prev => (prev.some(e => e.domain === entry.domain) ? prev : [...prev, entry]));
+  }, []);
+
+  const handleUnwatch = useCallback((domain: string) => {
+    setWatchlist(prev => prev.filter(e => e.domain !== domain));
+  }, []);
+
+  const watchedDomains = useMemo(() => new Set(watchlist.map(e => e.domain)), [watchlist]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -861,6 +714,15 @@ function App() {
         onToggleTld={toggleTld}
         onSetTlds={setTlds}
         onOpenExplanation={() => setIsExplanationOpen(true)}
+        watchlist={watchlist}
+        onUnwatch={handleUnwatch}
+        competitors={competitors}
+        onSetCompetitors={setCompetitors}
+      />
+
+      <WatchAlerts
+        alerts={watchAlerts}
+        onDismiss={id => setWatchAlerts(prev => prev.filter(a => a.id !== id))}
       />
 
       {/* Main Content */}
@@ -915,6 +777,16 @@ function App() {
               )}
             </div>
 
+            {sessionUsage && (
+              <div
+                className="hidden md:inline-flex items-center gap-1 rounded-full border border-[rgb(var(--c-ink)/0.12)] bg-[rgb(var(--c-surface)/0.50)] px-3 py-1 text-xs font-semibold text-[rgb(var(--c-muted))]"
+                title={`${sessionUsage.calls} model call${sessionUsage.calls !== 1 ? 's' : ''}: ${sessionUsage.promptTokens} prompt + ${sessionUsage.completionTokens} completion tokens`}
+              >
+                <span className="text-[rgb(var(--c-fg))]">{formatCostUsd(sessionUsage.costUsd)}</span>
+                <span>· {formatTokenCount(sessionUsage.totalTokens)} tokens</span>
+              </div>
+            )}
+
             <button
               onClick={() => setIsExplanationOpen(true)}
               className="focus-ring inline-flex items-center justify-center rounded-xl surface hover:bg-[rgb(var(--c-surface)/0.9)] transition px-3 h-10 text-sm font-semibold"
@@ -947,6 +819,14 @@ function App() {
           </div>
           
           <div className="flex items-center gap-2">
+            {sessionUsage && (
+              <span
+                className="text-xs font-semibold text-[rgb(var(--c-muted))]"
+                title={`${formatTokenCount(sessionUsage.totalTokens)} tokens in ${sessionUsage.calls} model call${sessionUsage.calls !== 1 ? 's' : ''}`}
+              >
+                {formatCostUsd(sessionUsage.costUsd)}
+              </span>
+            )}
             <button
               onClick={() => setTheme(t => (t === 'dark' ? 'light' : 'dark'))}
               className="focus-ring p-2 text-[rgb(var(--c-muted))] hover:bg-[rgb(var(--c-surface)/0.70)] rounded-xl transition"
@@ -968,7 +848,15 @@ function App() {
         <div className="flex-1 min-h-0 overflow-y-auto p-4 md:p-8 pb-28 md:pb-32 scroll-smooth custom-scrollbar">
           <div className="max-w-3xl mx-auto flex flex-col pt-6 md:pt-8">
             {messages.map(msg => (
-              <ChatMessage key={msg.id} message={msg} />
+              <ChatMessage
+                key={msg.id}
+                message={msg}
+                onRecheckDomain={handleRecheckDomain}
+                onLoadDomainDetails={handleLoadDomainDetails}
+                onFindVariants={handleFindVariants}
+                watchedDomains={watchedDomains}
+                onToggleWatch={handleToggleWatch}
+              />
             ))}
 
             {/* Quick-start (only before the first user message) */}
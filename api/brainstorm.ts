@@ -0,0 +1,40 @@
+/// <reference types="node" />
+
+import { admitChatRequest, brainstormGuardFromEnv, clientRequestInfo } from '../server/chatGuard';
+import { buildBrainstormResponse, buildBrainstormStatusResponse, writeBrainstormStream } from '../server/brainstorm';
+
+export default async function handler(req: any, res: any) {
+  if (req.method === 'GET') {
+    // Runs are kept in memory per instance, so on a serverless platform this usually
+    // answers 404: polling and resuming need a single long-lived server.
+    const { status, json } = buildBrainstormStatusResponse(req.query?.id);
+    return res.status(status).json(json);
+  }
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Same guard as `/api/chat`, with the brainstorm bucket; polling above is not limited.
+    const guard = brainstormGuardFromEnv(process.env);
+    const info = clientRequestInfo(req, guard);
+    const rejection = await admitChatRequest(
+      { ...info, contentLength: info.contentLength ?? Buffer.byteLength(JSON.stringify(req.body ?? {})) },
+      guard
+    );
+    if (rejection) {
+      for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+      return res.status(rejection.status).json(rejection.json);
+    }
+
+    if (req.body?.stream === true) {
+      return await writeBrainstormStream(req.body, process.env, res);
+    }
+
+    const { status, json } = await buildBrainstormResponse(req.body, process.env);
+    return res.status(status).json(json);
+  } catch (error: any) {
+    console.error("API Error:", error);
+    return res.status(500).json({ error: error.message || 'Internal Server Error' });
+  }
+}
@@ -1,6 +1,7 @@
 /// <reference types="node" />
 
-import { buildChatResponse } from '../server/mistralChat';
+import { admitChatRequest, chatGuardFromEnv, clientRequestInfo } from '../server/chatGuard';
+import { buildChatResponse, writeChatStream } from '../server/mistralChat';
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
@@ -8,6 +9,22 @@ export default async function handler(req: any, res: any) {
   }
 
   try {
+    // The platform has parsed the body already; without a Content-Length, measure it.
+    const guard = chatGuardFromEnv(process.env);
+    const info = clientRequestInfo(req, guard);
+    const rejection = await admitChatRequest(
+      { ...info, contentLength: info.contentLength ?? Buffer.byteLength(JSON.stringify(req.body ?? {})) },
+      guard
+    );
+    if (rejection) {
+      for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+      return res.status(rejection.status).json(rejection.json);
+    }
+
+    if (req.body?.stream === true) {
+      return await writeChatStream(req.body, process.env, res);
+    }
+
     const { status, json } = await buildChatResponse(req.body, process.env);
     return res.status(status).json(json);
   } catch (error: any) {
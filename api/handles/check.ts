@@ -0,0 +1,30 @@
+/// <reference types="node" />
+
+import { admitChatRequest, clientRequestInfo, lookupGuardFromEnv } from '../../server/chatGuard';
+import { buildHandleCheckResponse } from '../../server/handleCheck';
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Same guard as `/api/chat`, with the shared lookup bucket.
+    const guard = lookupGuardFromEnv(process.env);
+    const info = clientRequestInfo(req, guard);
+    const rejection = await admitChatRequest(
+      { ...info, contentLength: info.contentLength ?? Buffer.byteLength(JSON.stringify(req.body ?? {})) },
+      guard
+    );
+    if (rejection) {
+      for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+      return res.status(rejection.status).json(rejection.json);
+    }
+
+    const { status, json } = await buildHandleCheckResponse(req.body, process.env);
+    return res.status(status).json(json);
+  } catch (error: any) {
+    console.error("API Error:", error);
+    return res.status(500).json({ error: error.message || 'Internal Server Error' });
+  }
+}
@@ -1,14 +1,20 @@
 import React from 'react';
-import { Message, Role, DomainCheckResult } from '../types';
+import { Message, Role, DomainCheckResult, HandleCheckResult } from '../types';
 import { Bot, User, Cpu, Loader2 } from 'lucide-react';
 import { DomainCard } from './DomainCard';
+import { HandleBadges } from './HandleBadges';
 import { MarkdownText } from './MarkdownText';
 
 interface ChatMessageProps {
   message: Message;
+  onRecheckDomain?: (messageId: string, result: DomainCheckResult) => Promise<void> | void;
+  onLoadDomainDetails?: (messageId: string, result: DomainCheckResult) => Promise<void> | void;
+  watchedDomains?: Set<string>;
+  onToggleWatch?: (result: DomainCheckResult) => Promise<void> | void;
+  onFindVariants?: (result: DomainCheckResult) => Promise<DomainCheckResult[]>;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({ message, onRecheckDomain, onLoadDomainDetails, watchedDomains, onToggleWatch, onFindVariants }) => {
   const isUser = message.role === Role.USER;
   const isSystem = message.role === Role.SYSTEM;
   const toolDisplayMode = message.toolDisplayMode ?? 'availableOnly';
@@ -58,6 +64,16 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
                </div>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full">
                   {message.toolResponses.map((toolResp, idx) => {
+                     if (toolResp.name === 'checkHandles') {
+                       const handles = toolResp.result as HandleCheckResult[];
+                       if (!Array.isArray(handles) || handles.length === 0) return null;
+                       return (
+                         <div key={idx} className="sm:col-span-2">
+                           <HandleBadges results={handles} />
+                         </div>
+                       );
+                     }
+
                      // The tool response content is what we returned from our service
                      // It should be an array of DomainCheckResult
                      const results = toolResp.result as DomainCheckResult[];
@@ -70,7 +86,15 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
                      return (
                         <React.Fragment key={idx}>
                         {displayResults.map((res) => (
-                             <DomainCard key={`${res.domain}-${idx}`} result={res} />
+                             <DomainCard
+                               key={`${res.domain}-${idx}`}
+                               result={res}
+                               onRecheck={onRecheckDomain ? r => onRecheckDomain(message.id, r) : undefined}
+                               onLoadDetails={onLoadDomainDetails ? r => onLoadDomainDetails(message.id, r) : undefined}
+                               isWatched={watchedDomains?.has(res.domain)}
+                               onToggleWatch={onToggleWatch}
+                               onFindVariants={onFindVariants}
+                             />
                           ))}
                         </React.Fragment>
                      );
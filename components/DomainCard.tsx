@@ -1,25 +1,118 @@
 import React, { useMemo, useState } from 'react';
-import { Check, X, Loader2, ExternalLink, Copy, CheckCheck } from 'lucide-react';
-import { DomainCheckResult } from '../types';
+import { Check, X, Loader2, ExternalLink, Copy, CheckCheck, CircleHelp, CircleAlert, RefreshCw, Ban, Tag, ChevronDown, Bell, BellOff, ShieldAlert, Shuffle, Fingerprint } from 'lucide-react';
+import { DomainCheckResult, SOLID_AVAILABILITY_CONFIDENCE } from '../types';
+import { domainToUnicode } from '../services/punycode';
 
 interface DomainCardProps {
   result: DomainCheckResult;
+  // Re-runs the check, bypassing every cache layer.
+  onRecheck?: (result: DomainCheckResult) => Promise<void> | void;
+  // Fetches RDAP registration details and attaches them to `result.details`.
+  onLoadDetails?: (result: DomainCheckResult) => Promise<void> | void;
+  // Watchlist: periodic re-checks with alerts when the status changes.
+  isWatched?: boolean;
+  onToggleWatch?: (result: DomainCheckResult) => Promise<void> | void;
+  // Checks name variants ("getfoo", "foohq", ...) on the same TLD; resolves to the available ones.
+  onFindVariants?: (result: DomainCheckResult) => Promise<DomainCheckResult[]>;
 }
 
-export const DomainCard: React.FC<DomainCardProps> = ({ result }) => {
+const formatCheckedAt = (checkedAt: string | undefined): string => {
+  const ts = Date.parse(String(checkedAt || ''));
+  if (!Number.isFinite(ts)) return '';
+  const seconds = Math.max(0, Math.round((Date.now() - ts) / 1000));
+  if (seconds < 45) return 'checked just now';
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `checked ${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `checked ${hours}h ago`;
+  return `checked ${new Date(ts).toLocaleDateString()}`;
+};
+
+const formatDate = (value: string | undefined): string => {
+  const ts = Date.parse(String(value || ''));
+  return Number.isFinite(ts) ? new Date(ts).toLocaleDateString() : '—';
+};
+
+const TRADEMARK_RISK_STYLES: Record<string, string> = {
+  high: 'bg-red-100/80 dark:bg-red-950/30 text-red-700 dark:text-red-200 border-red-200/70 dark:border-red-900/40',
+  medium: 'bg-orange-100/80 dark:bg-orange-950/30 text-orange-700 dark:text-orange-200 border-orange-200/70 dark:border-orange-900/40',
+  low: 'bg-slate-100/80 dark:bg-slate-800/40 text-slate-600 dark:text-slate-300 border-slate-200/70 dark:border-slate-700/40'
+};
+
+// "NIKE (exact · class 25 · USPTO)" per hit, one per line.
+const describeTrademarkHits = (result: DomainCheckResult): string =>
+  (result.trademark?.hits || [])
+    .map(hit => {
+      const meta = [
+        hit.matchType,
+        hit.classes.length > 0 ? `class ${hit.classes.join(', ')}` : '',
+        hit.office || '',
+        hit.live ? '' : 'dead'
+      ].filter(Boolean);
+      return `${hit.mark} (${meta.join(' · ')})${hit.owner ? ` – ${hit.owner}` : ''}`;
+    })
+    .join('\n');
+
+const BRAND_MATCH_LABELS: Record<string, string> = {
+  exact: 'same name',
+  homoglyph: 'looks identical',
+  typo: 'one typo away',
+  edit: 'nearly the same spelling',
+  phonetic: 'sounds the same'
+};
+
+// Short, human-readable summary of what the checker observed (shown as a tooltip).
+const describeSignals = (result: DomainCheckResult): string => {
+  const signals = result.signals;
+  if (!signals) return '';
+  const parts: string[] = [];
+  if (signals.rdap === 'registered') parts.push('registry has a record');
+  if (signals.rdap === 'not-found') parts.push('registry has no record');
+  if (signals.rdap === 'unsupported') parts.push('no RDAP service for this extension');
+  if (signals.rdap === 'error') parts.push('registry lookup failed');
+  if (result.parkingService) parts.push(`nameservers at ${result.parkingService}`);
+  if (signals.dns) {
+    const dns = Object.entries(signals.dns).map(([type, signal]) => `${type}: ${signal}`);
+    if (dns.length > 0) parts.push(`DNS ${dns.join(', ')}`);
+  }
+  const confidence = typeof result.confidence === 'number' ? ` (${Math.round(result.confidence * 100)}% confidence)` : '';
+  return parts.length > 0 ? `${parts.join(' · ')}${confidence}` : '';
+};
+
+export const DomainCard: React.FC<DomainCardProps> = ({ result, onRecheck, onLoadDetails, isWatched, onToggleWatch, onFindVariants }) => {
   const isAvailable = result.status === 'available';
   const isTaken = result.status === 'taken';
+  const isPending = Boolean(result.isPending);
+  const isInvalid = result.status === 'invalid';
+  // Taken, but parked at a marketplace / parking service: may be bought from the owner.
+  const isForSale = isTaken && Boolean(result.parked || result.forSale);
+  const isPlainTaken = isTaken && !isForSale;
+  // "Available" from weak signals only (e.g. DNS NXDOMAIN without a registry answer).
+  const isTentative = isAvailable && (result.confidence ?? 0) < SOLID_AVAILABILITY_CONFIDENCE;
+  const signalsSummary = describeSignals(result);
   const [copied, setCopied] = useState(false);
+  const [isRechecking, setIsRechecking] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const [isLoadingDetails, setIsLoadingDetails] = useState(false);
+  const [variants, setVariants] = useState<DomainCheckResult[] | null>(null);
+  const [variantsError, setVariantsError] = useState('');
+  const [isFindingVariants, setIsFindingVariants] = useState(false);
+  const details = result.details;
+  const checkedLabel = formatCheckedAt(result.checkedAt);
   const verifyUrl = useMemo(
     () => `https://www.namecheap.com/domains/registration/results/?domain=${encodeURIComponent(result.domain)}`,
     [result.domain]
   );
 
   const fullDomain = `${result.baseName}${result.tld}`;
+  // IDNs are shown in Unicode; the ASCII (xn--) form stays in the tooltip.
+  const displayBase = domainToUnicode(result.baseName);
+  const displayTld = domainToUnicode(result.tld);
+  const isIdn = `${displayBase}${displayTld}` !== fullDomain;
 
   const onCopy = async () => {
     try {
-      await navigator.clipboard.writeText(fullDomain);
+      await navigator.clipboard.writeText(`${displayBase}${displayTld}`);
       setCopied(true);
       window.setTimeout(() => setCopied(false), 1200);
     } catch {
@@ -27,37 +120,175 @@ export const DomainCard: React.FC<DomainCardProps> = ({ result }) => {
     }
   };
 
+  const onRecheckClick = async () => {
+    if (!onRecheck || isRechecking) return;
+    setIsRechecking(true);
+    try {
+      await onRecheck(result);
+    } finally {
+      setIsRechecking(false);
+    }
+  };
+
+  // Details are only fetched the first time the panel is opened.
+  const onToggleDetails = async () => {
+    const next = !showDetails;
+    setShowDetails(next);
+    if (!next || details || !onLoadDetails || isLoadingDetails) return;
+    setIsLoadingDetails(true);
+    try {
+      await onLoadDetails(result);
+    } finally {
+      setIsLoadingDetails(false);
+    }
+  };
+
+  const onFindVariantsClick = async () => {
+    if (!onFindVariants || isFindingVariants) return;
+    setIsFindingVariants(true);
+    setVariantsError('');
+    try {
+      setVariants(await onFindVariants(result));
+    } catch (error: any) {
+      setVariantsError(error?.message || 'Variant check failed');
+    } finally {
+      setIsFindingVariants(false);
+    }
+  };
+
   return (
     <div className={`
       group relative overflow-hidden rounded-2xl border p-3.5
       grid grid-cols-[minmax(0,1fr)_auto] items-center gap-3
       transition-all duration-200 hover:shadow-soft
-      ${isAvailable ? 'bg-emerald-50/80 dark:bg-emerald-950/20 border-emerald-200/70 dark:border-emerald-800/40' : ''}
-      ${isTaken ? 'bg-slate-50/70 dark:bg-slate-900/30 border-slate-200/70 dark:border-slate-800/70 opacity-80' : ''}
+      ${isAvailable && !isTentative ? 'bg-emerald-50/80 dark:bg-emerald-950/20 border-emerald-200/70 dark:border-emerald-800/40' : ''}
+      ${isTentative ? 'bg-emerald-50/30 dark:bg-emerald-950/10 border-dashed border-emerald-300/70 dark:border-emerald-700/50' : ''}
+      ${isPlainTaken ? 'bg-slate-50/70 dark:bg-slate-900/30 border-slate-200/70 dark:border-slate-800/70 opacity-80' : ''}
+      ${isForSale ? 'bg-violet-50/60 dark:bg-violet-950/20 border-violet-200/70 dark:border-violet-800/40' : ''}
       ${result.status === 'unknown' ? 'bg-amber-50/80 dark:bg-amber-950/20 border-amber-200/70 dark:border-amber-800/40' : ''}
+      ${isInvalid ? 'bg-slate-50/40 dark:bg-slate-900/20 border-slate-200/70 dark:border-slate-800/70 opacity-75' : ''}
     `}>
       <div className="flex items-center gap-3 min-w-0">
         <div className={`
           p-2.5 rounded-2xl shadow-sm border
-          ${isAvailable ? 'bg-emerald-100/80 dark:bg-emerald-900/25 text-emerald-700 dark:text-emerald-200 border-emerald-200/60 dark:border-emerald-800/40' : ''}
-          ${isTaken ? 'bg-slate-200/70 dark:bg-slate-800/50 text-slate-600 dark:text-slate-300 border-slate-200/60 dark:border-slate-700/40' : ''}
+          ${isAvailable && !isTentative ? 'bg-emerald-100/80 dark:bg-emerald-900/25 text-emerald-700 dark:text-emerald-200 border-emerald-200/60 dark:border-emerald-800/40' : ''}
+          ${isTentative ? 'bg-white/60 dark:bg-slate-900/40 text-emerald-600 dark:text-emerald-300 border-dashed border-emerald-300/70 dark:border-emerald-700/50' : ''}
+          ${isPlainTaken ? 'bg-slate-200/70 dark:bg-slate-800/50 text-slate-600 dark:text-slate-300 border-slate-200/60 dark:border-slate-700/40' : ''}
+          ${isForSale ? 'bg-violet-100/80 dark:bg-violet-900/25 text-violet-700 dark:text-violet-200 border-violet-200/60 dark:border-violet-800/40' : ''}
           ${result.status === 'unknown' ? 'bg-amber-100/80 dark:bg-amber-900/25 text-amber-700 dark:text-amber-200 border-amber-200/60 dark:border-amber-800/40' : ''}
+          ${isInvalid ? 'bg-slate-100/70 dark:bg-slate-800/40 text-slate-500 dark:text-slate-400 border-slate-200/60 dark:border-slate-700/40' : ''}
         `}>
-          {isAvailable && <Check size={16} strokeWidth={3} />}
-          {isTaken && <X size={16} strokeWidth={3} />}
-          {result.status === 'unknown' && <Loader2 size={16} className="animate-spin" />}
+          {isAvailable && !isTentative && <Check size={16} strokeWidth={3} />}
+          {isTentative && <CircleHelp size={16} strokeWidth={2.5} />}
+          {isPlainTaken && <X size={16} strokeWidth={3} />}
+          {isForSale && <Tag size={16} strokeWidth={2.5} />}
+          {result.status === 'unknown' && isPending && <Loader2 size={16} className="animate-spin" />}
+          {result.status === 'unknown' && !isPending && <CircleAlert size={16} strokeWidth={2.5} />}
+          {isInvalid && <Ban size={16} strokeWidth={2.5} />}
         </div>
         <div className="flex flex-col min-w-0">
-           <span className={`font-semibold text-sm ${isTaken ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-900 dark:text-white'}`}>
-             <span className="block truncate font-mono tracking-tight">{result.baseName}<span className="text-slate-500 dark:text-slate-400 font-mono">{result.tld}</span></span>
+           <span className={`font-semibold text-sm ${isPlainTaken ? 'line-through text-slate-400 dark:text-slate-500' : 'text-slate-900 dark:text-white'}`}>
+             <span className="block truncate font-mono tracking-tight" title={isIdn ? fullDomain : undefined}>{displayBase}<span className="text-slate-500 dark:text-slate-400 font-mono">{displayTld}</span></span>
            </span>
-           <span className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wide">
-             {isAvailable ? 'Available' : isTaken ? 'Taken' : 'Checking…'}
+           <span
+             className="text-xs text-slate-500 dark:text-slate-400 font-bold uppercase tracking-wide"
+             title={signalsSummary || undefined}
+           >
+             {isTentative ? 'Likely available · verify' : isAvailable ? 'Available' : isForSale ? 'Possibly for sale' : isTaken ? 'Taken' : isInvalid ? "Can't register" : isPending ? 'Checking…' : 'Unknown'}
            </span>
+           {result.trademark && result.trademark.risk !== 'none' && (
+             <span
+               className={`mt-1 inline-flex w-fit items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] font-bold ${TRADEMARK_RISK_STYLES[result.trademark.risk] ?? TRADEMARK_RISK_STYLES.low}`}
+               title={describeTrademarkHits(result)}
+             >
+               <ShieldAlert size={12} /> Trademark risk: {result.trademark.risk}
+             </span>
+           )}
+           {result.similarBrands && result.similarBrands.length > 0 && (
+             <span
+               className="mt-1 inline-flex w-fit items-center gap-1 rounded-full border px-2 py-0.5 text-[11px] font-bold bg-amber-100/80 dark:bg-amber-950/30 text-amber-700 dark:text-amber-200 border-amber-200/70 dark:border-amber-900/40"
+               title={result.similarBrands
+                 .map(m => `${m.brand}${m.source === 'competitor' ? ' (competitor)' : ''}: ${BRAND_MATCH_LABELS[m.kind] ?? m.kind}`)
+                 .join('\n')}
+             >
+               <Fingerprint size={12} /> Looks like {result.similarBrands[0].brand}
+             </span>
+           )}
+           {result.candidate?.rationale && (
+             <span className="mt-1 text-xs text-slate-600 dark:text-slate-300 leading-snug">
+               {result.candidate.rationale}
+               <span className="text-slate-400 dark:text-slate-500">
+                 {' · '}{[result.candidate.style, result.candidate.origin].filter(Boolean).join(', ')}
+               </span>
+             </span>
+           )}
+           {isForSale && result.parkingService && (
+             <span className="text-xs text-violet-600/80 dark:text-violet-300/80 leading-snug">Parked at {result.parkingService}</span>
+           )}
+           {isInvalid && result.reason && (
+             <span className="text-xs text-slate-500 dark:text-slate-400 leading-snug">{result.reason}</span>
+           )}
+           {checkedLabel && (
+             <span className="text-[11px] text-slate-400 dark:text-slate-500" title={result.checkedAt}>
+               {checkedLabel}
+             </span>
+           )}
         </div>
       </div>
 
       <div className="flex flex-col items-end gap-2">
+        {onLoadDetails && isTaken && !isPending && (
+          <button
+            onClick={onToggleDetails}
+            className="focus-ring inline-flex items-center justify-center w-10 h-10 rounded-2xl transition surface"
+            title={showDetails ? 'Hide registration details' : 'Show registration details'}
+            aria-label="Registration details"
+            aria-expanded={showDetails}
+          >
+            <ChevronDown size={16} className={`text-slate-700 dark:text-slate-200 transition-transform ${showDetails ? 'rotate-180' : ''}`} />
+          </button>
+        )}
+
+        {onFindVariants && isTaken && !isPending && (
+          <button
+            onClick={onFindVariantsClick}
+            disabled={isFindingVariants}
+            className="focus-ring inline-flex items-center justify-center w-10 h-10 rounded-2xl transition surface disabled:opacity-60"
+            title="Find variants (getfoo, foohq, foo-app, …) on this extension"
+            aria-label="Find variants"
+          >
+            {isFindingVariants
+              ? <Loader2 size={16} className="animate-spin text-slate-700 dark:text-slate-200" />
+              : <Shuffle size={16} className="text-slate-700 dark:text-slate-200" />}
+          </button>
+        )}
+
+        {onToggleWatch && (isTaken || isAvailable) && !isPending && (
+          <button
+            onClick={() => onToggleWatch(result)}
+            className="focus-ring inline-flex items-center justify-center w-10 h-10 rounded-2xl transition surface"
+            title={isWatched ? 'Stop watching' : 'Watch this domain (re-checked in the background)'}
+            aria-label={isWatched ? 'Stop watching domain' : 'Watch domain'}
+            aria-pressed={Boolean(isWatched)}
+          >
+            {isWatched
+              ? <BellOff size={16} className="text-slate-700 dark:text-slate-200" />
+              : <Bell size={16} className="text-slate-700 dark:text-slate-200" />}
+          </button>
+        )}
+
+        {onRecheck && !isPending && !isInvalid && (
+          <button
+            onClick={onRecheckClick}
+            disabled={isRechecking}
+            className="focus-ring inline-flex items-center justify-center w-10 h-10 rounded-2xl transition surface disabled:opacity-60"
+            title="Force recheck (skip cache)"
+            aria-label="Force recheck"
+          >
+            <RefreshCw size={16} className={`text-slate-700 dark:text-slate-200 ${isRechecking ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+
         <button
           onClick={onCopy}
           className="focus-ring inline-flex items-center justify-center w-10 h-10 rounded-2xl transition surface"
@@ -76,12 +307,63 @@ export const DomainCard: React.FC<DomainCardProps> = ({ result }) => {
               ? 'border-emerald-200/60 dark:border-emerald-800/40 bg-emerald-100/80 dark:bg-emerald-900/25 hover:bg-emerald-200/80 dark:hover:bg-emerald-900/35'
               : 'surface'
             }`}
-          title={isAvailable ? 'Buy this domain' : 'Verify on registrar'}
-          aria-label={isAvailable ? 'Buy domain' : 'Verify domain'}
+          title={isAvailable && !isTentative ? 'Buy this domain' : 'Verify on registrar'}
+          aria-label={isAvailable && !isTentative ? 'Buy domain' : 'Verify domain'}
         >
           <ExternalLink size={16} className={isAvailable ? 'text-emerald-800 dark:text-emerald-200' : 'text-slate-700 dark:text-slate-200'} />
         </a>
       </div>
+
+      {(variants || variantsError) && (
+        <div className="col-span-2 rounded-xl border border-slate-200/70 dark:border-slate-800/70 bg-white/60 dark:bg-slate-900/40 p-3 text-xs text-slate-600 dark:text-slate-300">
+          {variantsError && <span>Variants unavailable: {variantsError}</span>}
+          {variants && variants.length === 0 && <span>No available variants on {displayTld}.</span>}
+          {variants && variants.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="font-semibold mr-1">Available variants:</span>
+              {variants.map(v => (
+                <a
+                  key={v.domain}
+                  href={`https://www.namecheap.com/domains/registration/results/?domain=${encodeURIComponent(v.domain)}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className={`focus-ring inline-flex items-center rounded-full border px-2.5 py-1 font-mono font-semibold ${(v.confidence ?? 0) < SOLID_AVAILABILITY_CONFIDENCE
+                    ? 'border-dashed border-emerald-300/70 dark:border-emerald-700/50 text-emerald-700 dark:text-emerald-300'
+                    : 'border-emerald-200/60 dark:border-emerald-800/40 bg-emerald-100/80 dark:bg-emerald-900/25 text-emerald-800 dark:text-emerald-200'}`}
+                  title={(v.confidence ?? 0) < SOLID_AVAILABILITY_CONFIDENCE ? 'Likely available · verify' : 'Available'}
+                >
+                  {v.unicodeDomain || v.domain}
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showDetails && (
+        <div className="col-span-2 rounded-xl border border-slate-200/70 dark:border-slate-800/70 bg-white/60 dark:bg-slate-900/40 p-3 text-xs text-slate-600 dark:text-slate-300">
+          {isLoadingDetails && !details && (
+            <span className="inline-flex items-center gap-2"><Loader2 size={12} className="animate-spin" /> Loading registration details…</span>
+          )}
+          {details?.error && (
+            <span title={details.error}>Details unavailable: {details.error}</span>
+          )}
+          {details && !details.error && (
+            <dl className="grid grid-cols-[auto_minmax(0,1fr)] gap-x-3 gap-y-1">
+              <dt className="font-semibold">Registrar</dt>
+              <dd className="truncate">{details.registrar || '—'}</dd>
+              <dt className="font-semibold">Created</dt>
+              <dd>{formatDate(details.createdAt)}</dd>
+              <dt className="font-semibold">Expires</dt>
+              <dd>{formatDate(details.expiresAt)}</dd>
+              <dt className="font-semibold">Status</dt>
+              <dd className="break-words">{details.statuses.length > 0 ? details.statuses.join(', ') : '—'}</dd>
+              <dt className="font-semibold">Nameservers</dt>
+              <dd className="break-words font-mono">{details.nameservers.length > 0 ? details.nameservers.join(', ') : '—'}</dd>
+            </dl>
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -44,7 +44,7 @@ export const ExplanationModal: React.FC<ExplanationModalProps> = ({ isOpen, onCl
             <div>
               <h4 className="font-bold text-slate-900 dark:text-white mb-1">2) Check availability</h4>
               <p className="text-sm text-slate-600 dark:text-slate-300 leading-relaxed">
-                We check domain availability instantly using Google's DNS-over-HTTPS. We look for 'NXDOMAIN' (Non-Existent Domain) records, which strongly suggests the domain is available.
+                We ask each extension's registry directly over RDAP: no registration record means the domain is available. For the few extensions without RDAP, we fall back to Google's DNS-over-HTTPS and look for 'NXDOMAIN' (Non-Existent Domain) answers.
               </p>
             </div>
           </div>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { HandleCheckResult, HandlePlatform } from '../types';
+
+const PLATFORM_LABELS: Record<HandlePlatform, string> = {
+  npm: 'npm',
+  pypi: 'PyPI',
+  github: 'GitHub'
+};
+
+const STATUS_STYLES: Record<HandleCheckResult['status'], string> = {
+  available: 'bg-emerald-100/80 dark:bg-emerald-900/25 text-emerald-700 dark:text-emerald-200 border-emerald-200/60 dark:border-emerald-800/40',
+  taken: 'bg-slate-100/80 dark:bg-slate-800/40 text-slate-500 dark:text-slate-400 border-slate-200/60 dark:border-slate-700/40 line-through',
+  unknown: 'bg-amber-100/80 dark:bg-amber-900/25 text-amber-700 dark:text-amber-200 border-amber-200/60 dark:border-amber-800/40',
+  invalid: 'bg-slate-50/60 dark:bg-slate-900/30 text-slate-400 dark:text-slate-500 border-dashed border-slate-200/70 dark:border-slate-700/50'
+};
+
+interface HandleBadgesProps {
+  results: HandleCheckResult[];
+}
+
+// One row per base name: a badge per platform, linking to the package / account page.
+export const HandleBadges: React.FC<HandleBadgesProps> = ({ results }) => {
+  const byName = new Map<string, HandleCheckResult[]>();
+  for (const r of results) {
+    if (!r?.name) continue;
+    byName.set(r.name, [...(byName.get(r.name) || []), r]);
+  }
+
+  return (
+    <div className="flex flex-col gap-2 w-full">
+      {Array.from(byName.entries()).map(([name, rows]) => (
+        <div key={name} className="flex flex-wrap items-center gap-2 rounded-2xl border border-[rgb(var(--c-ink)/0.12)] bg-[rgb(var(--c-surface)/0.55)] px-3 py-2">
+          <span className="font-mono font-semibold text-sm mr-1">{name}</span>
+          {rows.map(r => (
+            <a
+              key={r.platform}
+              href={r.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`focus-ring inline-flex items-center rounded-full border px-2.5 py-1 text-[11px] font-bold uppercase tracking-wide ${STATUS_STYLES[r.status] ?? STATUS_STYLES.unknown}`}
+              title={`${PLATFORM_LABELS[r.platform]} "${r.handle}": ${r.reason || r.status}`}
+            >
+              {PLATFORM_LABELS[r.platform] ?? r.platform}
+            </a>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
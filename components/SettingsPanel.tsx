@@ -1,5 +1,5 @@
 import React from 'react';
-import { AVAILABLE_TLDS } from '../types';
+import { FEATURED_TLDS } from '../services/tldCatalog';
 import { Settings2, X } from 'lucide-react';
 
 interface SettingsPanelProps {
@@ -29,7 +29,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ selectedTlds, onTo
           Select the domain extensions you want the bot to check automatically.
         </p>
         <div className="grid grid-cols-3 gap-2">
-          {AVAILABLE_TLDS.map(tld => {
+          {FEATURED_TLDS.map(tld => {
             const isSelected = selectedTlds.includes(tld);
             return (
               <button
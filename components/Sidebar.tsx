@@ -1,6 +1,8 @@
-import React from 'react';
-import { AVAILABLE_TLDS } from '../types';
-import { Sparkles, Info, X } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { MAX_COMPETITOR_LENGTH, MAX_COMPETITORS } from '../services/brandSimilarity';
+import { FEATURED_TLDS, TldInfo, getTldInfo, searchTlds } from '../services/tldCatalog';
+import { WatchedDomain } from '../types';
+import { Sparkles, Info, X, Search, Lock, Bell, Swords } from 'lucide-react';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -9,22 +11,69 @@ interface SidebarProps {
   onToggleTld: (tld: string) => void;
   onSetTlds: (tlds: string[]) => void;
   onOpenExplanation: () => void;
+  watchlist: WatchedDomain[];
+  onUnwatch: (domain: string) => void;
+  competitors: string[];
+  onSetCompetitors: (competitors: string[]) => void;
 }
 
+const STATUS_DOT: Record<WatchedDomain['lastStatus'], string> = {
+  available: 'bg-emerald-500',
+  taken: 'bg-slate-400',
+  unknown: 'bg-amber-400',
+  invalid: 'bg-slate-300'
+};
+
+// Recent checks, newest first, for the entry's tooltip.
+const describeHistory = (entry: WatchedDomain): string =>
+  entry.history
+    .slice(-10)
+    .reverse()
+    .map(h => `${new Date(h.checkedAt).toLocaleString()}: ${h.status}`)
+    .join('\n');
+
 export const Sidebar: React.FC<SidebarProps> = ({ 
   isOpen, 
   onClose, 
   selectedTlds, 
   onToggleTld,
   onSetTlds,
-  onOpenExplanation 
+  onOpenExplanation,
+  watchlist,
+  onUnwatch,
+  competitors,
+  onSetCompetitors
 }) => {
   const presets: Array<{ label: string; tlds: string[] }> = [
     { label: 'Popular', tlds: ['.com', '.io', '.ai', '.co', '.app'] },
     { label: 'Tech', tlds: ['.ai', '.io', '.dev', '.app', '.cloud', '.tech', '.studio'] },
-    { label: 'All', tlds: AVAILABLE_TLDS },
+    { label: 'All', tlds: FEATURED_TLDS },
   ];
 
+  const [query, setQuery] = useState('');
+  const [competitorDraft, setCompetitorDraft] = useState('');
+
+  // "Acme, Globex" adds both; names already listed (case-insensitive) are skipped, as is
+  // anything past the API's limits (MAX_COMPETITORS names of MAX_COMPETITOR_LENGTH characters).
+  const addCompetitors = () => {
+    const known = new Set(competitors.map(c => c.toLowerCase()));
+    const added = competitorDraft
+      .split(',')
+      .map(c => c.trim())
+      .filter(c => c && c.length <= MAX_COMPETITOR_LENGTH && !known.has(c.toLowerCase()) && known.add(c.toLowerCase()))
+      .slice(0, Math.max(0, MAX_COMPETITORS - competitors.length));
+    if (added.length > 0) onSetCompetitors([...competitors, ...added]);
+    setCompetitorDraft('');
+  };
+
+  // Empty query: featured extensions plus anything selected from the full catalog.
+  // Otherwise: search across the whole IANA catalog (restricted TLDs included, but flagged).
+  const visibleTlds: TldInfo[] = useMemo(() => {
+    if (query.trim()) return searchTlds(query, { limit: 60, includeRestricted: true });
+    const tlds = Array.from(new Set([...FEATURED_TLDS, ...selectedTlds]));
+    return tlds.map(tld => getTldInfo(tld)).filter((v): v is TldInfo => Boolean(v));
+  }, [query, selectedTlds]);
+
   return (
     <>
       {/* Overlay for mobile */}
@@ -86,26 +135,129 @@ export const Sidebar: React.FC<SidebarProps> = ({
               <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3">
                 Extensions
               </h2>
-              
+
+              <label className="relative block mb-3">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-[rgb(var(--c-muted))]" />
+                <input
+                  type="search"
+                  value={query}
+                  onChange={e => setQuery(e.target.value)}
+                  placeholder="Search all extensions (e.g. .studio, tech)"
+                  className="focus-ring w-full rounded-xl border border-[rgb(var(--c-ink)/0.12)] bg-[rgb(var(--c-surface)/0.55)] pl-8 pr-3 py-2 text-sm placeholder:text-[rgb(var(--c-muted))]"
+                  aria-label="Search extensions"
+                />
+              </label>
+
               <div className="grid grid-cols-2 gap-2">
-                {AVAILABLE_TLDS.map(tld => {
-                  const isSelected = selectedTlds.includes(tld);
+                {visibleTlds.map(info => {
+                  const isSelected = selectedTlds.includes(info.tld);
+                  const meta = [info.kind === 'country-code' ? 'ccTLD' : info.kind === 'infrastructure' ? 'infra' : 'gTLD', info.category];
                   return (
                     <button
-                      key={tld}
-                      onClick={() => onToggleTld(tld)}
+                      key={info.tld}
+                      onClick={() => onToggleTld(info.tld)}
+                      title={`${info.unicode ?? info.tld} · ${meta.join(' · ')}${info.restricted ? ' · restricted registration' : ''}`}
                       className={`
                         focus-ring text-sm font-semibold py-2.5 px-3 rounded-xl transition-all border text-left
+                        flex items-center justify-between gap-2 min-w-0
                         ${isSelected 
                           ? 'bg-[rgb(var(--c-accent2)/0.14)] border-[rgb(var(--c-accent2)/0.32)] text-[rgb(var(--c-fg))] shadow-sm'
                           : 'bg-[rgb(var(--c-surface)/0.55)] border-[rgb(var(--c-ink)/0.12)] text-[rgb(var(--c-fg))] hover:border-[rgb(var(--c-accent)/0.35)]'}
+                        ${info.restricted ? 'opacity-70' : ''}
                       `}
                     >
-                      {tld}
+                      <span className="truncate">{info.unicode ?? info.tld}</span>
+                      {info.restricted && <Lock size={12} className="flex-shrink-0 text-[rgb(var(--c-muted))]" />}
                     </button>
                   );
                 })}
               </div>
+              {query.trim() && visibleTlds.length === 0 && (
+                <p className="text-xs text-[rgb(var(--c-muted))] mt-2">No delegated extension matches “{query.trim()}”.</p>
+              )}
+            </div>
+
+            <div className="mb-6">
+              <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                <Swords size={12} /> Competitors
+              </h2>
+              <p className="text-xs text-[rgb(var(--c-muted))] leading-relaxed mb-3">
+                Names that look or sound like these (or like a famous brand) are flagged, and skipped while brainstorming.
+              </p>
+              <input
+                type="text"
+                value={competitorDraft}
+                onChange={e => setCompetitorDraft(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    addCompetitors();
+                  }
+                }}
+                onBlur={addCompetitors}
+                placeholder="Add competitors (comma-separated)"
+                className="focus-ring w-full rounded-xl border border-[rgb(var(--c-ink)/0.12)] bg-[rgb(var(--c-surface)/0.55)] px-3 py-2 text-sm placeholder:text-[rgb(var(--c-muted))]"
+                aria-label="Add competitors"
+              />
+              {competitors.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {competitors.map(c => (
+                    <span
+                      key={c}
+                      className="inline-flex items-center gap-1 rounded-full border border-[rgb(var(--c-ink)/0.12)] bg-[rgb(var(--c-surface)/0.55)] pl-3 pr-1.5 py-1 text-xs font-semibold"
+                    >
+                      {c}
+                      <button
+                        onClick={() => onSetCompetitors(competitors.filter(x => x !== c))}
+                        className="focus-ring text-[rgb(var(--c-muted))] hover:text-[rgb(var(--c-fg))] rounded-full"
+                        aria-label={`Remove ${c}`}
+                        title="Remove"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="mb-6">
+              <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-3 flex items-center gap-2">
+                <Bell size={12} /> Watchlist
+              </h2>
+              {watchlist.length === 0 ? (
+                <p className="text-xs text-[rgb(var(--c-muted))] leading-relaxed">
+                  Use the bell on a domain card to re-check it in the background and get an alert when it changes.
+                </p>
+              ) : (
+                <ul className="flex flex-col gap-2">
+                  {watchlist.map(entry => (
+                    <li
+                      key={entry.domain}
+                      title={describeHistory(entry)}
+                      className="flex items-center gap-2 rounded-xl border border-[rgb(var(--c-ink)/0.12)] bg-[rgb(var(--c-surface)/0.55)] px-3 py-2"
+                    >
+                      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_DOT[entry.lastStatus] ?? 'bg-slate-300'}`} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold font-mono truncate">{entry.unicodeDomain}</p>
+                        <p className="text-[11px] text-[rgb(var(--c-muted))] truncate">
+                          {entry.lastStatus}
+                          {entry.expiresAt ? ` · expires ${new Date(entry.expiresAt).toLocaleDateString()}` : ''}
+                          {` · ${entry.history.length} check${entry.history.length !== 1 ? 's' : ''}`}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => onUnwatch(entry.domain)}
+                        className="focus-ring text-[rgb(var(--c-muted))] hover:text-[rgb(var(--c-fg))] rounded-lg"
+                        aria-label={`Stop watching ${entry.unicodeDomain}`}
+                        title="Stop watching"
+                      >
+                        <X size={14} />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,44 @@
+import React from 'react';
+import { BellRing, X } from 'lucide-react';
+import { WatchAlert } from '../types';
+
+interface WatchAlertsProps {
+  alerts: WatchAlert[];
+  onDismiss: (id: string) => void;
+}
+
+// Status changes of watched domains, stacked in the top-right corner until dismissed.
+export const WatchAlerts: React.FC<WatchAlertsProps> = ({ alerts, onDismiss }) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="fixed top-4 right-4 z-50 flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]" role="status" aria-live="polite">
+      {alerts.map(alert => {
+        const dropped = alert.to === 'available';
+        return (
+          <div
+            key={alert.id}
+            className={`rounded-2xl border p-3 shadow-soft flex items-start gap-3 surface
+              ${dropped ? 'border-emerald-200/70 dark:border-emerald-800/40' : 'border-slate-200/70 dark:border-slate-800/70'}`}
+          >
+            <BellRing size={16} className={`mt-0.5 flex-shrink-0 ${dropped ? 'text-emerald-600 dark:text-emerald-300' : 'text-slate-500'}`} />
+            <div className="flex-1 min-w-0 text-sm">
+              <p className="font-semibold font-mono truncate">{alert.unicodeDomain}</p>
+              <p className="text-xs text-[rgb(var(--c-muted))]">
+                {dropped ? 'Dropped: it looks available now' : 'Was available, now taken'} ·{' '}
+                {new Date(alert.at).toLocaleTimeString()}
+              </p>
+            </div>
+            <button
+              onClick={() => onDismiss(alert.id)}
+              className="focus-ring text-[rgb(var(--c-muted))] hover:text-[rgb(var(--c-fg))] rounded-lg"
+              aria-label="Dismiss alert"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
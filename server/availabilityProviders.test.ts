@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { combineDnsSignals, createDnsProvider, createRdapProvider, RdapBootstrap } from './availabilityProviders';
+
+const bootstrap: RdapBootstrap = { services: [[['com', 'net'], ['http://rdap.example/v1', 'https://rdap.example/v1/']]] };
+
+type DohAnswer = { Status: number; Answer?: Array<{ type: number; data: string }> };
+const NXDOMAIN: DohAnswer = { Status: 3 };
+const SERVFAIL: DohAnswer = { Status: 2 };
+
+// Fake network: the IANA bootstrap, one RDAP server and a DoH resolver, answering per URL.
+const fakeNetwork = (opts: {
+  bootstrap?: RdapBootstrap | null;
+  rdap?: Record<string, { status: number; body?: unknown }>;
+  doh?: (name: string, type: string) => DohAnswer;
+}) =>
+  vi.fn(async (input: string, _init?: RequestInit) => {
+    const url = new URL(input);
+    if (url.hostname === 'data.iana.org') {
+      return opts.bootstrap ? Response.json(opts.bootstrap) : new Response('unavailable', { status: 503 });
+    }
+    if (url.hostname === 'rdap.example') {
+      const domain = decodeURIComponent(url.pathname.replace('/v1/domain/', ''));
+      const answer = opts.rdap?.[domain] ?? { status: 404 };
+      return Response.json(answer.body ?? { errorCode: answer.status }, { status: answer.status });
+    }
+    if (url.hostname === 'dns.google') {
+      const answer = opts.doh?.(url.searchParams.get('name')!, url.searchParams.get('type')!) ?? SERVFAIL;
+      return Response.json(answer);
+    }
+    throw new Error(`Unexpected request: ${input}`);
+  });
+
+describe('createRdapProvider', () => {
+  it('reads 404 as available and a domain object as taken, with its nameservers', async () => {
+    const fetchImpl = fakeNetwork({
+      bootstrap,
+      rdap: {
+        'taken.com': {
+          status: 200,
+          body: { objectClassName: 'domain', ldhName: 'TAKEN.COM', nameservers: [{ ldhName: 'NS1.Host.EXAMPLE.' }] }
+        }
+      }
+    });
+    const provider = createRdapProvider({ fetchImpl });
+
+    expect(await provider.lookup('free.com', '.com')).toEqual({
+      status: 'available',
+      confidence: 0.95,
+      signals: { source: 'rdap', rdap: 'not-found' }
+    });
+    expect(await provider.lookup('taken.com', '.com')).toEqual({
+      status: 'taken',
+      confidence: 0.99,
+      signals: { source: 'rdap', rdap: 'registered', nameservers: ['ns1.host.example'] }
+    });
+    // The bootstrap is downloaded once, and the https endpoint is preferred.
+    const urls = fetchImpl.mock.calls.map(([url]) => url);
+    expect(urls.filter(url => url.includes('data.iana.org'))).toHaveLength(1);
+    expect(urls).toContain('https://rdap.example/v1/domain/taken.com');
+  });
+
+  it('falls back to DNS for TLDs without an RDAP service', async () => {
+    const fetchImpl = fakeNetwork({ bootstrap, doh: () => NXDOMAIN });
+    const verdict = await createRdapProvider({ fetchImpl }).lookup('namer.zz', '.zz');
+
+    expect(verdict).toMatchObject({ status: 'available', confidence: 0.75, signals: { source: 'dns', rdap: 'unsupported' } });
+  });
+
+  it('lets DNS decide when the RDAP server fails, and reports unknown when DNS fails too', async () => {
+    const rdap = { 'busy.com': { status: 503 }, 'down.com': { status: 503 } };
+    const doh = (name: string, type: string): DohAnswer => {
+      if (name !== 'busy.com') return SERVFAIL;
+      return type === 'NS' ? { Status: 0, Answer: [{ type: 2, data: 'ns1.parking.example.' }] } : NXDOMAIN;
+    };
+    const provider = createRdapProvider({ fetchImpl: fakeNetwork({ bootstrap, rdap, doh }) });
+
+    expect(await provider.lookup('busy.com', '.com')).toMatchObject({
+      status: 'taken',
+      confidence: 0.97,
+      signals: { source: 'dns', rdap: 'error', nameservers: ['ns1.parking.example'] }
+    });
+    expect(await provider.lookup('down.com', '.com')).toMatchObject({
+      status: 'unknown',
+      confidence: 0,
+      signals: { source: 'dns', rdap: 'error' }
+    });
+  });
+
+  it('falls back while the bootstrap is unavailable and retries it on the next lookup', async () => {
+    const network = { bootstrap: null as RdapBootstrap | null, doh: () => NXDOMAIN };
+    const fetchImpl = fakeNetwork(network);
+    const provider = createRdapProvider({ fetchImpl });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await provider.lookup('free.com', '.com')).toMatchObject({ status: 'available', signals: { source: 'dns', rdap: 'error' } });
+    network.bootstrap = bootstrap;
+    expect(await provider.lookup('free.com', '.com')).toMatchObject({ status: 'available', signals: { source: 'rdap' } });
+  });
+});
+
+describe('createDnsProvider', () => {
+  it('combines the record types into a verdict', async () => {
+    const doh = (name: string, type: string): DohAnswer => {
+      if (name === 'mail.com') return type === 'MX' ? { Status: 0, Answer: [{ type: 15, data: '10 mx.mail.com.' }] } : { Status: 0 };
+      return NXDOMAIN;
+    };
+    const provider = createDnsProvider({ fetchImpl: fakeNetwork({ doh }) });
+
+    expect(await provider.lookup('mail.com', '.com')).toMatchObject({ status: 'taken', confidence: 0.9 });
+    expect(await provider.lookup('free.com', '.com')).toMatchObject({ status: 'available', confidence: 0.75 });
+  });
+});
+
+describe('combineDnsSignals', () => {
+  it('rates a delegation above other records, and those above an empty answer', () => {
+    expect(combineDnsSignals({ NS: 'records', A: 'nxdomain' })).toMatchObject({ status: 'taken', confidence: 0.97 });
+    expect(combineDnsSignals({ SOA: 'records' })).toMatchObject({ status: 'taken', confidence: 0.97 });
+    expect(combineDnsSignals({ NS: 'nxdomain', AAAA: 'records' })).toMatchObject({ status: 'taken', confidence: 0.9 });
+    expect(combineDnsSignals({ NS: 'nodata', A: 'nxdomain' })).toMatchObject({ status: 'taken', confidence: 0.6 });
+  });
+
+  it('never rates NXDOMAIN answers as solid, and grows with agreeing answers', () => {
+    expect(combineDnsSignals({ NS: 'nxdomain' }).confidence).toBe(0.55);
+    expect(combineDnsSignals({ NS: 'nxdomain', SOA: 'nxdomain', A: 'error' }).confidence).toBe(0.6);
+    expect(combineDnsSignals({ NS: 'nxdomain', SOA: 'nxdomain', A: 'nxdomain', AAAA: 'nxdomain', MX: 'nxdomain' })).toEqual({
+      status: 'available',
+      confidence: 0.75,
+      signals: { source: 'dns', dns: { NS: 'nxdomain', SOA: 'nxdomain', A: 'nxdomain', AAAA: 'nxdomain', MX: 'nxdomain' } }
+    });
+  });
+
+  it('reports unknown when every query failed', () => {
+    expect(combineDnsSignals({ NS: 'error', A: 'error' })).toMatchObject({ status: 'unknown', confidence: 0 });
+    expect(combineDnsSignals({})).toMatchObject({ status: 'unknown', confidence: 0 });
+  });
+});
@@ -0,0 +1,318 @@
+import { AvailabilitySignals, DnsRecordType, DnsSignal, DomainCheckResult } from '../types';
+
+// Providers only answer registered / not registered; 'invalid' comes from the registry rules.
+export type AvailabilityStatus = Exclude<DomainCheckResult['status'], 'invalid'>;
+
+export type AvailabilityVerdict = {
+  status: AvailabilityStatus;
+  confidence: number;
+  signals: AvailabilitySignals;
+};
+
+/**
+ * A source of truth for "is this domain registered?".
+ * `domain` is the fully-qualified, already normalized name (e.g. "namer.ai") and
+ * `tld` is its extension with a leading dot (e.g. ".ai").
+ */
+export interface DomainAvailabilityProvider {
+  name: string;
+  // Implementations should pass `signal` to their requests so timeouts cancel them.
+  lookup: (domain: string, tld: string, opts?: { signal?: AbortSignal }) => Promise<AvailabilityVerdict>;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export type DnsProviderOptions = {
+  // DNS-over-HTTPS JSON endpoint (Google-compatible `?name=&type=` API).
+  resolverUrl?: string;
+  fetchImpl?: FetchLike;
+};
+
+const DNS_RECORD_TYPES: DnsRecordType[] = ['NS', 'SOA', 'A', 'AAAA', 'MX'];
+
+const DEFAULT_DOH_RESOLVER_URL = 'https://dns.google/resolve';
+
+// RR type codes in DoH JSON answers.
+const DNS_TYPE_CODES: Record<DnsRecordType, number> = { A: 1, NS: 2, SOA: 6, MX: 15, AAAA: 28 };
+
+// "NS1.Example.COM." -> "ns1.example.com"
+const normalizeHostName = (value: unknown): string => String(value || '').trim().toLowerCase().replace(/\.$/, '');
+
+const queryDns = async (
+  fetchImpl: FetchLike,
+  resolverUrl: string,
+  domain: string,
+  type: DnsRecordType,
+  signal?: AbortSignal
+): Promise<{ signal: DnsSignal; records: string[] }> => {
+  try {
+    const response = await fetchImpl(`${resolverUrl}?name=${encodeURIComponent(domain)}&type=${type}`, { signal });
+    const data: any = await response.json();
+
+    // Status 3 = NXDOMAIN (Non-Existent Domain), Status 0 = NOERROR
+    if (data?.Status === 3) return { signal: 'nxdomain', records: [] };
+    if (data?.Status !== 0) return { signal: 'error', records: [] };
+    const answers: any[] = Array.isArray(data?.Answer) ? data.Answer : [];
+    // CNAME chains can show up in the answer section; keep only the requested type's data.
+    const records = answers
+      .filter(a => a?.type === DNS_TYPE_CODES[type])
+      .map(a => normalizeHostName(a?.data))
+      .filter(Boolean);
+    return { signal: answers.length > 0 ? 'records' : 'nodata', records };
+  } catch {
+    return { signal: 'error', records: [] };
+  }
+};
+
+/**
+ * Combines per-record-type DNS answers into a single verdict.
+ *
+ * - NS/SOA records: the name is delegated, so it is registered (strongest DNS signal).
+ * - A/AAAA/MX records without a delegation: still registered (parked, MX-only, wildcard hosting).
+ * - NOERROR with no data: the name exists in the zone in some form; probably registered.
+ * - NXDOMAIN everywhere: probably available, but DNS cannot see registered names that
+ *   were never delegated, so this never reaches "solid" confidence on its own.
+ */
+export const combineDnsSignals = (dns: Partial<Record<DnsRecordType, DnsSignal>>): AvailabilityVerdict => {
+  const signals: AvailabilitySignals = { source: 'dns', dns };
+  const answered = DNS_RECORD_TYPES.filter(t => dns[t] && dns[t] !== 'error');
+
+  if (answered.length === 0) return { status: 'unknown', confidence: 0, signals };
+
+  if (dns.NS === 'records' || dns.SOA === 'records') {
+    return { status: 'taken', confidence: 0.97, signals };
+  }
+  if (dns.A === 'records' || dns.AAAA === 'records' || dns.MX === 'records') {
+    return { status: 'taken', confidence: 0.9, signals };
+  }
+  if (answered.some(t => dns[t] === 'nodata')) {
+    return { status: 'taken', confidence: 0.6, signals };
+  }
+
+  // Every answered query was NXDOMAIN; more agreeing answers -> a bit more confidence.
+  return { status: 'available', confidence: Math.min(0.75, 0.5 + 0.05 * answered.length), signals };
+};
+
+/**
+ * Heuristic provider based on Google's DNS-over-HTTPS API. It queries NS, SOA, A, AAAA
+ * and MX for the name and combines the answers with `combineDnsSignals`.
+ *
+ * Used as the fallback for TLDs without an RDAP service.
+ */
+export const createDnsProvider = (opts: DnsProviderOptions = {}): DomainAvailabilityProvider => {
+  const resolverUrl = opts.resolverUrl || DEFAULT_DOH_RESOLVER_URL;
+  const fetchImpl: FetchLike = opts.fetchImpl || ((input, init) => fetch(input, init));
+
+  return {
+    name: 'dns',
+    lookup: async (domain: string, _tld: string, lookupOpts?: { signal?: AbortSignal }) => {
+      const answers = await Promise.all(
+        DNS_RECORD_TYPES.map(type => queryDns(fetchImpl, resolverUrl, domain, type, lookupOpts?.signal))
+      );
+      const dns: Partial<Record<DnsRecordType, DnsSignal>> = {};
+      DNS_RECORD_TYPES.forEach((type, i) => {
+        dns[type] = answers[i].signal;
+      });
+      const verdict = combineDnsSignals(dns);
+      const nameservers = answers[DNS_RECORD_TYPES.indexOf('NS')].records;
+      return nameservers.length > 0 ? { ...verdict, signals: { ...verdict.signals, nameservers } } : verdict;
+    }
+  };
+};
+
+/**
+ * NS records of `domain` through DNS-over-HTTPS (empty when there are none or the query
+ * fails). Used to look for parking services when the provider did not report nameservers.
+ */
+export const lookupNameservers = async (
+  domain: string,
+  opts: DnsProviderOptions & { signal?: AbortSignal } = {}
+): Promise<string[]> => {
+  const fetchImpl: FetchLike = opts.fetchImpl || ((input, init) => fetch(input, init));
+  const answer = await queryDns(fetchImpl, opts.resolverUrl || DEFAULT_DOH_RESOLVER_URL, domain, 'NS', opts.signal);
+  return answer.records;
+};
+
+// Shape of https://data.iana.org/rdap/dns.json (RFC 9224).
+export type RdapBootstrap = {
+  services: Array<[string[], string[]]>;
+};
+
+export type RdapProviderOptions = {
+  // IANA bootstrap registry. Point this at a local server to use a fake RDAP setup in tests.
+  bootstrapUrl?: string;
+  // Pre-loaded bootstrap data; skips the bootstrap fetch entirely when provided.
+  bootstrap?: RdapBootstrap;
+  // Used for TLDs that have no RDAP service (and when the bootstrap can't be loaded).
+  fallback?: DomainAvailabilityProvider;
+  fetchImpl?: FetchLike;
+  // Reuse an existing client (and its bootstrap cache); the options above are then ignored
+  // except `fallback`.
+  client?: RdapClient;
+};
+
+export const DEFAULT_RDAP_BOOTSTRAP_URL = 'https://data.iana.org/rdap/dns.json';
+
+const indexRdapBootstrap = (bootstrap: RdapBootstrap | null | undefined): Map<string, string> => {
+  const byTld = new Map<string, string>();
+  for (const entry of bootstrap?.services || []) {
+    const [tlds, urls] = Array.isArray(entry) ? entry : [[], []];
+    // Prefer https endpoints; the registry usually lists them first anyway.
+    const url = (urls || []).find(u => /^https:/i.test(u)) || (urls || [])[0];
+    if (!url) continue;
+    const base = url.endsWith('/') ? url : `${url}/`;
+    for (const tld of tlds || []) {
+      const key = String(tld || '').trim().toLowerCase().replace(/^\./, '');
+      if (key && !byTld.has(key)) byTld.set(key, base);
+    }
+  }
+  return byTld;
+};
+
+export type RdapClientOptions = Pick<RdapProviderOptions, 'bootstrapUrl' | 'bootstrap' | 'fetchImpl'>;
+
+/**
+ * Finds each TLD's RDAP server through the IANA bootstrap registry and fetches domain
+ * objects from it. Shared by the availability provider and the registration details lookup.
+ */
+export interface RdapClient {
+  // Base URL (with trailing slash) of the TLD's RDAP service, or null when it has none.
+  // Rejects when the bootstrap registry cannot be loaded.
+  serverFor: (tld: string) => Promise<string | null>;
+  fetchDomain: (server: string, domain: string, signal?: AbortSignal) => Promise<Response>;
+}
+
+export const createRdapClient = (opts: RdapClientOptions = {}): RdapClient => {
+  const bootstrapUrl = opts.bootstrapUrl || DEFAULT_RDAP_BOOTSTRAP_URL;
+  const fetchImpl: FetchLike = opts.fetchImpl || ((input, init) => fetch(input, init));
+
+  // Loaded lazily, once per client. A failed load is not cached so the next lookup can
+  // try again.
+  let serversPromise: Promise<Map<string, string>> | null = opts.bootstrap
+    ? Promise.resolve(indexRdapBootstrap(opts.bootstrap))
+    : null;
+
+  const loadServers = (): Promise<Map<string, string>> => {
+    if (!serversPromise) {
+      serversPromise = (async () => {
+        const res = await fetchImpl(bootstrapUrl, { headers: { Accept: 'application/json' } });
+        if (!res.ok) throw new Error(`RDAP bootstrap request failed (${res.status})`);
+        return indexRdapBootstrap(await res.json());
+      })().catch(err => {
+        serversPromise = null;
+        throw err;
+      });
+    }
+    return serversPromise;
+  };
+
+  return {
+    serverFor: async (tld: string) => {
+      const servers = await loadServers();
+      return servers.get(String(tld || '').toLowerCase().replace(/^\./, '')) ?? null;
+    },
+    fetchDomain: (server: string, domain: string, signal?: AbortSignal) =>
+      fetchImpl(`${server}domain/${encodeURIComponent(domain)}`, {
+        headers: { Accept: 'application/rdap+json, application/json' },
+        signal
+      })
+  };
+};
+
+// "NS1.Example.COM." -> "ns1.example.com"; used for RDAP `ldhName`s too.
+export const rdapNameservers = (data: any): string[] =>
+  (Array.isArray(data?.nameservers) ? data.nameservers : [])
+    .map((ns: any) => normalizeHostName(ns?.ldhName))
+    .filter(Boolean);
+
+/**
+ * RDAP provider: resolves each TLD's RDAP server through the IANA bootstrap registry,
+ * then asks it for the domain object.
+ *
+ * - 404 -> no such registration (Available).
+ * - 200 with a domain object -> registered (Taken).
+ * - Anything else (429, 5xx, odd bodies) -> the DNS fallback decides.
+ */
+export const createRdapProvider = (opts: RdapProviderOptions = {}): DomainAvailabilityProvider => {
+  const client = opts.client ?? createRdapClient(opts);
+  const fallback = opts.fallback ?? createDnsProvider({ fetchImpl: opts.fetchImpl });
+
+  const fallbackWith = async (
+    domain: string,
+    tld: string,
+    rdap: NonNullable<AvailabilitySignals['rdap']>,
+    signal?: AbortSignal
+  ): Promise<AvailabilityVerdict> => {
+    const verdict = await fallback.lookup(domain, tld, { signal });
+    return { ...verdict, signals: { ...verdict.signals, rdap } };
+  };
+
+  return {
+    name: 'rdap',
+    lookup: async (domain: string, tld: string, lookupOpts?: { signal?: AbortSignal }) => {
+      const signal = lookupOpts?.signal;
+      let server: string | null;
+      try {
+        server = await client.serverFor(tld);
+      } catch (error) {
+        console.error('RDAP bootstrap unavailable, falling back:', error);
+        return fallbackWith(domain, tld, 'error', signal);
+      }
+      if (!server) return fallbackWith(domain, tld, 'unsupported', signal);
+
+      const res = await client.fetchDomain(server, domain, signal);
+
+      if (res.status === 404) {
+        return { status: 'available', confidence: 0.95, signals: { source: 'rdap', rdap: 'not-found' } };
+      }
+      if (res.ok) {
+        const data: any = await res.json().catch(() => null);
+        if (data?.objectClassName === 'domain' || data?.ldhName) {
+          const nameservers = rdapNameservers(data);
+          return {
+            status: 'taken',
+            confidence: 0.99,
+            signals: { source: 'rdap', rdap: 'registered', ...(nameservers.length > 0 ? { nameservers } : {}) }
+          };
+        }
+      }
+      // Rate limited, server error or an unexpected body: let DNS have a say instead.
+      return fallbackWith(domain, tld, 'error', signal);
+    }
+  };
+};
+
+export type AvailabilityProviderConfig = 'rdap' | 'dns' | DomainAvailabilityProvider;
+
+const sharedProviders = new Map<string, DomainAvailabilityProvider>();
+const sharedRdapClients = new Map<string, RdapClient>();
+
+// One RDAP client per bootstrap URL, so the bootstrap is only downloaded once per process.
+export const resolveRdapClient = (bootstrapUrl?: string): RdapClient => {
+  const key = bootstrapUrl || DEFAULT_RDAP_BOOTSTRAP_URL;
+  let client = sharedRdapClients.get(key);
+  if (!client) {
+    client = createRdapClient({ bootstrapUrl: key });
+    sharedRdapClients.set(key, client);
+  }
+  return client;
+};
+
+/**
+ * Resolves a provider from configuration. Named providers are shared per process so the
+ * RDAP bootstrap is only downloaded once.
+ */
+export const resolveAvailabilityProvider = (
+  config: AvailabilityProviderConfig = 'rdap',
+  opts: { rdapBootstrapUrl?: string } = {}
+): DomainAvailabilityProvider => {
+  if (typeof config === 'object' && config) return config;
+  const kind = config === 'dns' ? 'dns' : 'rdap';
+  const key = kind === 'rdap' ? `rdap:${opts.rdapBootstrapUrl || DEFAULT_RDAP_BOOTSTRAP_URL}` : 'dns';
+  let provider = sharedProviders.get(key);
+  if (!provider) {
+    provider = kind === 'dns' ? createDnsProvider() : createRdapProvider({ client: resolveRdapClient(opts.rdapBootstrapUrl) });
+    sharedProviders.set(key, provider);
+  }
+  return provider;
+};
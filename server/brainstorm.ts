@@ -0,0 +1,387 @@
+import { ApiErrorCode, BrainstormJob, DomainCheckResult, FieldError, Message, NameCandidate, Role, TokenUsage } from '../types';
+import { withSimilarBrands } from '../services/brandSimilarity';
+import { normalizeTld } from '../services/domainNames';
+import { SYSTEM_INSTRUCTION } from '../services/systemInstruction';
+import { checkDomainsOnServer, StreamingResponse } from './domainCheck';
+import { LLMProviderError } from './llmProviders';
+import { chatGuardFromEnv, checkChatPayloadLimits } from './chatGuard';
+import { llmProviderFromEnv } from './mistralChat';
+import { NameCandidateValidation, requestNameCandidates } from './nameCandidates';
+import { invalidRequest, validateCompetitorList, validateMessages } from './requestValidation';
+import { defaultToolRegistry } from './tools';
+import { parseNiceClassList } from './trademarks';
+import { resolveBudgetUsd } from './usagePricing';
+import { addUsage } from '../services/usage';
+
+// Skip available domains whose base name screens as a high trademark risk...
+const DROP_HIGH_TRADEMARK_RISK = true;
+// ...and names that look like a famous brand or one of the user's competitors.
+const DROP_BRAND_LOOKALIKES = true;
+
+const DEFAULT_BRAINSTORM_TLDS = ['.com', '.io', '.ai'];
+// Minimum target when the brief does not ask for a number.
+const DEFAULT_TARGET_COUNT = 3;
+const MAX_REQUESTED_COUNT = 50;
+// Finished runs stay readable (GET /api/brainstorm?id=...) this long.
+const FINISHED_JOB_TTL_MS = 10 * 60_000;
+
+export type BrainstormRequest = {
+  // Conversation so far, ending with the brief.
+  messages: Message[];
+  brief: string;
+  // TLDs every candidate is checked with, unless `forcedTlds` is set.
+  tlds: string[];
+  // When set, every check uses exactly these TLDs.
+  forcedTlds: string[] | null;
+  // An explicit count is a hard cap; otherwise the run aims for at least 3 and keeps extras.
+  count: number | null;
+  competitors: string[];
+  niceClasses?: number[];
+  // Cost cap for the run's model calls (the lower of the request's and LLM_BUDGET_USD).
+  budgetUsd?: number;
+};
+
+// What the loop needs from the outside world; the server wires these to the local endpoints.
+export type BrainstormDeps = {
+  generateCandidates: (messages: Message[], systemInstruction: string) => Promise<NameCandidateValidation>;
+  checkDomains: (names: string[], tlds: string[], onResult: (result: DomainCheckResult) => void) => Promise<DomainCheckResult[]>;
+  now?: () => number;
+};
+
+export type BrainstormProgress = Pick<
+  BrainstormJob,
+  'available' | 'target' | 'tlds' | 'checkedNames' | 'modelCalls' | 'usage' | 'budgetExceeded'
+>;
+
+export type BrainstormOutcome = BrainstormProgress & { text: string };
+
+const normalizeTldList = (value: any): string[] => {
+  if (!Array.isArray(value)) return [];
+  const out: string[] = [];
+  for (const raw of value) {
+    const tld = normalizeTld(String(raw));
+    if (tld && !out.includes(tld)) out.push(tld);
+  }
+  return out;
+};
+
+export const parseBrainstormRequest = (
+  body: any,
+  env: Record<string, string | undefined> = process.env
+): BrainstormRequest | { status?: number; error: string; code?: ApiErrorCode; fields?: FieldError[] } => {
+  const { brief, history, tlds, forcedTlds, count, competitors, niceClasses, budgetUsd } = body || {};
+  const text = String(brief ?? '').trim();
+  if (!text) return { error: 'No brief provided' };
+  // Same caps as a chat turn: the brief is the latest message, after the history.
+  const tooLarge = checkChatPayloadLimits({ messages: [...(Array.isArray(history) ? history : []), { text }] }, chatGuardFromEnv(env));
+  if (tooLarge) return { status: tooLarge.status, ...tooLarge.json };
+  const checkedHistory = validateMessages(history ?? undefined, 'history');
+  const checkedCompetitors = validateCompetitorList(competitors);
+  const errors = [...checkedHistory.errors, ...checkedCompetitors.errors];
+  if (errors.length > 0) {
+    const { status, ...body } = invalidRequest(errors);
+    return body;
+  }
+
+  const requestedCount = count == null ? null : Math.floor(Number(count));
+  if (requestedCount != null && !(requestedCount >= 1 && requestedCount <= MAX_REQUESTED_COUNT)) {
+    return { error: `count must be between 1 and ${MAX_REQUESTED_COUNT}` };
+  }
+  const selected = normalizeTldList(tlds);
+  const forced = normalizeTldList(forcedTlds);
+
+  return {
+    messages: [...defaultToolRegistry.sanitizeMessages(checkedHistory.value), { id: 'brief', role: Role.USER, text }],
+    brief: text,
+    tlds: selected.length > 0 ? selected : DEFAULT_BRAINSTORM_TLDS,
+    forcedTlds: forced.length > 0 ? forced : null,
+    count: requestedCount,
+    competitors: checkedCompetitors.value ?? [],
+    niceClasses: parseNiceClassList(niceClasses),
+    budgetUsd: resolveBudgetUsd(budgetUsd, env)
+  };
+};
+
+const isProbablyFrench = (text: string): boolean => {
+  const t = String(text || '').toLowerCase();
+  return /\b(je|mon|ma|mes|une|un|des|domaine|nom|disponibilit[ée]|v[ée]rifi(?:er|cation)|temps\s*r[ée]el)\b/i.test(t);
+};
+
+const clamp = (n: number, min: number, max: number) => Math.max(min, Math.min(max, n));
+
+/**
+ * The brainstorm loop: asks the model for a batch of candidates (structured output), checks
+ * them, and repeats until enough available domains are found, a safety limit is hit or the
+ * model calls cost the run's budget. Kept domains carry the candidate's rationale, style and origin.
+ */
+export const runBrainstorm = async (
+  request: BrainstormRequest,
+  deps: BrainstormDeps,
+  onProgress?: (progress: BrainstormProgress) => void
+): Promise<BrainstormOutcome> => {
+  const now = deps.now ?? Date.now;
+  const { forcedTlds, competitors } = request;
+  const hardAvailableCap = request.count;
+  const targetAvailableCount = hardAvailableCap ?? DEFAULT_TARGET_COUNT;
+  const defaultTlds = forcedTlds ?? request.tlds;
+  // .ai is crowded: ask for more candidates per call and allow more time.
+  const rareTld = Boolean(forcedTlds?.includes('.ai'));
+  const MIN_CANDIDATES_PER_CALL = rareTld ? 20 : 10;
+  const MAX_CANDIDATES_PER_CALL = rareTld ? 40 : 25;
+  // Keep trying until enough domains are found, within a safety cap in case DNS/LLM/network is down.
+  const MAX_WALL_TIME_MS = rareTld ? 35_000 : 25_000;
+  const MAX_MODEL_CALLS = Math.max(14, Math.min(90, targetAvailableCount * 12));
+
+  const checkedBaseNames = new Set<string>();
+  const availableDomains = new Map<string, DomainCheckResult>();
+  let modelCallCount = 0;
+  let usage: TokenUsage | undefined;
+  let budgetExceeded = false;
+
+  const progress = (): BrainstormProgress => ({
+    available: Array.from(availableDomains.values()),
+    target: targetAvailableCount,
+    tlds: defaultTlds,
+    checkedNames: checkedBaseNames.size,
+    modelCalls: modelCallCount,
+    ...(usage ? { usage } : {}),
+    ...(budgetExceeded ? { budgetExceeded } : {})
+  });
+
+  const recordResult = (r: DomainCheckResult) => {
+    if (r?.status !== 'available' || !r?.domain) return;
+    // Names that clearly collide with a live trademark never make the final list.
+    if (DROP_HIGH_TRADEMARK_RISK && r.trademark?.risk === 'high') return;
+    if (DROP_BRAND_LOOKALIKES && r.similarBrands && r.similarBrands.length > 0) return;
+    if (hardAvailableCap != null && availableDomains.size >= hardAvailableCap) return;
+    if (availableDomains.has(r.domain)) return;
+    availableDomains.set(r.domain, r);
+    onProgress?.(progress());
+  };
+
+  const desiredBatchSize = (remaining: number) => {
+    // Ask for more candidates when aiming for a minimum, fewer when the count is exact.
+    const multiplier = hardAvailableCap != null ? (rareTld ? 6 : 3) : (rareTld ? 10 : 6);
+    return clamp(Math.ceil(Math.max(MIN_CANDIDATES_PER_CALL, remaining * multiplier)), MIN_CANDIDATES_PER_CALL, MAX_CANDIDATES_PER_CALL);
+  };
+
+  const buildDynamicInstruction = () => {
+    const parts: string[] = [SYSTEM_INSTRUCTION];
+    // The model only proposes names here; the server checks them and builds the final answer.
+    parts.push(
+      '\nIn this step you do NOT call tools and do NOT write an answer: reply with the JSON object only. The server checks every name you return.'
+    );
+    if (hardAvailableCap != null) {
+      parts.push(`\nHard requirement: we need EXACTLY ${hardAvailableCap} AVAILABLE domains total.`);
+    } else {
+      parts.push(`\nRequirement: we need AT LEAST ${targetAvailableCount} AVAILABLE domains total.`);
+    }
+    if (forcedTlds) {
+      parts.push(`\nTLD constraint: names will be checked with these TLDs only: ${forcedTlds.join(', ')}.`);
+    }
+    if (competitors.length > 0) {
+      parts.push(`\nCompetitors: ${competitors.join(', ')}. Do not propose names that look or sound like them.`);
+    }
+
+    const desiredBatch = desiredBatchSize(Math.max(0, targetAvailableCount - availableDomains.size));
+    parts.push(
+      `\nPropose ${desiredBatch} NEW, unique base names (no TLDs). For each one give a one-sentence rationale, its style and its language of origin.`
+    );
+
+    if (availableDomains.size > 0) {
+      const domains = Array.from(availableDomains.keys()).slice(0, 25);
+      parts.push(`\nAlready found available (do not repeat): ${domains.join(', ')}`);
+    }
+    if (checkedBaseNames.size > 0) {
+      const names = Array.from(checkedBaseNames.values()).slice(0, 40);
+      parts.push(`\nAvoid these already checked base names: ${names.join(', ')}`);
+    }
+    return parts.join('\n');
+  };
+
+  const startTs = now();
+  while (
+    availableDomains.size < targetAvailableCount &&
+    modelCallCount < MAX_MODEL_CALLS &&
+    !budgetExceeded &&
+    now() - startTs < MAX_WALL_TIME_MS
+  ) {
+    // Each batch is generated from the brief alone; the instruction carries what was tried.
+    const batch = await deps.generateCandidates(request.messages, buildDynamicInstruction());
+    const { candidates } = batch;
+    // A batch can take two calls (schema repair round); without a usage report, count one.
+    modelCallCount += batch.usage?.calls ?? 1;
+    usage = addUsage(usage, batch.usage);
+    // The batch is paid for, so its names are still checked before the loop stops.
+    budgetExceeded = request.budgetUsd != null && (usage?.costUsd ?? 0) >= request.budgetUsd;
+
+    const byName = new Map<string, NameCandidate>();
+    for (const candidate of candidates) {
+      if (!checkedBaseNames.has(candidate.name)) byName.set(candidate.name, candidate);
+    }
+    for (const name of byName.keys()) checkedBaseNames.add(name);
+    if (byName.size > 0) {
+      await deps.checkDomains(Array.from(byName.keys()), defaultTlds, r =>
+        recordResult(byName.has(r.baseName) ? { ...r, candidate: byName.get(r.baseName) } : r)
+      );
+    }
+    onProgress?.(progress());
+  }
+
+  const finalList = Array.from(availableDomains.values());
+  const french = isProbablyFrench(request.brief);
+  const tldNote = forcedTlds ? (french ? ` (en ${forcedTlds.join(', ')})` : ` (${forcedTlds.join(', ')} only)`) : '';
+  const header = french
+    ? `Voici ${finalList.length} nom${finalList.length > 1 ? 's' : ''} de domaine disponible${finalList.length > 1 ? 's' : ''}${tldNote} :`
+    : `Here are ${finalList.length} available domain${finalList.length !== 1 ? 's' : ''}${tldNote}:`;
+  const footer = finalList.length < targetAvailableCount
+    ? (french
+        ? `\n\nJe n'ai pas réussi à trouver ${targetAvailableCount} domaines disponibles avec ces contraintes. Essaie un brief plus large (mots-clés, style) ou autorise d'autres extensions.`
+        : `\n\nI couldn't reach ${targetAvailableCount} available domains with the current constraints. Try broadening the brief or allowing more TLDs.`)
+    : '';
+  const budgetNote = budgetExceeded
+    ? (french
+        ? `\n\nRecherche arrêtée : le budget de $${request.budgetUsd} pour les appels au modèle est atteint.`
+        : `\n\nStopped early: the $${request.budgetUsd} budget for model calls was reached.`)
+    : '';
+  const seconds = Math.round((now() - startTs) / 1000);
+  const text = finalList.length > 0
+    ? `${header}\n${finalList.map(r => `- ${r.unicodeDomain || r.domain}`).join('\n')}${footer}`
+    : (french
+        ? `Je n'ai pas trouvé de domaine disponible dans la limite de sécurité (${modelCallCount}/${MAX_MODEL_CALLS} appels, ~${seconds}s). Soit on augmente la limite, soit on change la stratégie (noms plus inventés/courts), soit on autorise d'autres extensions.`
+        : `I couldn't find an available domain within the safety limit (${modelCallCount}/${MAX_MODEL_CALLS} calls, ~${seconds}s). We can increase the limit, generate more invented/shorter names, or allow more TLDs.`);
+
+  return { ...progress(), text: text + budgetNote };
+};
+
+/** Wires the loop to this server's LLM provider and domain checks (no HTTP round trips). */
+export const brainstormDepsFromEnv = (
+  request: BrainstormRequest,
+  env: Record<string, string | undefined> = process.env
+): BrainstormDeps => ({
+  generateCandidates: async (messages, systemInstruction) => {
+    const { provider, error } = llmProviderFromEnv(env);
+    if (!provider) throw new Error(`Server configuration error: ${error}`);
+    return requestNameCandidates(provider, { messages, systemInstruction });
+  },
+  checkDomains: async (names, tlds, onResult) => {
+    const checked = await checkDomainsOnServer(names, tlds, env, {
+      niceClasses: request.niceClasses,
+      onResult: result => onResult(withSimilarBrands(result, request.competitors))
+    });
+    return checked.map(r => withSimilarBrands(r, request.competitors));
+  }
+});
+
+type JobEntry = { job: BrainstormJob; listeners: Set<(job: BrainstormJob) => void>; finished: Promise<BrainstormJob> };
+
+// Runs live in this process, so a reloaded page can pick its run up again by id. Nothing
+// is shared between processes: polling and resuming only work when the same long-lived
+// server handles every request (the dev server, or a single Node instance). On serverless
+// or multi-instance deployments a poll may reach another instance and get a 404, and a run
+// can stop with the request that started it.
+const brainstormJobs = new Map<string, JobEntry>();
+
+const pruneFinishedJobs = (now: number) => {
+  for (const [id, entry] of brainstormJobs) {
+    if (entry.job.finishedAt && now - Date.parse(entry.job.finishedAt) > FINISHED_JOB_TTL_MS) brainstormJobs.delete(id);
+  }
+};
+
+/** Starts a run in the background; `listeners` are called with every new snapshot. */
+const startBrainstormJob = (request: BrainstormRequest, deps: BrainstormDeps): JobEntry => {
+  pruneFinishedJobs(Date.now());
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  const entry = {
+    job: {
+      id,
+      status: 'running',
+      available: [],
+      target: request.count ?? DEFAULT_TARGET_COUNT,
+      tlds: request.forcedTlds ?? request.tlds,
+      checkedNames: 0,
+      modelCalls: 0,
+      startedAt: new Date().toISOString()
+    },
+    listeners: new Set()
+  } as JobEntry;
+  const update = (patch: Partial<BrainstormJob>) => {
+    entry.job = { ...entry.job, ...patch };
+    for (const listener of entry.listeners) listener(entry.job);
+  };
+
+  entry.finished = runBrainstorm(request, deps, update)
+    .then(outcome => update({ ...outcome, status: 'done', finishedAt: new Date().toISOString() }))
+    .catch((error: any) =>
+      update({
+        status: 'error',
+        error: error?.message || 'Brainstorm failed',
+        ...(error instanceof LLMProviderError ? { errorCode: error.code, retryAfterMs: error.retryAfterMs } : {}),
+        finishedAt: new Date().toISOString()
+      })
+    )
+    .then(() => entry.job);
+  brainstormJobs.set(id, entry);
+  return entry;
+};
+
+/**
+ * `POST /api/brainstorm` with `{ brief, history?, tlds?, forcedTlds?, count?, competitors?, niceClasses?, budgetUsd? }`:
+ * runs the whole loop and answers with the finished `BrainstormJob`.
+ */
+export const buildBrainstormResponse = async (
+  body: any,
+  env: Record<string, string | undefined> = process.env
+): Promise<{ status: number; json: BrainstormJob | { error: string } }> => {
+  const request = parseBrainstormRequest(body, env);
+  if ('error' in request) {
+    const { status = 400, ...json } = request;
+    return { status, json };
+  }
+
+  const job = await startBrainstormJob(request, brainstormDepsFromEnv(request, env)).finished;
+  return { status: job.status === 'error' ? 502 : 200, json: job };
+};
+
+/**
+ * `GET /api/brainstorm?id=...`: the latest snapshot of a run (for polling). Only runs of
+ * this process are known (see `brainstormJobs`).
+ */
+export const buildBrainstormStatusResponse = (
+  id: string | null | undefined
+): { status: number; json: BrainstormJob | { error: string } } => {
+  const entry = id ? brainstormJobs.get(id) : undefined;
+  if (!entry) return { status: 404, json: { error: 'Unknown brainstorm run (expired, or started by another server instance)' } };
+  return { status: 200, json: entry.job };
+};
+
+/**
+ * Streaming variant of `POST /api/brainstorm` (request body `stream: true`): writes one
+ * `BrainstormJob` snapshot per line (NDJSON) as the run progresses; the last one is final.
+ * The run keeps going if the client disconnects, and can be polled by id.
+ */
+export const writeBrainstormStream = async (
+  body: any,
+  env: Record<string, string | undefined>,
+  res: StreamingResponse
+): Promise<void> => {
+  const request = parseBrainstormRequest(body, env);
+  if ('error' in request) {
+    const { status = 400, ...json } = request;
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(json));
+    return;
+  }
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+  const entry = startBrainstormJob(request, brainstormDepsFromEnv(request, env));
+  const write = (job: BrainstormJob) => res.write(`${JSON.stringify(job)}\n`);
+  write(entry.job);
+  entry.listeners.add(write);
+  await entry.finished;
+  entry.listeners.delete(write);
+  res.end();
+};
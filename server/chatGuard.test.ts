@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+
+import { admitChatRequest, brainstormGuardFromEnv, chatGuardFromEnv, clientRequestInfo, lookupGuardFromEnv } from './chatGuard';
+import { createMemoryRateLimitStore } from './rateLimit';
+
+const request = (headers: Record<string, string>, remoteAddress = '10.0.0.1') => ({ headers, socket: { remoteAddress } });
+
+describe('clientRequestInfo', () => {
+  it('ignores X-Forwarded-For without a trusted proxy', () => {
+    const req = request({ 'x-forwarded-for': '1.2.3.4', 'x-real-ip': '5.6.7.8' });
+    expect(clientRequestInfo(req).ip).toBe('10.0.0.1');
+  });
+
+  it('takes the entry appended by the trusted proxy', () => {
+    const req = request({ 'x-forwarded-for': 'spoofed, 203.0.113.9' });
+    expect(clientRequestInfo(req, { trustedProxyHops: 1 }).ip).toBe('203.0.113.9');
+    expect(clientRequestInfo(req, { trustedProxyHops: 2 }).ip).toBe('spoofed');
+  });
+
+  it('reads CHAT_TRUSTED_PROXY', () => {
+    expect(chatGuardFromEnv({}).trustedProxyHops).toBe(0);
+    expect(chatGuardFromEnv({ CHAT_TRUSTED_PROXY: 'true' }).trustedProxyHops).toBe(1);
+    expect(chatGuardFromEnv({ CHAT_TRUSTED_PROXY: '2' }).trustedProxyHops).toBe(2);
+  });
+});
+
+describe('admitChatRequest', () => {
+  it('does not give a spoofed X-Forwarded-For a fresh bucket', async () => {
+    const config = chatGuardFromEnv({ CHAT_RATE_LIMIT_PER_MINUTE: '2' });
+    const store = createMemoryRateLimitStore();
+    const statuses: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      const info = clientRequestInfo(request({ 'x-forwarded-for': `198.51.100.${i}` }), config);
+      statuses.push((await admitChatRequest(info, config, { store, now: 0 }))?.status ?? 200);
+    }
+    expect(statuses).toEqual([200, 200, 429]);
+  });
+
+  it('keeps the per-IP bucket when the session id changes', async () => {
+    const config = chatGuardFromEnv({ CHAT_RATE_LIMIT_PER_MINUTE: '1', CHAT_RATE_LIMIT_KEY: 'session', CHAT_RATE_LIMIT_IP_PER_MINUTE: '3' });
+    const store = createMemoryRateLimitStore();
+    const statuses: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      const rejection = await admitChatRequest({ ip: '10.0.0.1', sessionId: `s${i}` }, config, { store, now: 0 });
+      statuses.push(rejection?.status ?? 200);
+    }
+    expect(statuses).toEqual([200, 200, 200, 429]);
+  });
+
+  it('limits each session within the IP allowance', async () => {
+    const config = chatGuardFromEnv({ CHAT_RATE_LIMIT_PER_MINUTE: '1', CHAT_RATE_LIMIT_KEY: 'session' });
+    const store = createMemoryRateLimitStore();
+    expect(await admitChatRequest({ ip: '10.0.0.1', sessionId: 'a' }, config, { store, now: 0 })).toBeNull();
+    const rejection = await admitChatRequest({ ip: '10.0.0.1', sessionId: 'a' }, config, { store, now: 0 });
+    expect(rejection?.status).toBe(429);
+    expect(rejection?.headers?.['Retry-After']).toBe('60');
+  });
+
+  it('does not spend IP tokens on requests a session bucket refuses', async () => {
+    const config = chatGuardFromEnv({ CHAT_RATE_LIMIT_PER_MINUTE: '1', CHAT_RATE_LIMIT_KEY: 'session', CHAT_RATE_LIMIT_IP_PER_MINUTE: '2' });
+    const store = createMemoryRateLimitStore();
+    expect(await admitChatRequest({ ip: '10.0.0.1', sessionId: 'a' }, config, { store, now: 0 })).toBeNull();
+    for (let i = 0; i < 5; i++) {
+      expect((await admitChatRequest({ ip: '10.0.0.1', sessionId: 'a' }, config, { store, now: 0 }))?.status).toBe(429);
+    }
+    expect(await admitChatRequest({ ip: '10.0.0.1', sessionId: 'b' }, config, { store, now: 0 })).toBeNull();
+  });
+
+  it('gives brainstorm runs their own, stricter bucket', async () => {
+    const env = { BRAINSTORM_RATE_LIMIT_PER_MINUTE: '1' };
+    const store = createMemoryRateLimitStore();
+    const info = { ip: '10.0.0.1' };
+    expect(await admitChatRequest(info, brainstormGuardFromEnv(env), { store, now: 0 })).toBeNull();
+    expect((await admitChatRequest(info, brainstormGuardFromEnv(env), { store, now: 0 }))?.status).toBe(429);
+    expect(await admitChatRequest(info, chatGuardFromEnv(env), { store, now: 0 })).toBeNull();
+  });
+
+  it('guards the lookup endpoints with their own bucket and the chat origin list', async () => {
+    const env = { LOOKUP_RATE_LIMIT_PER_MINUTE: '2', CHAT_ALLOWED_ORIGINS: 'https://app.example' };
+    const store = createMemoryRateLimitStore();
+    const info = { ip: '10.0.0.1', origin: 'https://app.example' };
+    expect(await admitChatRequest(info, lookupGuardFromEnv(env), { store, now: 0 })).toBeNull();
+    expect(await admitChatRequest(info, lookupGuardFromEnv(env), { store, now: 0 })).toBeNull();
+    expect((await admitChatRequest(info, lookupGuardFromEnv(env), { store, now: 0 }))?.status).toBe(429);
+    expect(await admitChatRequest(info, chatGuardFromEnv(env), { store, now: 0 })).toBeNull();
+    const foreign = { ip: '10.0.0.2', origin: 'https://evil.example' };
+    expect((await admitChatRequest(foreign, lookupGuardFromEnv(env), { store, now: 0 }))?.status).toBe(403);
+  });
+});
@@ -0,0 +1,215 @@
+import { ApiErrorCode } from '../types';
+import { sanitizeEnvValue } from './env';
+import { createMemoryRateLimitStore, RateLimitBucket, RateLimitStore, TokenBucketPolicy } from './rateLimit';
+
+// Abuse protection for `/api/chat`, `/api/brainstorm` and the lookup endpoints (domain checks,
+// registration details, handle checks): who may call them, how often, and how big a request may be.
+export type ChatGuardConfig = {
+  scope: 'chat' | 'brainstorm' | 'lookup'; // endpoints keep separate buckets
+  rateLimit: TokenBucketPolicy | null; // null: no rate limit
+  // `session` adds a bucket per `X-Session-Id` header on top of the per-IP bucket. The header
+  // is chosen by the client, so the IP bucket always applies.
+  rateLimitKey: 'ip' | 'session';
+  // The per-IP bucket: `rateLimit` in `ip` mode, a wider one in `session` mode (shared NATs).
+  ipRateLimit: TokenBucketPolicy | null;
+  // Proxies in front of the server that append to X-Forwarded-For; 0 trusts no header.
+  trustedProxyHops: number;
+  maxBodyBytes: number;
+  maxMessages: number;
+  maxTextLength: number; // per message text, and for the system instruction
+  allowedOrigins: string[]; // empty: any origin
+};
+
+export const SESSION_HEADER = 'x-session-id';
+
+const DEFAULT_REQUESTS_PER_MINUTE = 20;
+// Session mode: several sessions may share an IP.
+const SESSION_MODE_IP_FACTOR = 5;
+const DEFAULT_MAX_BODY_BYTES = 1_000_000;
+const DEFAULT_MAX_MESSAGES = 100;
+const DEFAULT_MAX_TEXT_LENGTH = 12_000;
+// A brainstorm run makes many model calls and domain checks.
+const DEFAULT_BRAINSTORM_RUNS_PER_MINUTE = 3;
+// A check in the app is a few requests (domain chunks, handles), plus one per opened card.
+const DEFAULT_LOOKUPS_PER_MINUTE = 60;
+
+const readCount = (value: string | undefined, fallback: number): number => {
+  const raw = sanitizeEnvValue(value);
+  const n = Number(raw);
+  return raw && Number.isFinite(n) && n >= 0 ? Math.floor(n) : fallback;
+};
+
+/**
+ * Guard settings for the server:
+ * - CHAT_RATE_LIMIT_PER_MINUTE (default 20, 0 disables) and CHAT_RATE_LIMIT_BURST (default: the per-minute rate)
+ * - CHAT_RATE_LIMIT_KEY: `ip` (default) or `session`; CHAT_RATE_LIMIT_IP_PER_MINUTE for the per-IP
+ *   bucket in session mode (default: 5x the per-minute rate)
+ * - CHAT_TRUSTED_PROXY: `true` or the number of proxies in front of the server; only then is the
+ *   client IP read from X-Forwarded-For (default: the socket address)
+ * - CHAT_MAX_BODY_BYTES (default 1000000), CHAT_MAX_MESSAGES (default 100), CHAT_MAX_TEXT_LENGTH (default 12000)
+ * - CHAT_ALLOWED_ORIGINS: comma-separated origins allowed to call the API from a browser (default: any)
+ */
+export const chatGuardFromEnv = (env: Record<string, string | undefined> = process.env): ChatGuardConfig => {
+  const perMinute = readCount(env.CHAT_RATE_LIMIT_PER_MINUTE, DEFAULT_REQUESTS_PER_MINUTE);
+  const rateLimit =
+    perMinute > 0
+      ? { capacity: Math.max(1, readCount(env.CHAT_RATE_LIMIT_BURST, perMinute)), refillPerSecond: perMinute / 60 }
+      : null;
+  const rateLimitKey = sanitizeEnvValue(env.CHAT_RATE_LIMIT_KEY)?.toLowerCase() === 'session' ? 'session' : 'ip';
+  const ipPerMinute = readCount(env.CHAT_RATE_LIMIT_IP_PER_MINUTE, perMinute * SESSION_MODE_IP_FACTOR);
+  const trustedProxy = String(sanitizeEnvValue(env.CHAT_TRUSTED_PROXY) || '').toLowerCase();
+  return {
+    scope: 'chat',
+    rateLimit,
+    rateLimitKey,
+    ipRateLimit:
+      rateLimitKey === 'session' && rateLimit
+        ? ipPerMinute > 0
+          ? { capacity: Math.max(rateLimit.capacity, ipPerMinute), refillPerSecond: ipPerMinute / 60 }
+          : null
+        : rateLimit,
+    trustedProxyHops: trustedProxy === 'true' ? 1 : readCount(trustedProxy, 0),
+    maxBodyBytes: readCount(env.CHAT_MAX_BODY_BYTES, DEFAULT_MAX_BODY_BYTES),
+    maxMessages: readCount(env.CHAT_MAX_MESSAGES, DEFAULT_MAX_MESSAGES),
+    maxTextLength: readCount(env.CHAT_MAX_TEXT_LENGTH, DEFAULT_MAX_TEXT_LENGTH),
+    allowedOrigins: String(sanitizeEnvValue(env.CHAT_ALLOWED_ORIGINS) || '')
+      .split(',')
+      .map(o => o.trim().replace(/\/+$/, '').toLowerCase())
+      .filter(Boolean)
+  };
+};
+
+/**
+ * Guard for starting brainstorm runs: the chat settings (origins, body size, trusted proxy),
+ * with a stricter per-IP bucket from BRAINSTORM_RATE_LIMIT_PER_MINUTE (default 3, 0 disables).
+ */
+export const brainstormGuardFromEnv = (env: Record<string, string | undefined> = process.env): ChatGuardConfig => {
+  const perMinute = readCount(env.BRAINSTORM_RATE_LIMIT_PER_MINUTE, DEFAULT_BRAINSTORM_RUNS_PER_MINUTE);
+  const rateLimit = perMinute > 0 ? { capacity: perMinute, refillPerSecond: perMinute / 60 } : null;
+  return { ...chatGuardFromEnv(env), scope: 'brainstorm', rateLimit, rateLimitKey: 'ip', ipRateLimit: rateLimit };
+};
+
+/**
+ * Guard for `/api/domains/check`, `/api/domains/details` and `/api/handles/check`, which fan
+ * out to registries and platform APIs: the chat settings, with one per-IP bucket shared by the
+ * three from LOOKUP_RATE_LIMIT_PER_MINUTE (default 60, 0 disables).
+ */
+export const lookupGuardFromEnv = (env: Record<string, string | undefined> = process.env): ChatGuardConfig => {
+  const perMinute = readCount(env.LOOKUP_RATE_LIMIT_PER_MINUTE, DEFAULT_LOOKUPS_PER_MINUTE);
+  const rateLimit = perMinute > 0 ? { capacity: perMinute, refillPerSecond: perMinute / 60 } : null;
+  return { ...chatGuardFromEnv(env), scope: 'lookup', rateLimit, rateLimitKey: 'ip', ipRateLimit: rateLimit };
+};
+
+// What the guard needs to know about the caller, from the request headers.
+export type ClientRequestInfo = {
+  ip: string;
+  sessionId?: string;
+  origin?: string;
+  contentLength?: number;
+};
+
+const header = (req: any, name: string): string | undefined => {
+  const value = req?.headers?.[name];
+  return (Array.isArray(value) ? value[0] : value) || undefined;
+};
+
+/**
+ * Works with Node's IncomingMessage (Vite) and Vercel's request. Without trusted proxies the
+ * client IP is the socket address: X-Forwarded-For is written by the client and would give it
+ * a fresh bucket per request. With `trustedProxyHops` proxies, it is the entry the outermost
+ * one appended (the client's own entries come before it).
+ */
+export const clientRequestInfo = (req: any, opts: { trustedProxyHops?: number } = {}): ClientRequestInfo => {
+  const hops = opts.trustedProxyHops ?? 0;
+  const chain = (header(req, 'x-forwarded-for') || '').split(',').map(e => e.trim()).filter(Boolean);
+  const forwarded = hops > 0 ? chain[Math.max(0, chain.length - hops)] || header(req, 'x-real-ip') : undefined;
+  const length = Number(header(req, 'content-length'));
+  return {
+    ip: forwarded || req?.socket?.remoteAddress || 'unknown',
+    sessionId: header(req, SESSION_HEADER)?.slice(0, 100),
+    origin: header(req, 'origin'),
+    contentLength: Number.isFinite(length) && length >= 0 ? length : undefined
+  };
+};
+
+export type ChatRejection = {
+  status: number;
+  json: { error: string; code: ApiErrorCode; retryAfterMs?: number };
+  headers?: Record<string, string>;
+};
+
+/** Thrown by body readers that stop at `maxBodyBytes`. */
+export class PayloadTooLargeError extends Error {
+  status = 413;
+
+  constructor(limit: number) {
+    super(`Request body is larger than ${limit} bytes`);
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+export const payloadTooLarge = (error: string): ChatRejection => ({ status: 413, json: { error, code: 'payload_too_large' } });
+
+// Buckets of this process; pass another store to `admitChatRequest` to share them.
+const sharedChatRateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Checks that run before the body is read: the origin allowlist (403), the declared body
+ * size (413) and the caller's rate limit (429, with `Retry-After`). Null when admitted.
+ */
+export const admitChatRequest = async (
+  info: ClientRequestInfo,
+  config: ChatGuardConfig,
+  opts: { store?: RateLimitStore; now?: number } = {}
+): Promise<ChatRejection | null> => {
+  // Browsers always send Origin on POST; other clients are not affected by the allowlist.
+  const origin = info.origin?.replace(/\/+$/, '').toLowerCase();
+  if (origin && config.allowedOrigins.length > 0 && !config.allowedOrigins.includes(origin)) {
+    return { status: 403, json: { error: `Origin ${info.origin} is not allowed`, code: 'origin_not_allowed' } };
+  }
+  if (info.contentLength != null && info.contentLength > config.maxBodyBytes) {
+    return payloadTooLarge(`Request body is larger than ${config.maxBodyBytes} bytes`);
+  }
+  const store = opts.store ?? sharedChatRateLimitStore;
+  const now = opts.now ?? Date.now();
+  const buckets: RateLimitBucket[] = [
+    { key: `${config.scope}:ip:${info.ip}`, policy: config.ipRateLimit },
+    {
+      key: `${config.scope}:session:${info.sessionId}`,
+      policy: config.rateLimitKey === 'session' && info.sessionId ? config.rateLimit : null
+    }
+  ].filter(b => b.policy);
+  if (buckets.length > 0) {
+    const decision = await store.consume(buckets, now);
+    if (!decision.allowed) return tooManyRequests(decision.retryAfterMs);
+  }
+  return null;
+};
+
+const tooManyRequests = (retryAfterMs: number): ChatRejection => {
+  const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return {
+    status: 429,
+    json: { error: `Too many requests; try again in ${seconds}s.`, code: 'too_many_requests', retryAfterMs },
+    headers: { 'Retry-After': String(seconds) }
+  };
+};
+
+/**
+ * Message count and text length caps (413), checked once the body is parsed. The app
+ * trims long conversations before sending (`trimChatHistory`), so only other clients hit them.
+ */
+export const checkChatPayloadLimits = (body: any, config: ChatGuardConfig): ChatRejection | null => {
+  const messages = Array.isArray(body?.messages) ? body.messages : [];
+  if (messages.length > config.maxMessages) {
+    return payloadTooLarge(`Too many messages (${messages.length}); the limit is ${config.maxMessages}`);
+  }
+  const tooLong = messages.findIndex((m: any) => String(m?.text ?? '').length > config.maxTextLength);
+  if (tooLong >= 0) {
+    return payloadTooLarge(`messages[${tooLong}].text is longer than ${config.maxTextLength} characters`);
+  }
+  if (String(body?.systemInstruction ?? '').length > config.maxTextLength) {
+    return payloadTooLarge(`systemInstruction is longer than ${config.maxTextLength} characters`);
+  }
+  return null;
+};
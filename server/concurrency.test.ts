@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { backoffDelay, mapWithConcurrency, TimeoutError, withRetry, withTimeout } from './concurrency';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps at most `limit` calls in flight and the results in input order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async (ms, i) => {
+      inFlight += 1;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      inFlight -= 1;
+      return `${i}:${ms}`;
+    });
+
+    expect(peak).toBe(2);
+    expect(results).toEqual(['0:30', '1:10', '2:20', '3:0', '4:5']);
+  });
+
+  it('handles empty input and treats a bad limit as 1', async () => {
+    expect(await mapWithConcurrency([], 4, async x => x)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async x => x * 2)).toEqual([2, 4]);
+  });
+});
+
+describe('withTimeout', () => {
+  it('aborts the signal and rejects with a TimeoutError when the call is too slow', async () => {
+    let signal: AbortSignal | undefined;
+    const slow = withTimeout(s => {
+      signal = s;
+      return new Promise(() => undefined);
+    }, 20);
+
+    await expect(slow).rejects.toBeInstanceOf(TimeoutError);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('returns the result of a call that finishes in time', async () => {
+    expect(await withTimeout(async () => 'ok', 1000)).toBe('ok');
+  });
+});
+
+describe('withRetry', () => {
+  it('retries failures up to `retries` extra attempts', async () => {
+    const fn = vi.fn(async (attempt: number) => {
+      if (attempt < 2) throw new Error(`attempt ${attempt}`);
+      return 'done';
+    });
+    expect(await withRetry(fn, { retries: 2, baseDelayMs: 1 })).toBe('done');
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    const failing = vi.fn(async () => {
+      throw new Error('down');
+    });
+    await expect(withRetry(failing, { retries: 1, baseDelayMs: 1 })).rejects.toThrow('down');
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops when shouldRetry refuses and waits the delay the upstream asked for', async () => {
+    const refused = vi.fn(async () => {
+      throw new Error('bad request');
+    });
+    await expect(withRetry(refused, { retries: 3, shouldRetry: () => false })).rejects.toThrow('bad request');
+    expect(refused).toHaveBeenCalledTimes(1);
+
+    const onRetry = vi.fn();
+    let calls = 0;
+    await withRetry(
+      async () => {
+        if (calls++ === 0) throw new Error('rate limited');
+        return 'ok';
+      },
+      { retries: 1, retryDelay: () => 5, onRetry }
+    );
+    expect(onRetry).toHaveBeenCalledWith(expect.any(Error), 0, 5);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('draws a full-jitter delay under an exponential, capped ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect([0, 1, 2, 3, 4, 5].map(attempt => backoffDelay(attempt))).toEqual([250, 500, 1000, 2000, 4000, 4000]);
+    expect(backoffDelay(2, { baseDelayMs: 100, maxDelayMs: 300 })).toBe(300);
+  });
+});
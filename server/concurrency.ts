@@ -0,0 +1,164 @@
+// Small async helpers for fan-out work against rate-limited upstreams.
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason ?? new Error('Aborted'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, Math.max(0, ms));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error('Aborted'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight.
+ * Results keep the order of `items`.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  const size = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let next = 0;
+
+  const runWorker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: size }, runWorker));
+  return results;
+};
+
+export class TimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Gives `fn` an AbortSignal that fires after `ms`. The returned promise rejects with a
+ * TimeoutError even if `fn` ignores the signal.
+ */
+export const withTimeout = async <T>(fn: (signal: AbortSignal) => Promise<T>, ms: number): Promise<T> => {
+  if (!(ms > 0)) return fn(new AbortController().signal);
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const err = new TimeoutError(ms);
+      controller.abort(err);
+      reject(err);
+    }, ms);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export type RetryOptions = {
+  retries?: number; // extra attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  // Delay the upstream asked for (e.g. Retry-After); used instead of the backoff when set.
+  retryDelay?: (error: unknown, attempt: number) => number | undefined;
+  // Called before each wait, e.g. to tell the user a retry is coming.
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+};
+
+// "Full jitter" exponential backoff: a random delay in [0, min(max, base * 2^attempt)].
+export const backoffDelay = (attempt: number, opts: RetryOptions = {}): number => {
+  const base = opts.baseDelayMs ?? 250;
+  const max = opts.maxDelayMs ?? 4000;
+  const ceiling = Math.min(max, base * 2 ** Math.max(0, attempt));
+  return Math.round(Math.random() * ceiling);
+};
+
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, opts: RetryOptions = {}): Promise<T> => {
+  const retries = Math.max(0, opts.retries ?? 2);
+  let attempt = 0;
+  for (;;) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || (opts.shouldRetry && !opts.shouldRetry(error, attempt))) throw error;
+      const delay = opts.retryDelay?.(error, attempt) ?? backoffDelay(attempt, opts);
+      opts.onRetry?.(error, attempt, delay);
+      await sleep(delay);
+      attempt += 1;
+    }
+  }
+};
+
+export type CircuitBreakerOptions = {
+  // Consecutive failures that open the circuit.
+  failureThreshold?: number;
+  // How long an open circuit rejects calls before letting one trial call through.
+  cooldownMs?: number;
+  now?: () => number;
+};
+
+export type CircuitBreaker = {
+  state: () => 'closed' | 'open' | 'half-open';
+  // 0 when a call may go ahead, otherwise how long until the next trial call.
+  blockedForMs: () => number;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+};
+
+/**
+ * Fails fast while an upstream keeps failing: after `failureThreshold` consecutive failures
+ * calls are refused for `cooldownMs`, then a single trial call decides whether the circuit
+ * closes again or stays open for another cooldown.
+ */
+export const createCircuitBreaker = (opts: CircuitBreakerOptions = {}): CircuitBreaker => {
+  const threshold = Math.max(1, opts.failureThreshold ?? 5);
+  const cooldownMs = Math.max(0, opts.cooldownMs ?? 30_000);
+  const now = opts.now ?? Date.now;
+  let failures = 0;
+  let openedAt: number | null = null;
+  // Start of the current half-open trial; a trial that never reports back expires after a cooldown.
+  let trialStartedAt: number | null = null;
+
+  const state = () => {
+    if (openedAt == null) return 'closed' as const;
+    return now() - openedAt >= cooldownMs ? ('half-open' as const) : ('open' as const);
+  };
+
+  return {
+    state,
+    blockedForMs: () => {
+      const current = state();
+      if (current === 'closed') return 0;
+      if (current === 'open') return cooldownMs - (now() - openedAt!);
+      // Half-open: one trial call at a time; the others wait for its outcome.
+      if (trialStartedAt != null && now() - trialStartedAt < cooldownMs) return 1000;
+      trialStartedAt = now();
+      return 0;
+    },
+    recordSuccess: () => {
+      failures = 0;
+      openedAt = null;
+      trialStartedAt = null;
+    },
+    recordFailure: () => {
+      failures += 1;
+      if (trialStartedAt != null || failures >= threshold) openedAt = now();
+      trialStartedAt = null;
+    }
+  };
+};
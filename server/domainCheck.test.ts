@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { domainCheckResult } from '../services/fixtures/domainCheckResults';
+import { createAvailabilityCache } from '../services/availabilityCache';
+import { DomainAvailabilityProvider } from './availabilityProviders';
+import { checkMultipleDomains, serverAvailabilityCache, StreamingResponse, writeDomainCheckStream } from './domainCheck';
+
+// Screening fails for "broken", so a stream can fail after its first line.
+vi.mock('./trademarks', async importOriginal => ({
+  ...(await importOriginal<typeof import('./trademarks')>()),
+  trademarkIndexFromEnv: async () => ({
+    size: 1,
+    screen: (name: string) => {
+      if (name === 'broken') throw new Error('Trademark index is corrupt');
+      return { risk: 'none', hits: [] };
+    }
+  })
+}));
+
+const recordingResponse = () => {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    ended: false,
+    setHeader: (name: string, value: string) => {
+      if (res.body) throw new Error('Headers already sent');
+      res.headers[name] = value;
+    },
+    write: (chunk: string) => {
+      res.body += chunk;
+    },
+    end: (chunk = '') => {
+      res.body += chunk;
+      res.ended = true;
+    }
+  };
+  return res satisfies StreamingResponse;
+};
+
+afterEach(() => {
+  serverAvailabilityCache.clear();
+});
+
+describe('writeDomainCheckStream', () => {
+  it('ends a stream that fails midway with an error line', async () => {
+    const checkedAt = new Date().toISOString();
+    serverAvailabilityCache.setMany([domainCheckResult('fine.com', { checkedAt }), domainCheckResult('broken.com', { checkedAt })]);
+    const res = recordingResponse();
+
+    await writeDomainCheckStream({ names: ['fine', 'broken'], tlds: ['.com'] }, {}, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['Content-Type']).toBe('application/x-ndjson');
+    expect(res.ended).toBe(true);
+    const lines = res.body.trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.domain ?? line.error)).toEqual(['fine.com', 'Trademark index is corrupt']);
+  });
+
+  it('answers invalid requests with a JSON error and status', async () => {
+    const res = recordingResponse();
+    await writeDomainCheckStream({ names: [], tlds: ['.com'] }, {}, res);
+    expect(res.statusCode).toBe(400);
+    expect(JSON.parse(res.body)).toEqual({ error: 'No names provided' });
+  });
+});
+
+describe('checkMultipleDomains', () => {
+  const countingProvider = () => {
+    const lookups: string[] = [];
+    const provider: DomainAvailabilityProvider = {
+      name: 'fake',
+      lookup: async domain => {
+        lookups.push(domain);
+        return { status: 'available', confidence: 0.95, signals: { source: 'rdap', rdap: 'not-found' } };
+      }
+    };
+    return { provider, lookups };
+  };
+
+  it('serves fresh results from the cache and looks them up again with force', async () => {
+    const cache = createAvailabilityCache();
+    const { provider, lookups } = countingProvider();
+
+    await checkMultipleDomains(['namer'], ['.com', '.io'], { provider, cache });
+    await checkMultipleDomains(['namer'], ['.com', '.io'], { provider, cache });
+    expect(lookups).toEqual(['namer.com', 'namer.io']);
+
+    const rechecked = await checkMultipleDomains(['namer'], ['.com'], { provider, cache, force: true });
+    expect(lookups).toEqual(['namer.com', 'namer.io', 'namer.com']);
+    expect(cache.get('namer.com')?.checkedAt).toBe(rechecked[0].checkedAt);
+  });
+});
@@ -0,0 +1,355 @@
+import { DomainCheckResult, TrademarkScreening } from '../types';
+import { AvailabilityCache, createAvailabilityCache } from '../services/availabilityCache';
+import { MAX_DOMAIN_CHECK_PAIRS, normalizeBaseName, normalizeDomainCheckInput, normalizeTld } from '../services/domainNames';
+import { domainToUnicode } from '../services/punycode';
+import { validateRegistrablePair } from '../services/registryRules';
+import {
+  AvailabilityProviderConfig,
+  AvailabilityVerdict,
+  lookupNameservers,
+  resolveAvailabilityProvider
+} from './availabilityProviders';
+import { backoffDelay, mapWithConcurrency, sleep, withRetry, withTimeout } from './concurrency';
+import { sanitizeEnvValue } from './env';
+import { matchParkingService } from './parkingNameservers';
+import { niceClassesFromEnv, parseNiceClassList, trademarkIndexFromEnv } from './trademarks';
+
+export { MAX_DOMAIN_CHECK_PAIRS };
+
+export type DomainCheckOptions = {
+  // 'rdap' (default), 'dns', or a custom provider instance (e.g. a fake RDAP setup in tests).
+  provider?: AvailabilityProviderConfig;
+  // Fresh results are served from (and new results written to) this cache.
+  cache?: AvailabilityCache;
+  // Skip cache reads (results are still written back).
+  force?: boolean;
+  // Domains (ASCII form) the caller already has, e.g. from the browser cache: not checked
+  // and not returned.
+  skip?: Set<string>;
+  // Max lookups in flight for one batch.
+  concurrency?: number;
+  // Per-attempt timeout; the provider's requests are aborted when it fires.
+  timeoutMs?: number;
+  // Extra attempts (jittered exponential backoff) when a lookup throws or times out.
+  retries?: number;
+  // Called as soon as each result is known (cache hits first), in completion order.
+  onResult?: (result: DomainCheckResult) => void;
+  // NS lookup for taken names whose provider did not report nameservers (parking
+  // detection). Defaults to DNS-over-HTTPS.
+  nameserverLookup?: (domain: string, opts: { signal?: AbortSignal }) => Promise<string[]>;
+};
+
+export const DEFAULT_DOMAIN_CHECK_CONCURRENCY = 16;
+export const DEFAULT_DOMAIN_CHECK_TIMEOUT_MS = 5000;
+export const DEFAULT_DOMAIN_CHECK_RETRIES = 2;
+
+// Process-wide cache shared by every request this server instance handles.
+export const serverAvailabilityCache = createAvailabilityCache({ maxEntries: 20_000 });
+
+// Fills in `signals.nameservers` for a taken name when the provider did not report them.
+// Best effort: a failed or slow NS query leaves the verdict as it was.
+const withNameservers = async (
+  domain: string,
+  verdict: AvailabilityVerdict,
+  options: DomainCheckOptions
+): Promise<AvailabilityVerdict> => {
+  if (verdict.signals.nameservers?.length) return verdict;
+  const lookup = options.nameserverLookup ?? ((name, opts) => lookupNameservers(name, opts));
+  try {
+    const nameservers = await withTimeout(
+      signal => lookup(domain, { signal }),
+      options.timeoutMs ?? DEFAULT_DOMAIN_CHECK_TIMEOUT_MS
+    );
+    return nameservers.length > 0 ? { ...verdict, signals: { ...verdict.signals, nameservers } } : verdict;
+  } catch {
+    return verdict;
+  }
+};
+
+/**
+ * Checks domain availability through the configured provider.
+ *
+ * The default RDAP provider asks the registry itself and only falls back to the
+ * DNS-over-HTTPS heuristic for TLDs that have no RDAP service.
+ *
+ * Pairs the registry would refuse (length, hyphens, restricted or second-level-only TLDs)
+ * come back as `invalid` with a reason, without any lookup.
+ *
+ * Taken names delegated to a known parking service or aftermarket marketplace are flagged
+ * `parked` / `forSale`.
+ *
+ * Each attempt is bounded by `timeoutMs`; thrown errors are retried with backoff, and an
+ * `unknown` verdict gets one more attempt before it is returned.
+ */
+export const checkDomainAvailability = async (
+  baseName: string,
+  tld: string,
+  options: DomainCheckOptions = {}
+): Promise<DomainCheckResult> => {
+  const cleanBase = normalizeBaseName(baseName) || String(baseName || '').toLowerCase();
+  const cleanTld = normalizeTld(tld) || String(tld || '').toLowerCase();
+  const domain = `${cleanBase}${cleanTld}`;
+  const unicodeDomain = domainToUnicode(domain);
+  const provider = resolveAvailabilityProvider(options.provider);
+
+  const invalidReason = validateRegistrablePair(cleanBase, cleanTld);
+  if (invalidReason) {
+    return {
+      domain,
+      unicodeDomain,
+      status: 'invalid',
+      tld: cleanTld,
+      baseName: cleanBase,
+      reason: invalidReason,
+      confidence: 1,
+      signals: { source: 'rules' },
+      checkedAt: new Date().toISOString()
+    };
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_DOMAIN_CHECK_TIMEOUT_MS;
+  const retryOpts = { retries: options.retries ?? DEFAULT_DOMAIN_CHECK_RETRIES };
+  const attempt = () =>
+    withRetry(() => withTimeout(signal => provider.lookup(domain, cleanTld, { signal }), timeoutMs), retryOpts);
+
+  try {
+    let verdict = await attempt();
+    if (verdict.status === 'unknown') {
+      await sleep(backoffDelay(1));
+      verdict = await attempt().catch(() => verdict);
+    }
+
+    if (verdict.status === 'taken') verdict = await withNameservers(domain, verdict, options);
+    const parking = verdict.status === 'taken' ? matchParkingService(verdict.signals.nameservers || []) : null;
+
+    return {
+      domain,
+      unicodeDomain,
+      status: verdict.status,
+      tld: cleanTld,
+      baseName: cleanBase,
+      ...(parking ? { parked: true, forSale: parking.forSale, parkingService: parking.name } : {}),
+      confidence: verdict.confidence,
+      signals: verdict.signals,
+      checkedAt: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error(`Error checking domain ${domain} (${provider.name}):`, error);
+    return {
+      domain,
+      unicodeDomain,
+      status: 'unknown',
+      tld: cleanTld,
+      baseName: cleanBase,
+      confidence: 0,
+      signals: { source: provider.name },
+      checkedAt: new Date().toISOString()
+    };
+  }
+};
+
+export const checkMultipleDomains = async (
+  baseNames: string[],
+  tlds: string[],
+  options: DomainCheckOptions = {}
+): Promise<DomainCheckResult[]> => {
+  const { names, tlds: exts } = normalizeDomainCheckInput(baseNames, tlds);
+  // Resolve once so every lookup in the batch shares the same provider (and its bootstrap cache).
+  const provider = resolveAvailabilityProvider(options.provider);
+
+  const cache = options.cache;
+  const fresh: DomainCheckResult[] = [];
+
+  const pairs: Array<[string, string]> = [];
+  for (const name of names) {
+    for (const tld of exts) if (!options.skip?.has(`${name}${tld}`)) pairs.push([name, tld]);
+  }
+
+  // Bounded pool: a large batch must not turn into hundreds of simultaneous upstream
+  // requests (which mostly come back throttled / unknown).
+  const results = await mapWithConcurrency(
+    pairs,
+    options.concurrency ?? DEFAULT_DOMAIN_CHECK_CONCURRENCY,
+    async ([name, tld]) => {
+      const cached = options.force ? null : cache?.get(`${name}${tld}`);
+      if (cached) {
+        options.onResult?.(cached);
+        return cached;
+      }
+      const result = await checkDomainAvailability(name, tld, { ...options, provider });
+      fresh.push(result);
+      options.onResult?.(result);
+      return result;
+    }
+  );
+  cache?.setMany(fresh);
+  return results;
+};
+
+const readPositiveInt = (value: string | undefined): number | undefined => {
+  const n = Number(sanitizeEnvValue(value));
+  return Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+};
+
+/**
+ * Lookup tuning for the server:
+ * - DOMAIN_CHECK_CONCURRENCY (default 16)
+ * - DOMAIN_CHECK_TIMEOUT_MS (default 5000)
+ * - DOMAIN_CHECK_RETRIES (default 2)
+ */
+export const domainCheckTuningFromEnv = (
+  env: Record<string, string | undefined> = process.env
+): Pick<DomainCheckOptions, 'concurrency' | 'timeoutMs' | 'retries'> => ({
+  concurrency: readPositiveInt(env.DOMAIN_CHECK_CONCURRENCY) || undefined,
+  timeoutMs: readPositiveInt(env.DOMAIN_CHECK_TIMEOUT_MS) || undefined,
+  retries: readPositiveInt(env.DOMAIN_CHECK_RETRIES)
+});
+
+/**
+ * Provider selection for the server:
+ * - DOMAIN_AVAILABILITY_PROVIDER: 'rdap' (default) or 'dns'
+ * - RDAP_BOOTSTRAP_URL: optional override of the IANA bootstrap registry
+ */
+export const availabilityProviderFromEnv = (env: Record<string, string | undefined> = process.env) => {
+  const kind = sanitizeEnvValue(env.DOMAIN_AVAILABILITY_PROVIDER)?.toLowerCase() === 'dns' ? 'dns' : 'rdap';
+  return resolveAvailabilityProvider(kind, { rdapBootstrapUrl: sanitizeEnvValue(env.RDAP_BOOTSTRAP_URL) });
+};
+
+type DomainCheckRequest = { names: string[]; tlds: string[]; skip: Set<string>; force: boolean; niceClasses?: number[] };
+
+const parseDomainCheckRequest = (body: any): DomainCheckRequest | { error: string } => {
+  const { names, tlds, skip, force, niceClasses } = body || {};
+  if (!Array.isArray(names) || names.length === 0) {
+    return { error: 'No names provided' };
+  }
+  if (!Array.isArray(tlds) || tlds.length === 0) {
+    return { error: 'No tlds provided' };
+  }
+
+  const normalized = normalizeDomainCheckInput(names.map(String), tlds.map(String));
+  const pairs = normalized.names.length * normalized.tlds.length;
+  if (pairs === 0) {
+    return { error: 'No valid name/TLD pairs to check' };
+  }
+  if (pairs > MAX_DOMAIN_CHECK_PAIRS) {
+    return { error: `Too many domains in one request (${pairs}, max ${MAX_DOMAIN_CHECK_PAIRS}).` };
+  }
+  if (skip != null && (!Array.isArray(skip) || skip.length > pairs)) {
+    return { error: 'skip must be a list of domains, at most one per pair' };
+  }
+  return {
+    ...normalized,
+    skip: new Set((skip ?? []).map((d: unknown) => String(d).trim().toLowerCase())),
+    force: force === true,
+    niceClasses: parseNiceClassList(niceClasses)
+  };
+};
+
+/**
+ * Checks the request's pairs and, when a trademark dataset is configured, attaches each
+ * base name's screening (computed once per name) to its results.
+ */
+const runDomainCheck = async (
+  request: DomainCheckRequest,
+  env: Record<string, string | undefined>,
+  onResult?: (result: DomainCheckResult) => void
+): Promise<DomainCheckResult[]> => {
+  const trademarks = await trademarkIndexFromEnv(env);
+  const niceClasses = request.niceClasses ?? niceClassesFromEnv(env);
+  const screenings = new Map<string, TrademarkScreening>();
+  const withTrademark = (result: DomainCheckResult): DomainCheckResult => {
+    if (!trademarks || result.status === 'invalid') return result;
+    let screening = screenings.get(result.baseName);
+    if (!screening) {
+      screening = trademarks.screen(domainToUnicode(result.baseName), { niceClasses });
+      screenings.set(result.baseName, screening);
+    }
+    return { ...result, trademark: screening };
+  };
+
+  const results = await checkMultipleDomains(request.names, request.tlds, {
+    ...domainCheckTuningFromEnv(env),
+    provider: availabilityProviderFromEnv(env),
+    cache: serverAvailabilityCache,
+    skip: request.skip,
+    force: request.force,
+    onResult: onResult ? result => onResult(withTrademark(result)) : undefined
+  });
+  return results.map(withTrademark);
+};
+
+/**
+ * Checks names for other server features (brainstorm, chat tools) with the endpoint's
+ * validation and trademark screening. Input with no valid pair yields no results.
+ */
+export const checkDomainsOnServer = async (
+  names: string[],
+  tlds: string[],
+  env: Record<string, string | undefined>,
+  opts: { niceClasses?: number[]; force?: boolean; onResult?: (result: DomainCheckResult) => void } = {}
+): Promise<DomainCheckResult[]> => {
+  const request = parseDomainCheckRequest({ names, tlds, niceClasses: opts.niceClasses, force: opts.force });
+  if ('error' in request) return [];
+  return runDomainCheck(request, env, opts.onResult);
+};
+
+export const buildDomainCheckResponse = async (
+  body: any,
+  env: Record<string, string | undefined> = process.env
+): Promise<{ status: number; json: DomainCheckResult[] | { error: string } }> => {
+  const request = parseDomainCheckRequest(body);
+  if ('error' in request) return { status: 400, json: request };
+
+  const results = await runDomainCheck(request, env);
+  return { status: 200, json: results };
+};
+
+// Minimal response surface shared by Node's ServerResponse (Vite middleware) and Vercel's `res`.
+export type StreamingResponse = {
+  statusCode: number;
+  setHeader: (name: string, value: string) => unknown;
+  write: (chunk: string) => unknown;
+  end: (chunk?: string) => unknown;
+};
+
+/**
+ * Streaming variant of `/api/domains/check` (request body `stream: true`): writes one
+ * `DomainCheckResult` per line (NDJSON) as soon as each lookup settles. A failure after the
+ * first line ends the stream with an `{ "error": ... }` line; earlier ones are answered with
+ * a JSON error and status instead.
+ */
+export const writeDomainCheckStream = async (
+  body: any,
+  env: Record<string, string | undefined>,
+  res: StreamingResponse
+): Promise<void> => {
+  const fail = (status: number, body: { error: string }) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  const request = parseDomainCheckRequest(body);
+  if ('error' in request) return fail(400, request);
+
+  let started = false;
+  const send = (line: unknown) => {
+    if (!started) {
+      started = true;
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      res.setHeader('Cache-Control', 'no-cache');
+    }
+    res.write(`${JSON.stringify(line)}\n`);
+  };
+
+  try {
+    await runDomainCheck(request, env, send);
+  } catch (error: any) {
+    console.error('Domain check stream failed:', error);
+    const body = { error: error?.message || 'Internal Server Error' };
+    if (!started) return fail(500, body);
+    send(body);
+  }
+  res.end();
+};
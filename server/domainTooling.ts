@@ -1,20 +1,32 @@
-import { AVAILABLE_TLDS, Message, Role } from '../types';
+import { Message, Role } from '../types';
+import { FEATURED_TLDS, isKnownTld } from '../services/tldCatalog';
 
 export type DomainToolArgs = { names: string[]; tlds?: string[] };
 
+// Names keep their Unicode form here ("café"); the ASCII (xn--) form is derived when
+// the domains are checked.
 const normalizeBaseNameFromText = (raw: string): string | null => {
   const t = String(raw || '').trim();
   if (!t) return null;
-  const cleaned = t
-    .toLowerCase()
-    .replace(/\s+/g, '')
-    .replace(/[^a-z0-9-]/g, '')
-    .replace(/^-+/, '')
-    .replace(/-+$/, '')
-    .slice(0, 63);
+  const cleaned = Array.from(
+    t
+      .normalize('NFC')
+      .toLowerCase()
+      .replace(/\s+/g, '')
+      .replace(/[^\p{L}\p{M}\p{N}-]/gu, '')
+      .replace(/^-+/, '')
+      .replace(/-+$/, '')
+  )
+    .slice(0, 63)
+    .join('');
   return cleaned || null;
 };
 
+// A name label in any script; `\b` only knows ASCII word characters, hence the lookarounds.
+const LABEL = '[\\p{L}\\p{N}](?:[\\p{L}\\p{M}\\p{N}-]{1,61}[\\p{L}\\p{M}\\p{N}])?';
+const WORD_START = '(?<![\\p{L}\\p{M}\\p{N}-])';
+const WORD_END = '(?![\\p{L}\\p{M}\\p{N}-])';
+
 const extractCandidatesFromText = (
   text: string,
   stopWords: Set<string>
@@ -26,17 +38,22 @@ const extractCandidatesFromText = (
   const seenTlds = new Set<string>();
 
   // 1) Capture full domains anywhere in the text.
-  // Example: "domai.ai", "namerai.ai".
-  const domainRe = /\b([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?)\.([a-z]{2,})\b/gi;
+  // Example: "domai.ai", "namerai.ai", "café.fr", "пример.рф".
+  const domainRe = new RegExp(
+    `${WORD_START}([\\p{L}\\p{N}](?:[\\p{L}\\p{M}\\p{N}-]{0,61}[\\p{L}\\p{M}\\p{N}])?)\\.(xn--[a-z0-9-]+|\\p{L}{2,})${WORD_END}`,
+    'giu'
+  );
   let m: RegExpExecArray | null;
   while ((m = domainRe.exec(t))) {
     const base = normalizeBaseNameFromText(m[1]);
     const tld = `.${String(m[2] || '').toLowerCase()}`;
+    // "e.g", "file.txt" and friends are not domains.
+    if (!isKnownTld(tld)) continue;
     if (base && !stopWords.has(base) && !seenNames.has(base)) {
       names.push(base);
       seenNames.add(base);
     }
-    if (tld && !seenTlds.has(tld)) {
+    if (!seenTlds.has(tld)) {
       tlds.push(tld);
       seenTlds.add(tld);
     }
@@ -93,13 +110,13 @@ export const extractDomainRequest = (text: string): DomainToolArgs | null => {
 
   // 3) Patterns like "check again namer" (no quotes).
   // Keep conservative to avoid capturing arbitrary words.
-  const checkAgainBare = t.match(/\bcheck\s+again\s+([a-z0-9](?:[a-z0-9-]{1,61}[a-z0-9])?)\b/i);
+  const checkAgainBare = t.match(new RegExp(`\\bcheck\\s+again\\s+(${LABEL})${WORD_END}`, 'iu'));
   if (checkAgainBare) {
     return { names: [checkAgainBare[1]] };
   }
 
   // 4) Natural phrasing: "check the name namer" / "check name namer" / "check domain namer"
-  const checkNamePhrase = t.match(/\bcheck\s+(?:the\s+)?(?:name|domain)\s+([a-z0-9](?:[a-z0-9-]{1,61}[a-z0-9])?)\b/i);
+  const checkNamePhrase = t.match(new RegExp(`\\bcheck\\s+(?:the\\s+)?(?:name|domain)\\s+(${LABEL})${WORD_END}`, 'iu'));
   if (checkNamePhrase) {
     const candidate = String(checkNamePhrase[1]).toLowerCase();
     if (candidate && !stopWords.has(candidate)) return { names: [checkNamePhrase[1]] };
@@ -107,7 +124,7 @@ export const extractDomainRequest = (text: string): DomainToolArgs | null => {
 
   // 5) Bare "check X" as a last resort.
   // Avoid grabbing filler words like "the" in "check the name ...".
-  const checkBare = t.match(/\bcheck\s+([a-z0-9](?:[a-z0-9-]{1,61}[a-z0-9])?)\b/i);
+  const checkBare = t.match(new RegExp(`\\bcheck\\s+(${LABEL})${WORD_END}`, 'iu'));
   if (checkBare) {
     const candidate = String(checkBare[1]).toLowerCase();
     if (candidate && !stopWords.has(candidate) && candidate !== 'again') {
@@ -120,10 +137,15 @@ export const extractDomainRequest = (text: string): DomainToolArgs | null => {
 
 export const expandTldsProgressively = (
   previousTlds: string[] | undefined,
-  universe: string[] = AVAILABLE_TLDS
+  universe: string[] = FEATURED_TLDS
 ): string[] => {
-  const prevUnique = Array.from(new Set((previousTlds || []).filter(Boolean).map(s => s.toLowerCase())));
-  const universeUnique = Array.from(new Set((universe || []).filter(Boolean).map(s => s.toLowerCase())));
+  // Only ever expand into TLDs that are actually delegated in the root zone.
+  const prevUnique = Array.from(
+    new Set((previousTlds || []).filter(Boolean).map(s => s.toLowerCase()).filter(isKnownTld))
+  );
+  const universeUnique = Array.from(
+    new Set((universe || []).filter(Boolean).map(s => s.toLowerCase()).filter(isKnownTld))
+  );
 
   // Next tier sizes: first retry -> ~8, second -> ~12, then -> ~16, then -> full list.
   const tiers = [8, 12, 16, universeUnique.length];
@@ -188,7 +210,7 @@ export const inferLastCheckedFromHistory = (
 export const shouldAutoCallDomainTool = (
   messages: Message[],
   assistantText: string,
-  universe: string[] = AVAILABLE_TLDS
+  universe: string[] = FEATURED_TLDS
 ): DomainToolArgs | null => {
   const lastUser = [...(messages || [])].reverse().find(m => m?.role === Role.USER && !m?.isError);
   const userText = String(lastUser?.text || '').trim();
@@ -0,0 +1,9 @@
+// Reading server configuration from environment variables.
+
+export const sanitizeEnvValue = (value: string | undefined): string | undefined => {
+  if (value == null) return undefined;
+  const trimmed = String(value).trim();
+  const noBom = trimmed.replace(/^\uFEFF/, '');
+  // dotenv values can sometimes include wrapping quotes depending on how they're authored.
+  return noBom.replace(/^['"]|['"]$/g, '');
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import {
+  buildHandleCheckResponse,
+  checkHandles,
+  createGithubHandleProvider,
+  createNpmHandleProvider,
+  createPypiHandleProvider
+} from './handleCheck';
+
+// Answers from a fixed URL -> status map; anything unlisted is a 404.
+const fakeRegistry = (statuses: Record<string, number>) =>
+  vi.fn(async (url: string, _init?: RequestInit) => new Response(null, { status: statuses[url] ?? 404 }));
+
+describe('handle providers', () => {
+  it('maps 404 to available, 200 to taken and other statuses to unknown', async () => {
+    const fetchImpl = fakeRegistry({
+      'https://registry.example/react': 200,
+      'https://registry.example/busy': 503
+    });
+    const npm = createNpmHandleProvider({ baseUrl: 'https://registry.example/', fetchImpl });
+    expect(await npm.lookup('react')).toBe('taken');
+    expect(await npm.lookup('namer-cli')).toBe('available');
+    expect(await npm.lookup('busy')).toBe('unknown');
+    expect(fetchImpl.mock.calls[0][1]).toMatchObject({ method: 'HEAD' });
+  });
+
+  it('validates names the way each platform does', () => {
+    const npm = createNpmHandleProvider();
+    const github = createGithubHandleProvider();
+    expect(npm.validate('_private')).toMatch(/cannot start with a dot or an underscore/);
+    expect(npm.validate('a'.repeat(215))).toMatch(/214/);
+    expect(github.validate('-namer')).toMatch(/cannot start or end with a hyphen/);
+    expect(github.validate('namer--app')).toMatch(/"--"/);
+    expect(github.validate('a'.repeat(40))).toMatch(/39/);
+    expect(github.validate('namer-app')).toBeNull();
+  });
+
+  it('looks PyPI projects up by their normalized name', async () => {
+    const fetchImpl = fakeRegistry({ 'https://pypi.example/pypi/my-lib/json': 200 });
+    const pypi = createPypiHandleProvider({ baseUrl: 'https://pypi.example', fetchImpl });
+    const handle = pypi.normalize('My_Lib');
+    expect(handle).toBe('my-lib');
+    expect(await pypi.lookup(handle)).toBe('taken');
+  });
+
+  it('sends the GitHub token when one is configured', async () => {
+    const fetchImpl = fakeRegistry({});
+    await createGithubHandleProvider({ baseUrl: 'https://gh.example', fetchImpl, token: 'ghp_test' }).lookup('namer');
+    expect(fetchImpl).toHaveBeenCalledWith(
+      'https://gh.example/users/namer',
+      expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer ghp_test' }) })
+    );
+  });
+});
+
+describe('checkHandles', () => {
+  const providers = (fetchImpl: ReturnType<typeof fakeRegistry>) => ({
+    npm: createNpmHandleProvider({ baseUrl: 'https://npm.example', fetchImpl }),
+    pypi: createPypiHandleProvider({ baseUrl: 'https://pypi.example', fetchImpl }),
+    github: createGithubHandleProvider({ baseUrl: 'https://gh.example', fetchImpl })
+  });
+
+  it('checks every name × platform pair in name-major order', async () => {
+    const fetchImpl = fakeRegistry({ 'https://gh.example/users/namer': 200 });
+    const results = await checkHandles(['Namer', '_bad', 'Namer'], ['npm', 'github'], { providers: providers(fetchImpl) });
+    expect(results.map(r => [r.name, r.platform, r.status])).toEqual([
+      ['Namer', 'npm', 'available'],
+      ['Namer', 'github', 'taken'],
+      ['_bad', 'npm', 'invalid'],
+      ['_bad', 'github', 'invalid']
+    ]);
+    expect(results[0]).toMatchObject({ handle: 'namer', url: 'https://www.npmjs.com/package/namer' });
+  });
+
+  it('reports unknown after the retries fail', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const fetchImpl = vi.fn(async () => {
+      throw new TypeError('fetch failed');
+    });
+    const [result] = await checkHandles(['namer'], ['npm'], { providers: providers(fetchImpl), retries: 1 });
+    expect(result.status).toBe('unknown');
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('buildHandleCheckResponse', () => {
+  it('rejects empty, unknown-platform and oversized requests', async () => {
+    expect(await buildHandleCheckResponse({ names: [] }, {})).toEqual({ status: 400, json: { error: 'No names provided' } });
+    expect((await buildHandleCheckResponse({ names: ['namer'], platforms: ['myspace'] }, {})).status).toBe(400);
+    const names = Array.from({ length: 51 }, (_, i) => `name${i}`);
+    expect(await buildHandleCheckResponse({ names }, {})).toEqual({
+      status: 400,
+      json: { error: 'Too many handles in one request (max 150).' }
+    });
+  });
+});
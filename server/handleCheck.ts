@@ -0,0 +1,200 @@
+import { HANDLE_PLATFORMS, HandleCheckResult, HandlePlatform } from '../types';
+import { mapWithConcurrency, withRetry, withTimeout } from './concurrency';
+import { DEFAULT_DOMAIN_CHECK_TIMEOUT_MS, domainCheckTuningFromEnv } from './domainCheck';
+import { sanitizeEnvValue } from './env';
+
+// Upper bound for a single request (names × platforms).
+export const MAX_HANDLE_CHECKS = 150;
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Answers "is this name free on <platform>?". `validate` runs first and returns a reason
+ * when the platform would refuse the name; `lookup` receives the normalized handle.
+ */
+export interface HandleProvider {
+  platform: HandlePlatform;
+  normalize: (name: string) => string;
+  validate: (handle: string) => string | null;
+  url: (handle: string) => string;
+  lookup: (handle: string, opts?: { signal?: AbortSignal }) => Promise<'available' | 'taken' | 'unknown'>;
+}
+
+export type HandleProviderOptions = {
+  // Base URL of the registry / API; point it at a local server to use fakes in tests.
+  baseUrl?: string;
+  fetchImpl?: FetchLike;
+};
+
+// 404 means nobody holds the name; a 200 means someone does; anything else is unknown.
+const statusFromResponse = (res: Response): 'available' | 'taken' | 'unknown' => {
+  if (res.status === 404) return 'available';
+  if (res.ok) return 'taken';
+  return 'unknown';
+};
+
+const defaultFetch: FetchLike = (input, init) => fetch(input, init);
+
+/** npm package names: lowercase, URL-safe, at most 214 characters. */
+export const createNpmHandleProvider = (opts: HandleProviderOptions = {}): HandleProvider => {
+  const baseUrl = (opts.baseUrl || 'https://registry.npmjs.org').replace(/\/+$/, '');
+  const fetchImpl = opts.fetchImpl || defaultFetch;
+  return {
+    platform: 'npm',
+    normalize: name => String(name || '').trim().toLowerCase(),
+    validate: handle => {
+      if (!handle) return 'The name is empty';
+      if (handle.length > 214) return 'npm package names can have at most 214 characters';
+      if (/^[._]/.test(handle)) return 'npm package names cannot start with a dot or an underscore';
+      if (!/^[a-z0-9._~-]+$/.test(handle)) return 'npm package names only allow URL-safe characters';
+      return null;
+    },
+    url: handle => `https://www.npmjs.com/package/${handle}`,
+    lookup: async (handle, lookupOpts) =>
+      statusFromResponse(
+        await fetchImpl(`${baseUrl}/${encodeURIComponent(handle)}`, {
+          method: 'HEAD',
+          signal: lookupOpts?.signal
+        })
+      )
+  };
+};
+
+/** PyPI project names, compared in their PEP 503 normalized form ("My_Lib" -> "my-lib"). */
+export const createPypiHandleProvider = (opts: HandleProviderOptions = {}): HandleProvider => {
+  const baseUrl = (opts.baseUrl || 'https://pypi.org').replace(/\/+$/, '');
+  const fetchImpl = opts.fetchImpl || defaultFetch;
+  return {
+    platform: 'pypi',
+    normalize: name => String(name || '').trim().toLowerCase().replace(/[-_.]+/g, '-'),
+    validate: handle => {
+      if (!handle) return 'The name is empty';
+      if (!/^[a-z0-9]([a-z0-9._-]*[a-z0-9])?$/.test(handle)) {
+        return 'PyPI names use letters, digits, ".", "_" and "-", starting and ending with a letter or digit';
+      }
+      return null;
+    },
+    url: handle => `https://pypi.org/project/${handle}/`,
+    lookup: async (handle, lookupOpts) =>
+      statusFromResponse(
+        await fetchImpl(`${baseUrl}/pypi/${encodeURIComponent(handle)}/json`, { signal: lookupOpts?.signal })
+      )
+  };
+};
+
+/**
+ * GitHub user / organization logins. A 404 can still hide a reserved name, so "available"
+ * here means "no account uses it".
+ */
+export const createGithubHandleProvider = (opts: HandleProviderOptions & { token?: string } = {}): HandleProvider => {
+  const baseUrl = (opts.baseUrl || 'https://api.github.com').replace(/\/+$/, '');
+  const fetchImpl = opts.fetchImpl || defaultFetch;
+  return {
+    platform: 'github',
+    normalize: name => String(name || '').trim().toLowerCase(),
+    validate: handle => {
+      if (!handle) return 'The name is empty';
+      if (handle.length > 39) return 'GitHub names can have at most 39 characters';
+      if (!/^[a-z0-9-]+$/.test(handle)) return 'GitHub names only allow letters, digits and hyphens';
+      if (handle.startsWith('-') || handle.endsWith('-') || handle.includes('--')) {
+        return 'GitHub names cannot start or end with a hyphen or contain "--"';
+      }
+      return null;
+    },
+    url: handle => `https://github.com/${handle}`,
+    lookup: async (handle, lookupOpts) =>
+      statusFromResponse(
+        await fetchImpl(`${baseUrl}/users/${encodeURIComponent(handle)}`, {
+          headers: {
+            Accept: 'application/vnd.github+json',
+            ...(opts.token ? { Authorization: `Bearer ${opts.token}` } : {})
+          },
+          signal: lookupOpts?.signal
+        })
+      )
+  };
+};
+
+export type HandleCheckOptions = {
+  // One provider per platform; missing platforms use the public registries.
+  providers?: Partial<Record<HandlePlatform, HandleProvider>>;
+  concurrency?: number;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+const DEFAULT_HANDLE_CHECK_CONCURRENCY = 6;
+
+/**
+ * Checks every name × platform pair, bounded like domain checks (pool, timeout, retries).
+ * Results keep name-major, platform-minor order.
+ */
+export const checkHandles = async (
+  names: string[],
+  platforms: HandlePlatform[] = HANDLE_PLATFORMS,
+  options: HandleCheckOptions = {}
+): Promise<HandleCheckResult[]> => {
+  const providers: Record<HandlePlatform, HandleProvider> = {
+    npm: options.providers?.npm ?? createNpmHandleProvider(),
+    pypi: options.providers?.pypi ?? createPypiHandleProvider(),
+    github: options.providers?.github ?? createGithubHandleProvider()
+  };
+  const uniqueNames = Array.from(new Set((names || []).map(n => String(n || '').trim()).filter(Boolean)));
+  const uniquePlatforms = Array.from(new Set(platforms)).filter(p => HANDLE_PLATFORMS.includes(p));
+
+  const pairs: Array<[string, HandlePlatform]> = [];
+  for (const name of uniqueNames) {
+    for (const platform of uniquePlatforms) pairs.push([name, platform]);
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_DOMAIN_CHECK_TIMEOUT_MS;
+  return mapWithConcurrency(pairs, options.concurrency ?? DEFAULT_HANDLE_CHECK_CONCURRENCY, async ([name, platform]) => {
+    const provider = providers[platform];
+    const handle = provider.normalize(name);
+    const base = { platform, name, handle, url: provider.url(handle) };
+    const reason = provider.validate(handle);
+    if (reason) return { ...base, status: 'invalid', reason, checkedAt: new Date().toISOString() };
+
+    try {
+      const status = await withRetry(
+        () => withTimeout(signal => provider.lookup(handle, { signal }), timeoutMs),
+        { retries: options.retries ?? 1 }
+      );
+      return { ...base, status, checkedAt: new Date().toISOString() };
+    } catch (error) {
+      console.error(`Error checking ${platform} handle ${handle}:`, error);
+      return { ...base, status: 'unknown', checkedAt: new Date().toISOString() };
+    }
+  });
+};
+
+/**
+ * `POST /api/handles/check` with `{ names, platforms? }`.
+ * GITHUB_TOKEN (optional) raises GitHub's rate limit for unauthenticated lookups.
+ */
+export const buildHandleCheckResponse = async (
+  body: any,
+  env: Record<string, string | undefined> = process.env
+): Promise<{ status: number; json: HandleCheckResult[] | { error: string } }> => {
+  const { names, platforms } = body || {};
+  if (!Array.isArray(names) || names.length === 0) {
+    return { status: 400, json: { error: 'No names provided' } };
+  }
+  const requested: HandlePlatform[] = Array.isArray(platforms) && platforms.length > 0
+    ? platforms.map((p: any) => String(p).toLowerCase()).filter((p: any): p is HandlePlatform => HANDLE_PLATFORMS.includes(p))
+    : HANDLE_PLATFORMS;
+  if (requested.length === 0) {
+    return { status: 400, json: { error: `Unknown platforms (supported: ${HANDLE_PLATFORMS.join(', ')})` } };
+  }
+  if (names.length * requested.length > MAX_HANDLE_CHECKS) {
+    return { status: 400, json: { error: `Too many handles in one request (max ${MAX_HANDLE_CHECKS}).` } };
+  }
+
+  const { timeoutMs, retries } = domainCheckTuningFromEnv(env);
+  const results = await checkHandles(names.map(String), requested, {
+    providers: { github: createGithubHandleProvider({ token: sanitizeEnvValue(env.GITHUB_TOKEN) }) },
+    timeoutMs,
+    retries
+  });
+  return { status: 200, json: results };
+};
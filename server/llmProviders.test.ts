@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { Role } from '../types';
+import { createOpenAICompatibleProvider, LLMProviderError } from './llmProviders';
+
+const request = {
+  messages: [{ id: 'u', role: Role.USER, text: 'hi' }],
+  tools: [],
+  toolChoice: 'auto' as const
+};
+
+const providerAnswering = (status: number) => {
+  let calls = 0;
+  const provider = createOpenAICompatibleProvider({
+    baseUrl: 'http://llm.test/v1',
+    model: 'test-model',
+    resilience: { retries: 0, breaker: { failureThreshold: 2, cooldownMs: 60_000 } },
+    fetchImpl: async () => {
+      calls += 1;
+      return new Response('{}', { status });
+    }
+  });
+  return { provider, calls: () => calls };
+};
+
+const failure = (promise: Promise<unknown>) => promise.then(() => null, (error: LLMProviderError) => error);
+
+describe('chat completions circuit breaker', () => {
+  it('opens after repeated 429s', async () => {
+    const { provider, calls } = providerAnswering(429);
+    expect((await failure(provider.complete(request)))?.code).toBe('rate_limited');
+    expect((await failure(provider.complete(request)))?.code).toBe('rate_limited');
+
+    const error = await failure(provider.complete(request));
+    expect(error?.code).toBe('circuit_open');
+    expect(error?.retryAfterMs).toBeGreaterThan(0);
+    expect(calls()).toBe(2);
+  });
+
+  it('stays closed on client errors', async () => {
+    const { provider, calls } = providerAnswering(400);
+    for (let i = 0; i < 3; i++) await failure(provider.complete(request));
+    expect(calls()).toBe(3);
+  });
+});
@@ -0,0 +1,662 @@
+import { LLMErrorCode, Message, Role, TokenUsage, ToolInvocation } from '../types';
+import { generateToolCallId } from './domainTooling';
+import { CircuitBreakerOptions, createCircuitBreaker, TimeoutError, withRetry, withTimeout } from './concurrency';
+import { DEFAULT_MODEL_PRICES, findModelPrice, ModelPrice, priceUsage } from './usagePricing';
+
+export type { LLMErrorCode } from '../types';
+
+export type ChatFunctionCall = { id: string; name: string; args: Record<string, any> };
+
+export type ChatBackendResponse = {
+  text: string;
+  functionCalls?: ChatFunctionCall[];
+  // Tools the server ran for this reply, in order (server-side tool loop only).
+  toolTrace?: ToolInvocation[];
+  // The tool loop stopped at its step limit before the model gave a final answer.
+  stepLimitReached?: boolean;
+  // The tool loop stopped because the reply's cost reached the budget.
+  budgetExceeded?: boolean;
+  // Tokens and cost of every model call behind this reply (retries and tool rounds included).
+  usage?: TokenUsage;
+};
+
+// Function tools in the OpenAI / Mistral shape; every provider receives them like this.
+export type LLMTool = {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
+};
+
+// Structured output: the reply text must be JSON matching `schema` (strict JSON Schema).
+export type LLMResponseFormat = {
+  name: string;
+  schema: Record<string, any>;
+};
+
+export type LLMRequest = {
+  messages: Message[];
+  systemInstruction?: string;
+  tools: LLMTool[];
+  // 'any' asks the model to call at least one tool.
+  toolChoice?: 'auto' | 'any';
+  temperature?: number;
+  responseFormat?: LLMResponseFormat;
+};
+
+// Incremental pieces of a completion. Tool calls arrive in fragments keyed by `index`:
+// the first one usually carries `id` and `name`, the rest append to `arguments`.
+export type LLMStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; arguments?: string }
+  | { type: 'usage'; usage: TokenUsage };
+
+// Sent before the provider waits to retry a failed call.
+export type LLMRetryNotice = {
+  code: LLMErrorCode;
+  attempt: number; // the retry about to run, from 1
+  delayMs: number;
+  message: string;
+};
+
+export type LLMCallOptions = {
+  signal?: AbortSignal;
+  onRetry?: (notice: LLMRetryNotice) => void;
+};
+
+/**
+ * A chat model backend. It owns the wire format: mapping our `Message`s, the HTTP call
+ * and turning the reply into text + function calls (all at once, or as stream events).
+ */
+export interface LLMProvider {
+  name: string;
+  model: string;
+  complete: (request: LLMRequest, opts?: LLMCallOptions) => Promise<ChatBackendResponse>;
+  stream: (request: LLMRequest, opts?: LLMCallOptions) => AsyncGenerator<LLMStreamEvent>;
+}
+
+const codeForStatus = (status: number): LLMErrorCode => {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'unavailable';
+  if (status >= 400) return 'invalid_request';
+  return 'upstream_error';
+};
+
+/**
+ * A failed completion; `status` is what the API route should answer with. `retryAfterMs`
+ * is set when the upstream (or the circuit breaker) said how long to wait.
+ */
+export class LLMProviderError extends Error {
+  status: number;
+  code: LLMErrorCode;
+  retryAfterMs?: number;
+
+  constructor(message: string, status = 502, opts: { code?: LLMErrorCode; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'LLMProviderError';
+    this.status = status;
+    this.code = opts.code ?? codeForStatus(status);
+    if (opts.retryAfterMs != null) this.retryAfterMs = opts.retryAfterMs;
+  }
+}
+
+/** `{ error, code, retryAfterMs? }`: how API routes report a provider failure. */
+export const llmErrorBody = (error: LLMProviderError): { error: string; code: LLMErrorCode; retryAfterMs?: number } => ({
+  error: error.message,
+  code: error.code,
+  ...(error.retryAfterMs != null ? { retryAfterMs: error.retryAfterMs } : {})
+});
+
+/**
+ * Wait requested by an error response: OpenAI's `retry-after-ms`, else `Retry-After` in
+ * seconds or as an HTTP date. Undefined when absent or unreadable.
+ */
+export const parseRetryAfter = (headers: Headers, now = Date.now()): number | undefined => {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') && Number.isFinite(ms) && ms >= 0) return Math.round(ms);
+  const raw = String(headers.get('retry-after') || '').trim();
+  if (!raw) return undefined;
+  if (/^\d+(?:\.\d+)?$/.test(raw)) return Math.round(Number(raw) * 1000);
+  const date = Date.parse(raw);
+  return Number.isFinite(date) ? Math.max(0, date - now) : undefined;
+};
+
+const secondsText = (ms: number) => `${Math.max(1, Math.ceil(ms / 1000))}s`;
+
+// Timeouts, retries and circuit breaking around each upstream call.
+export type LLMResilienceOptions = {
+  // Per attempt, until the response starts (the whole reply for `complete`).
+  timeoutMs?: number;
+  // Extra attempts after a 429, a 5xx, a timeout or a network failure.
+  retries?: number;
+  // A Retry-After longer than this is not waited for: the error goes to the client instead.
+  maxRetryAfterMs?: number;
+  breaker?: CircuitBreakerOptions;
+};
+
+export const DEFAULT_LLM_TIMEOUT_MS = 60_000;
+export const DEFAULT_LLM_RETRIES = 2;
+const DEFAULT_MAX_RETRY_AFTER_MS = 20_000;
+const RETRYABLE_CODES: LLMErrorCode[] = ['rate_limited', 'unavailable', 'timeout'];
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+type ChatCompletionsToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+};
+
+type ChatCompletionsMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; tool_calls?: ChatCompletionsToolCall[] }
+  | { role: 'tool'; content: string; tool_call_id: string; name?: string };
+
+/**
+ * Maps the UI history to `/chat/completions` messages (Mistral and OpenAI share the format).
+ * `toolName` adds the tool name to tool results, which Mistral accepts and OpenAI does not.
+ */
+export const mapMessagesToChatCompletions = (
+  messages: Message[],
+  systemInstruction?: string,
+  opts: { toolName?: boolean } = {}
+): ChatCompletionsMessage[] => {
+  const out: ChatCompletionsMessage[] = [];
+  // Track tool call ids that have been introduced to the model so we don't
+  // accidentally send orphaned `tool` messages (both APIs reject those).
+  const knownToolCallIds = new Set<string>();
+
+  if (systemInstruction && systemInstruction.trim()) {
+    out.push({ role: 'system', content: systemInstruction.trim() });
+  }
+
+  for (const m of messages || []) {
+    if (m?.isError) continue;
+    if (m?.role === Role.SYSTEM) continue;
+
+    if (m?.role === Role.USER) {
+      const userContent = String(m?.text ?? '').trim();
+      if (userContent) out.push({ role: 'user', content: userContent });
+      continue;
+    }
+
+    if (m?.role === Role.MODEL) {
+      // MODEL -> assistant (+ optional tool calls)
+      if (Array.isArray(m?.toolCalls) && m.toolCalls.length > 0) {
+        for (const tc of m.toolCalls) {
+          const id = String(tc?.id ?? '').trim();
+          if (id) knownToolCallIds.add(id);
+        }
+        out.push({
+          role: 'assistant',
+          content: String(m?.text ?? ''),
+          tool_calls: m.toolCalls.map(tc => ({
+            id: tc.id,
+            type: 'function',
+            function: {
+              name: tc.name,
+              arguments: JSON.stringify(tc.args ?? {})
+            }
+          }))
+        });
+      } else {
+        const assistantContent = String(m?.text ?? '').trim();
+        // Assistant messages with neither tool_calls nor non-empty content are rejected.
+        if (assistantContent) out.push({ role: 'assistant', content: assistantContent });
+      }
+
+      // Tool responses (results) are separate tool-role messages
+      if (Array.isArray(m?.toolResponses) && m.toolResponses.length > 0) {
+        for (const tr of m.toolResponses) {
+          const toolCallId = String(tr?.id ?? '').trim();
+          // Only include tool messages if the corresponding tool_call_id was
+          // previously sent in an assistant message.
+          if (!toolCallId || !knownToolCallIds.has(toolCallId)) continue;
+          out.push({
+            role: 'tool',
+            tool_call_id: toolCallId,
+            ...(opts.toolName ? { name: tr.name } : {}),
+            content: JSON.stringify(tr.result ?? null)
+          });
+        }
+      }
+    }
+  }
+
+  return out;
+};
+
+const ensureValidMessageOrder = (messages: ChatCompletionsMessage[]): ChatCompletionsMessage[] => {
+  // chat/completions requires the last message to be role 'user' or 'tool'
+  // (unless using special assistant prefix behavior). In some client flows we may
+  // accidentally include a trailing assistant message; trim those defensively.
+  const out = [...(messages || [])];
+  while (out.length > 0) {
+    const last = out[out.length - 1];
+    if (last.role === 'assistant') {
+      out.pop();
+      continue;
+    }
+    break;
+  }
+  return out;
+};
+
+// Arguments are a JSON string on Mistral / OpenAI; some local servers send an object.
+export const parseChatCompletionsToolCalls = (toolCalls: any[]): ChatFunctionCall[] => {
+  if (!Array.isArray(toolCalls)) return [];
+
+  return toolCalls
+    .filter(tc => (tc?.type ?? 'function') === 'function')
+    .map(tc => {
+      const raw = tc?.function?.arguments;
+      let args: any = {};
+      if (raw && typeof raw === 'object') {
+        args = raw;
+      } else {
+        try {
+          args = raw ? JSON.parse(raw) : {};
+        } catch {
+          args = {};
+        }
+      }
+      return {
+        id: String(tc?.id ?? ''),
+        name: String(tc?.function?.name ?? ''),
+        args
+      };
+    })
+    .filter(fc => Boolean(fc.id) && Boolean(fc.name));
+};
+
+type ChatCompletionsProviderOptions = {
+  name: string;
+  label: string; // used in error messages ("Mistral API error (429)")
+  baseUrl: string;
+  apiKey?: string;
+  apiKeyEnv: string; // the variable to fix when authentication fails
+  model: string;
+  // How "call a tool" is spelled: Mistral uses 'any', OpenAI 'required'.
+  forcedToolChoice: string;
+  toolName: boolean;
+  // Ask for a usage chunk at the end of streams (OpenAI needs it; Mistral always sends one).
+  streamUsage: boolean;
+  // Prices the `usage` block of each reply.
+  price?: ModelPrice;
+  resilience?: LLMResilienceOptions;
+  fetchImpl?: FetchLike;
+};
+
+/** `data:` payloads of a Server-Sent Events body, in order (comments and other fields skipped). */
+export const readSseData = async function* (body: ReadableStream<Uint8Array> | null): AsyncGenerator<string> {
+  if (!body) return;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      if (line === '') {
+        if (data.length > 0) yield data.join('\n');
+        data = [];
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+      newline = buffer.indexOf('\n');
+    }
+    if (done) break;
+  }
+  if (buffer.startsWith('data:')) data.push(buffer.slice(5).replace(/^ /, ''));
+  if (data.length > 0) yield data.join('\n');
+};
+
+const createChatCompletionsProvider = (opts: ChatCompletionsProviderOptions): LLMProvider => {
+  const baseUrl = opts.baseUrl.replace(/\/+$/, '');
+  const fetchImpl: FetchLike = opts.fetchImpl || ((input, init) => fetch(input, init));
+  const resilience = opts.resilience ?? {};
+  const timeoutMs = resilience.timeoutMs ?? DEFAULT_LLM_TIMEOUT_MS;
+  const maxRetryAfterMs = resilience.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+  // One breaker per provider instance; providers are shared per configuration.
+  const breaker = createCircuitBreaker(resilience.breaker);
+
+  // Validates and sends the request; HTTP failures become `LLMProviderError`s. Retryable
+  // failures are retried (honouring Retry-After), and an open circuit fails fast.
+  const post = async (request: LLMRequest, stream: boolean, callOpts: LLMCallOptions = {}): Promise<Response> => {
+    const safeMessages = ensureValidMessageOrder(
+      mapMessagesToChatCompletions(request.messages, request.systemInstruction, { toolName: opts.toolName })
+    );
+    if (safeMessages.length === 0) {
+      throw new LLMProviderError(`Invalid message sequence for ${opts.label} (no user/tool message).`, 400);
+    }
+    const lastRole = safeMessages[safeMessages.length - 1]?.role;
+    if (lastRole !== 'user' && lastRole !== 'tool') {
+      throw new LLMProviderError(
+        `Invalid message order for ${opts.label}: last role must be user or tool, got ${String(lastRole)}.`,
+        400
+      );
+    }
+
+    const body = JSON.stringify({
+      model: opts.model,
+      messages: safeMessages,
+      ...(request.tools.length > 0
+        ? { tools: request.tools, tool_choice: request.toolChoice === 'any' ? opts.forcedToolChoice : 'auto' }
+        : {}),
+      ...(request.responseFormat
+        ? {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: request.responseFormat.name, schema: request.responseFormat.schema, strict: true }
+            }
+          }
+        : {}),
+      temperature: request.temperature ?? 0.9,
+      ...(stream ? { stream: true, ...(opts.streamUsage ? { stream_options: { include_usage: true } } : {}) } : {})
+    });
+
+    const attempt = async (): Promise<Response> => {
+      const blockedMs = breaker.blockedForMs();
+      if (blockedMs > 0) {
+        throw new LLMProviderError(
+          `${opts.label} is unavailable after repeated failures; try again in ${secondsText(blockedMs)}.`,
+          503,
+          { code: 'circuit_open', retryAfterMs: blockedMs }
+        );
+      }
+
+      let res: Response;
+      try {
+        res = await withTimeout(
+          timeoutSignal =>
+            fetchImpl(`${baseUrl}/chat/completions`, {
+              method: 'POST',
+              headers: {
+                'Content-Type': 'application/json',
+                ...(opts.apiKey ? { Authorization: `Bearer ${opts.apiKey}` } : {})
+              },
+              body,
+              signal: callOpts.signal ? AbortSignal.any([timeoutSignal, callOpts.signal]) : timeoutSignal
+            }),
+          timeoutMs
+        );
+      } catch (error: any) {
+        // The caller gave up: not the upstream's fault, and not worth a retry.
+        if (callOpts.signal?.aborted) throw error;
+        breaker.recordFailure();
+        if (error instanceof TimeoutError) {
+          throw new LLMProviderError(`${opts.label} did not answer within ${secondsText(timeoutMs)}.`, 504, { code: 'timeout' });
+        }
+        throw new LLMProviderError(`Could not reach ${opts.label} at ${baseUrl}: ${error?.message || error}`, 502, {
+          code: 'unavailable'
+        });
+      }
+
+      // A 429 storm is an upstream that cannot take our calls, same as a 5xx: it opens the
+      // circuit too, instead of every request burning its retries against the limit.
+      if (res.status >= 500 || res.status === 429) breaker.recordFailure();
+      else breaker.recordSuccess();
+      if (!res.ok) {
+        const text = await res.text().catch(() => '');
+        const retryAfterMs = parseRetryAfter(res.headers);
+        const message =
+          res.status === 401 || res.status === 403
+            ? `${opts.label} authentication failed. Check ${opts.apiKeyEnv}.`
+            : res.status === 429
+              ? `${opts.label} rate limit reached (429)${retryAfterMs != null ? `; try again in ${secondsText(retryAfterMs)}` : ''}.`
+              : `${opts.label} API error (${res.status}). ${text || ''}`.trim();
+        throw new LLMProviderError(message, res.status, { retryAfterMs });
+      }
+      return res;
+    };
+
+    return withRetry(attempt, {
+      retries: resilience.retries ?? DEFAULT_LLM_RETRIES,
+      baseDelayMs: 500,
+      maxDelayMs: 8000,
+      shouldRetry: error =>
+        error instanceof LLMProviderError &&
+        RETRYABLE_CODES.includes(error.code) &&
+        (error.retryAfterMs ?? 0) <= maxRetryAfterMs &&
+        !callOpts.signal?.aborted,
+      retryDelay: error => (error as LLMProviderError).retryAfterMs,
+      onRetry: (error, n, delayMs) => {
+        const { code, message } = error as LLMProviderError;
+        callOpts.onRetry?.({ code, attempt: n + 1, delayMs, message });
+      }
+    });
+  };
+
+  return {
+    name: opts.name,
+    model: opts.model,
+    complete: async (request, completeOpts) => {
+      const res = await post(request, false, completeOpts);
+      const data: any = await res.json();
+      const msg = data?.choices?.[0]?.message;
+      return {
+        text: msg?.content ?? '',
+        functionCalls: parseChatCompletionsToolCalls(msg?.tool_calls ?? []),
+        usage: data?.usage ? priceUsage(data.usage.prompt_tokens, data.usage.completion_tokens, opts.price) : undefined
+      };
+    },
+    stream: async function* (request, streamOpts) {
+      const res = await post(request, true, streamOpts);
+      for await (const data of readSseData(res.body)) {
+        if (data === '[DONE]') break;
+        let chunk: any;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        if (chunk?.usage) {
+          yield { type: 'usage', usage: priceUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens, opts.price) };
+        }
+        const delta = chunk?.choices?.[0]?.delta;
+        if (typeof delta?.content === 'string' && delta.content) yield { type: 'text', delta: delta.content };
+        for (const tc of Array.isArray(delta?.tool_calls) ? delta.tool_calls : []) {
+          const args = tc?.function?.arguments;
+          yield {
+            type: 'tool_call',
+            index: typeof tc?.index === 'number' ? tc.index : 0,
+            id: tc?.id || undefined,
+            name: tc?.function?.name || undefined,
+            arguments: args == null ? undefined : typeof args === 'string' ? args : JSON.stringify(args)
+          };
+        }
+      }
+    }
+  };
+};
+
+/** Folds stream events back into the shape `complete` returns. */
+export const collectStreamEvents = (events: LLMStreamEvent[]): ChatBackendResponse => {
+  let text = '';
+  let usage: TokenUsage | undefined;
+  const calls = new Map<number, { id: string; name: string; arguments: string }>();
+  for (const event of events) {
+    if (event.type === 'text') {
+      text += event.delta;
+      continue;
+    }
+    if (event.type === 'usage') {
+      usage = event.usage;
+      continue;
+    }
+    const call = calls.get(event.index) ?? { id: '', name: '', arguments: '' };
+    if (event.id) call.id = event.id;
+    if (event.name) call.name = event.name;
+    if (event.arguments) call.arguments += event.arguments;
+    calls.set(event.index, call);
+  }
+  const toolCalls = Array.from(calls.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, c]) => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } }));
+  return { text, functionCalls: parseChatCompletionsToolCalls(toolCalls), usage };
+};
+
+export const DEFAULT_MISTRAL_BASE_URL = 'https://api.mistral.ai/v1';
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+export const createMistralProvider = (opts: {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  price?: ModelPrice;
+  resilience?: LLMResilienceOptions;
+  fetchImpl?: FetchLike;
+}): LLMProvider =>
+  createChatCompletionsProvider({
+    name: 'mistral',
+    label: 'Mistral',
+    baseUrl: opts.baseUrl || DEFAULT_MISTRAL_BASE_URL,
+    apiKey: opts.apiKey,
+    apiKeyEnv: 'MISTRAL_API_KEY',
+    model: opts.model,
+    forcedToolChoice: 'any',
+    toolName: true,
+    streamUsage: false,
+    price: opts.price,
+    resilience: opts.resilience,
+    fetchImpl: opts.fetchImpl
+  });
+
+/**
+ * Any OpenAI-compatible `/chat/completions` endpoint: OpenAI itself, or a local Ollama /
+ * llama.cpp server (no API key needed there).
+ */
+export const createOpenAICompatibleProvider = (opts: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  price?: ModelPrice;
+  resilience?: LLMResilienceOptions;
+  fetchImpl?: FetchLike;
+}): LLMProvider =>
+  createChatCompletionsProvider({
+    name: 'openai-compatible',
+    label: 'LLM',
+    baseUrl: opts.baseUrl,
+    apiKey: opts.apiKey,
+    apiKeyEnv: 'LLM_API_KEY',
+    model: opts.model,
+    forcedToolChoice: 'required',
+    toolName: false,
+    streamUsage: true,
+    price: opts.price,
+    resilience: opts.resilience,
+    fetchImpl: opts.fetchImpl
+  });
+
+export type MockLLMStep = ChatBackendResponse | ((request: LLMRequest) => ChatBackendResponse);
+
+export interface MockLLMProvider extends LLMProvider {
+  // Every request received, in order.
+  calls: LLMRequest[];
+}
+
+/**
+ * Scripted provider for tests and offline demos: answers with the steps in order and
+ * repeats the last one. Function calls without an id get one.
+ */
+export const createMockProvider = (steps: MockLLMStep[], opts: { model?: string } = {}): MockLLMProvider => {
+  const calls: LLMRequest[] = [];
+  const next = (request: LLMRequest): ChatBackendResponse => {
+    calls.push(request);
+    if (steps.length === 0) return { text: '', functionCalls: [] };
+    const step = steps[Math.min(calls.length, steps.length) - 1];
+    const response = typeof step === 'function' ? step(request) : step;
+    return {
+      text: String(response?.text ?? ''),
+      functionCalls: (response?.functionCalls || []).map(fc => ({
+        id: fc.id || generateToolCallId(),
+        name: fc.name,
+        args: fc.args ?? {}
+      })),
+      ...(response?.usage ? { usage: response.usage } : {})
+    };
+  };
+  return {
+    name: 'mock',
+    model: opts.model || 'scripted',
+    calls,
+    complete: async request => next(request),
+    // Text is replayed word by word, tool calls in one piece each.
+    stream: async function* (request) {
+      const response = next(request);
+      for (const delta of response.text.match(/\S+\s*|\s+/g) || []) yield { type: 'text', delta };
+      for (const [index, fc] of (response.functionCalls || []).entries()) {
+        yield { type: 'tool_call', index, id: fc.id, name: fc.name, arguments: JSON.stringify(fc.args) };
+      }
+      if (response.usage) yield { type: 'usage', usage: response.usage };
+    }
+  };
+};
+
+export type LLMProviderKind = 'mistral' | 'openai' | 'ollama' | 'mock';
+
+export const LLM_PROVIDER_KINDS: LLMProviderKind[] = ['mistral', 'openai', 'ollama', 'mock'];
+
+export type LLMProviderConfig = {
+  kind: LLMProviderKind;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  mockSteps?: MockLLMStep[];
+  // Per-model prices (default: DEFAULT_MODEL_PRICES).
+  prices?: Record<string, ModelPrice>;
+  resilience?: LLMResilienceOptions;
+};
+
+/** Builds a provider from configuration, or explains what is missing. */
+export const resolveLLMProvider = (config: LLMProviderConfig): { provider: LLMProvider } | { error: string } => {
+  if (config.kind === 'mock') {
+    return {
+      provider: createMockProvider(config.mockSteps ?? [{ text: 'This is a scripted reply from the mock LLM provider.' }], {
+        model: config.model
+      })
+    };
+  }
+
+  if (config.kind === 'mistral') {
+    const model = config.model || 'mistral-small-latest';
+    if (!config.apiKey) return { error: 'Missing MISTRAL_API_KEY' };
+    return {
+      provider: createMistralProvider({
+        apiKey: config.apiKey,
+        model,
+        baseUrl: config.baseUrl,
+        price: findModelPrice(model, config.prices ?? DEFAULT_MODEL_PRICES),
+        resilience: config.resilience
+      })
+    };
+  }
+
+  const baseUrl = config.baseUrl || (config.kind === 'ollama' ? DEFAULT_OLLAMA_BASE_URL : DEFAULT_OPENAI_BASE_URL);
+  if (!config.model) return { error: 'Missing LLM_MODEL' };
+  // Hosted OpenAI needs a key; local servers usually do not.
+  if (!config.apiKey && baseUrl === DEFAULT_OPENAI_BASE_URL) return { error: 'Missing LLM_API_KEY' };
+  return {
+    provider: createOpenAICompatibleProvider({
+      baseUrl,
+      model: config.model,
+      apiKey: config.apiKey,
+      price: findModelPrice(config.model, config.prices ?? DEFAULT_MODEL_PRICES),
+      resilience: config.resilience
+    })
+  };
+};
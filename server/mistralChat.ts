@@ -1,276 +1,382 @@
-import { AVAILABLE_TLDS, Message, Role, ToolCallData } from '../types';
+import { ApiErrorCode, FieldError, Message, Role, TokenUsage, ToolInvocation } from '../types';
+import { FEATURED_TLDS } from '../services/tldCatalog';
 import { generateToolCallId, shouldAutoCallDomainTool } from './domainTooling';
+import type { StreamingResponse } from './domainCheck';
+import {
+  ChatBackendResponse,
+  collectStreamEvents,
+  LLM_PROVIDER_KINDS,
+  LLMProvider,
+  LLMProviderError,
+  LLMProviderKind,
+  LLMResilienceOptions,
+  LLMStreamEvent,
+  llmErrorBody,
+  MockLLMStep,
+  resolveLLMProvider
+} from './llmProviders';
+import { chatGuardFromEnv, checkChatPayloadLimits } from './chatGuard';
+import { sanitizeEnvValue } from './env';
+import { invalidRequest, validateChatRequestBody } from './requestValidation';
+import { defaultToolRegistry, ToolContext, ToolRegistry } from './tools';
+import { modelPricesFromEnv, resolveBudgetUsd } from './usagePricing';
+import { addUsage } from '../services/usage';
 
-export type ChatBackendResponse = {
-  text: string;
-  functionCalls?: Array<{ id: string; name: string; args: Record<string, any> }>;
-};
+export type { ChatBackendResponse } from './llmProviders';
 
-type MistralTool = {
-  type: 'function';
-  function: {
-    name: string;
-    description?: string;
-    parameters: Record<string, any>;
-  };
+const parseMockSteps = (value: string | undefined): MockLLMStep[] | undefined => {
+  if (!value) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return undefined;
+  }
 };
 
-type MistralToolCall = {
-  id: string;
-  type: 'function';
-  function: {
-    name: string;
-    arguments: string;
-  };
+const sharedLLMProviders = new Map<string, LLMProvider>();
+
+const readNonNegativeInt = (value: string | undefined): number | undefined => {
+  const n = Number(sanitizeEnvValue(value));
+  return sanitizeEnvValue(value) && Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
 };
 
-type MistralChatMessage =
-  | { role: 'system'; content: string }
-  | { role: 'user'; content: string }
-  | { role: 'assistant'; content: string; tool_calls?: MistralToolCall[] }
-  | { role: 'tool'; content: string; tool_call_id: string; name?: string };
+/**
+ * Upstream resilience for the chat backend:
+ * - LLM_TIMEOUT_MS (default 60000), LLM_RETRIES (default 2)
+ * - LLM_BREAKER_THRESHOLD (consecutive failures, default 5), LLM_BREAKER_COOLDOWN_MS (default 30000)
+ */
+export const llmResilienceFromEnv = (env: Record<string, string | undefined> = process.env): LLMResilienceOptions => ({
+  timeoutMs: readNonNegativeInt(env.LLM_TIMEOUT_MS),
+  retries: readNonNegativeInt(env.LLM_RETRIES),
+  breaker: {
+    failureThreshold: readNonNegativeInt(env.LLM_BREAKER_THRESHOLD) || undefined,
+    cooldownMs: readNonNegativeInt(env.LLM_BREAKER_COOLDOWN_MS)
+  }
+});
+
+/**
+ * Chat backend selection:
+ * - LLM_PROVIDER: mistral (default), openai (any OpenAI-compatible endpoint), ollama or mock
+ * - MISTRAL_API_KEY / MISTRAL_MODEL for Mistral
+ * - LLM_BASE_URL, LLM_API_KEY, LLM_MODEL for OpenAI-compatible servers (LLM_BASE_URL
+ *   defaults to OpenAI, or to a local Ollama for `ollama`)
+ * - LLM_MOCK_RESPONSES: JSON list of `{ text, functionCalls, usage? }` replayed by the mock provider
+ * - LLM_PRICES: per-model prices used to cost each reply's `usage` (see usagePricing.ts)
+ * - LLM_TIMEOUT_MS, LLM_RETRIES, LLM_BREAKER_*: see `llmResilienceFromEnv`
+ */
+export const llmProviderFromEnv = (
+  env: Record<string, string | undefined> = process.env
+): { kind: LLMProviderKind; provider?: LLMProvider; error?: string } => {
+  const requested = (sanitizeEnvValue(env.LLM_PROVIDER) || 'mistral').toLowerCase();
+  const kind = LLM_PROVIDER_KINDS.find(k => k === requested);
+  if (!kind) {
+    return { kind: 'mistral', error: `Unknown LLM_PROVIDER "${requested}" (supported: ${LLM_PROVIDER_KINDS.join(', ')})` };
+  }
+  const mockResponses = kind === 'mock' ? sanitizeEnvValue(env.LLM_MOCK_RESPONSES) : undefined;
+  const config = kind === 'mistral'
+    ? { kind, apiKey: sanitizeEnvValue(env.MISTRAL_API_KEY), model: sanitizeEnvValue(env.MISTRAL_MODEL) }
+    : {
+        kind,
+        baseUrl: sanitizeEnvValue(env.LLM_BASE_URL),
+        apiKey: sanitizeEnvValue(env.LLM_API_KEY),
+        model: sanitizeEnvValue(env.LLM_MODEL),
+        mockResponses
+      };
+  // Shared per configuration, so a mock script advances across requests.
+  const resilience = llmResilienceFromEnv(env);
+  const key = JSON.stringify({ ...config, prices: env.LLM_PRICES || '', resilience });
+  const shared = sharedLLMProviders.get(key);
+  if (shared) return { kind, provider: shared };
 
-export const sanitizeEnvValue = (value: string | undefined): string | undefined => {
-  if (value == null) return undefined;
-  const trimmed = String(value).trim();
-  const noBom = trimmed.replace(/^\uFEFF/, '');
-  // dotenv values can sometimes include wrapping quotes depending on how they're authored.
-  return noBom.replace(/^['"]|['"]$/g, '');
+  const resolved = resolveLLMProvider({
+    ...config,
+    mockSteps: parseMockSteps(mockResponses),
+    prices: modelPricesFromEnv(env),
+    resilience
+  });
+  if (!('provider' in resolved)) return { kind, error: resolved.error };
+  sharedLLMProviders.set(key, resolved.provider);
+  return { kind, provider: resolved.provider };
 };
 
-export const checkDomainsTool: MistralTool = {
-  type: 'function',
-  function: {
-    name: 'checkDomains',
-    description:
-      "Check the availability of domain names for specific base brand names. Use this whenever the user asks to check availability or when you generate a list of potential brand names.",
-    parameters: {
-      type: 'object',
-      properties: {
-        names: {
-          type: 'array',
-          items: { type: 'string' },
-          description:
-            "A list of base brand names to check (e.g. ['Spotify', 'Google']). Do not include the extension/TLD."
-        },
-        tlds: {
-          type: 'array',
-          items: { type: 'string' },
-          description:
-            "Optional: a list of TLDs to check (e.g. ['.com', '.io']). If omitted, the app will use the user-selected extensions."
-        }
-      },
-      required: ['names']
-    }
+/** `GET /api/health`: whether a chat backend is configured, and which one. */
+export const buildHealthResponse = (
+  env: Record<string, string | undefined> = process.env
+): { status: number; json: { ok: boolean; configured: boolean; provider: string; model?: string; error?: string } } => {
+  const { kind, provider, error } = llmProviderFromEnv(env);
+  if (!provider) {
+    return { status: 500, json: { ok: false, configured: false, provider: kind, error: `Server configuration error: ${error}` } };
   }
+  return { status: 200, json: { ok: true, configured: true, provider: kind, model: provider.model } };
 };
 
-export const mapMessagesToMistral = (messages: Message[], systemInstruction?: string): MistralChatMessage[] => {
-  const out: MistralChatMessage[] = [];
-  // Track tool call ids that have been introduced to the model so we don't
-  // accidentally send orphaned `tool` messages (Mistral rejects those).
-  const knownToolCallIds = new Set<string>();
+// Model rounds per reply when the server runs the tools (`runTools: true`).
+const DEFAULT_TOOL_STEPS = 4;
+const MAX_TOOL_STEPS = 8;
+// Checked when neither the model nor the request names TLDs (the sidebar's default selection).
+const DEFAULT_TOOL_TLDS = ['.com', '.io', '.ai'];
 
-  if (systemInstruction && systemInstruction.trim()) {
-    out.push({ role: 'system', content: systemInstruction.trim() });
+type ChatRequest = {
+  provider: LLMProvider;
+  messages: Message[];
+  systemInstruction?: string;
+  // Set when the server runs tool calls itself instead of returning them.
+  toolLoop?: { registry: ToolRegistry; context: ToolContext; maxSteps: number; budgetUsd?: number };
+};
+
+// Provider + message validation shared by the JSON and the streaming endpoints.
+const parseChatRequest = (
+  body: any,
+  env: Record<string, string | undefined>,
+  provider?: LLMProvider
+): ChatRequest | { status: number; error: string; code?: ApiErrorCode; fields?: FieldError[] } => {
+  if (!provider) {
+    const resolved = llmProviderFromEnv(env);
+    if (!resolved.provider) return { status: 500, error: `Server configuration error: ${resolved.error}` };
+    provider = resolved.provider;
   }
 
-  for (const m of messages || []) {
-    if (m?.isError) continue;
-    if (m?.role === Role.SYSTEM) continue;
+  // Size caps first: they are cheap and bound the work of the schema check.
+  const tooLarge = checkChatPayloadLimits(body, chatGuardFromEnv(env));
+  if (tooLarge) return { status: tooLarge.status, ...tooLarge.json };
+  const { value: valid, errors } = validateChatRequestBody(body, { maxSteps: MAX_TOOL_STEPS });
+  if (!valid) return invalidRequest(errors);
 
-    if (m?.role === Role.USER) {
-      const userContent = String(m?.text ?? '').trim();
-      if (userContent) out.push({ role: 'user', content: userContent });
-      continue;
+  const { systemInstruction, runTools, maxSteps, tlds, competitors, force, budgetUsd } = valid;
+  // Tool results in the history come from the client; only their known fields reach the model.
+  const messages = defaultToolRegistry.sanitizeMessages(valid.messages);
+  if (runTools !== true) return { provider, messages, systemInstruction };
+  return {
+    provider,
+    messages,
+    systemInstruction,
+    toolLoop: {
+      registry: defaultToolRegistry,
+      context: { env, tlds: tlds && tlds.length > 0 ? tlds : DEFAULT_TOOL_TLDS, competitors, force: force === true },
+      maxSteps: maxSteps ?? DEFAULT_TOOL_STEPS,
+      budgetUsd: resolveBudgetUsd(budgetUsd, env)
     }
+  };
+};
 
-    if (m?.role === Role.MODEL) {
-      // MODEL -> assistant (+ optional tool calls)
-      if (Array.isArray(m?.toolCalls) && m.toolCalls.length > 0) {
-        for (const tc of m.toolCalls) {
-          const id = String(tc?.id ?? '').trim();
-          if (id) knownToolCallIds.add(id);
-        }
-        out.push({
-          role: 'assistant',
-          content: String(m?.text ?? ''),
-          tool_calls: m.toolCalls.map(tc => ({
-            id: tc.id,
-            type: 'function',
-            function: {
-              name: tc.name,
-              arguments: JSON.stringify(tc.args ?? {})
-            }
-          }))
-        });
-      } else {
-        const assistantContent = String(m?.text ?? '').trim();
-        // Mistral rejects assistant messages with neither tool_calls nor non-empty content.
-        if (assistantContent) out.push({ role: 'assistant', content: assistantContent });
-      }
+const llmRequest = (request: ChatRequest, overrides?: { toolChoice?: 'auto' | 'any'; temperature?: number }) => ({
+  messages: request.messages,
+  systemInstruction: request.systemInstruction,
+  tools: (request.toolLoop?.registry ?? defaultToolRegistry).definitions(),
+  toolChoice: overrides?.toolChoice ?? 'auto',
+  temperature: overrides?.temperature ?? 0.9
+});
 
-      // Tool responses (results) are separate tool-role messages
-      if (Array.isArray(m?.toolResponses) && m.toolResponses.length > 0) {
-        for (const tr of m.toolResponses) {
-          const toolCallId = String(tr?.id ?? '').trim();
-          // Only include tool messages if the corresponding tool_call_id was
-          // previously sent in an assistant message.
-          if (!toolCallId || !knownToolCallIds.has(toolCallId)) continue;
-          out.push({
-            role: 'tool',
-            tool_call_id: toolCallId,
-            name: tr.name,
-            content: JSON.stringify(tr.result ?? null)
-          });
-        }
-      }
+// Applies the reliability retry and the tool-call fallback to a finished reply. The fallback
+// only makes sense for the first round: later rounds already have the tool results.
+const finalizeReply = async (
+  request: ChatRequest,
+  reply: ChatBackendResponse,
+  opts: { autoCall?: boolean } = {}
+): Promise<ChatBackendResponse> => {
+  let assistantText = reply.text;
+  let functionCalls = reply.functionCalls ?? [];
+  let usage = reply.usage;
+
+  // Reliability retry: sometimes the model returns an empty assistant message with no tool calls.
+  // That forces the client into extra "nudge" generations. Retry once with a stronger tool bias.
+  if (String(assistantText || '').trim() === '' && functionCalls.length === 0) {
+    const retry = await request.provider.complete(llmRequest(request, { toolChoice: 'any', temperature: 0.2 })).catch(() => null);
+    usage = addUsage(usage, retry?.usage);
+    if (retry && (String(retry.text || '').trim() !== '' || (retry.functionCalls ?? []).length > 0)) {
+      assistantText = retry.text;
+      functionCalls = retry.functionCalls ?? [];
     }
   }
 
-  return out;
-};
-
-const ensureMistralValidMessageOrder = (messages: MistralChatMessage[]): MistralChatMessage[] => {
-  // Mistral chat/completions requires the last message to be role 'user' or 'tool'
-  // (unless using special assistant prefix behavior). In some client flows we may
-  // accidentally include a trailing assistant message; trim those defensively.
-  const out = [...(messages || [])];
-  while (out.length > 0) {
-    const last = out[out.length - 1];
-    if (last.role === 'assistant') {
-      out.pop();
-      continue;
+  // Reliability fallback: if the model "says" it will check but forgets tool_calls,
+  // synthesize a checkDomains tool call from the user's message.
+  if (functionCalls.length === 0 && opts.autoCall !== false) {
+    const autoArgs = shouldAutoCallDomainTool(request.messages, assistantText, FEATURED_TLDS);
+    if (autoArgs && Array.isArray(autoArgs.names) && autoArgs.names.length > 0) {
+      functionCalls.push({ id: generateToolCallId(), name: 'checkDomains', args: autoArgs as any });
     }
-    break;
   }
-  return out;
-};
 
-const parseMistralToolCalls = (toolCalls: any[]): Array<{ id: string; name: string; args: Record<string, any> }> => {
-  if (!Array.isArray(toolCalls)) return [];
+  return {
+    text: assistantText,
+    functionCalls,
+    ...(usage ? { usage } : {})
+  };
+};
 
-  return toolCalls
-    .filter(tc => tc?.type === 'function')
-    .map(tc => {
-      let args: any = {};
-      try {
-        args = tc?.function?.arguments ? JSON.parse(tc.function.arguments) : {};
-      } catch {
-        args = {};
-      }
-      return {
-        id: String(tc?.id ?? ''),
-        name: String(tc?.function?.name ?? ''),
-        args
-      };
-    })
-    .filter(fc => Boolean(fc.id) && Boolean(fc.name));
+type ToolLoopHandlers = {
+  onToolStart?: (call: { step: number; id: string; name: string; args: Record<string, any> }) => void;
+  onToolResult?: (invocation: ToolInvocation) => void;
 };
 
-export const buildChatResponse = async (
-  body: any,
-  env: Record<string, string | undefined> = process.env
-): Promise<{ status: number; json: ChatBackendResponse | { error: string } }> => {
-  const apiKey = sanitizeEnvValue(env.MISTRAL_API_KEY);
-  const model = sanitizeEnvValue(env.MISTRAL_MODEL) || 'mistral-small-latest';
+/**
+ * Server-side tool loop: runs the model's tool calls through the registry, appends them to
+ * the conversation and asks again, until the model answers without tools or the step limit
+ * is reached, or the reply's cost reaches the budget. `round` produces one model reply (plain
+ * or streamed). The answer's text joins every round's text; `toolTrace` lists the invocations
+ * in order and `usage` adds up all rounds.
+ */
+const runToolLoop = async (
+  request: ChatRequest,
+  round: (request: ChatRequest, step: number) => Promise<ChatBackendResponse>,
+  handlers: ToolLoopHandlers = {}
+): Promise<ChatBackendResponse> => {
+  const { registry, context, maxSteps, budgetUsd } = request.toolLoop!;
+  const trace: ToolInvocation[] = [];
+  const texts: string[] = [];
+  let messages = request.messages;
+  let usage: TokenUsage | undefined;
+  const answer = (extra: Partial<ChatBackendResponse> = {}): ChatBackendResponse => ({
+    text: texts.join('\n\n'),
+    functionCalls: [],
+    toolTrace: trace,
+    ...(usage ? { usage } : {}),
+    ...extra
+  });
 
-  if (!apiKey) {
-    return { status: 500, json: { error: 'Server configuration error: Missing MISTRAL_API_KEY' } };
-  }
+  for (let step = 0; step < maxSteps; step += 1) {
+    const reply = await round({ ...request, messages }, step);
+    usage = addUsage(usage, reply.usage);
+    if (reply.text.trim()) texts.push(reply.text.trim());
+    const calls = reply.functionCalls ?? [];
+    if (calls.length === 0) return answer();
+    // Tool results need another round, which resends everything this one did and so costs at
+    // least as much: stop before it (and before running the tools) when that would pass the budget.
+    const projectedUsd = (usage?.costUsd ?? 0) + (reply.usage?.costUsd ?? 0);
+    if (budgetUsd != null && projectedUsd > budgetUsd) return answer({ budgetExceeded: true });
 
-  const { messages, systemInstruction } = body || {};
-  if (!Array.isArray(messages) || messages.length === 0) {
-    return { status: 400, json: { error: 'No messages provided' } };
+    const invocations = await Promise.all(
+      calls.map(async call => {
+        handlers.onToolStart?.({ step, id: call.id, name: call.name, args: call.args });
+        const invocation = await registry.run(call, context, step);
+        handlers.onToolResult?.(invocation);
+        return invocation;
+      })
+    );
+    trace.push(...invocations);
+    messages = [
+      ...messages,
+      {
+        id: `tool-step-${step}`,
+        role: Role.MODEL,
+        text: reply.text,
+        toolCalls: calls,
+        toolResponses: invocations.map(({ id, name, args, result }) => ({ id, name, args, result }))
+      }
+    ];
   }
+  return answer({ stepLimitReached: true });
+};
 
-  const mappedMessages = mapMessagesToMistral(messages as Message[], systemInstruction);
-  const safeMessages = ensureMistralValidMessageOrder(mappedMessages);
-
-  if (safeMessages.length === 0) {
-    return { status: 400, json: { error: 'Invalid message sequence for Mistral (no user/tool message).' } };
+/**
+ * `POST /api/chat`. By default the reply's `functionCalls` are returned for the client to
+ * run; with `runTools: true` (plus optional `maxSteps`, `tlds`, `competitors`, `force`,
+ * `budgetUsd`) the server runs them and answers with the final text and a `toolTrace`.
+ * Replies carry the priced `usage` of their model calls when the provider reports it.
+ */
+export const buildChatResponse = async (
+  body: any,
+  env: Record<string, string | undefined> = process.env,
+  opts: { provider?: LLMProvider } = {}
+): Promise<{
+  status: number;
+  json: ChatBackendResponse | { error: string; code?: ApiErrorCode; retryAfterMs?: number; fields?: FieldError[] };
+}> => {
+  const request = parseChatRequest(body, env, opts.provider);
+  if ('error' in request) {
+    const { status, ...json } = request;
+    return { status, json };
   }
 
-  const lastRole = safeMessages[safeMessages.length - 1]?.role;
-  if (lastRole !== 'user' && lastRole !== 'tool') {
-    return {
-      status: 400,
-      json: {
-        error: `Invalid message order for Mistral: last role must be user or tool, got ${String(lastRole)}.`
-      }
-    };
+  const round = async (req: ChatRequest, step: number) =>
+    finalizeReply(req, await req.provider.complete(llmRequest(req)), { autoCall: step === 0 });
+  try {
+    return { status: 200, json: request.toolLoop ? await runToolLoop(request, round) : await round(request, 0) };
+  } catch (error: any) {
+    if (error instanceof LLMProviderError) return { status: error.status, json: llmErrorBody(error) };
+    throw error;
   }
+};
 
-  const callMistral = async (opts?: { toolChoice?: 'auto' | 'any'; temperature?: number }) => {
-    const res = await fetch('https://api.mistral.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model,
-        messages: safeMessages,
-        tools: [checkDomainsTool],
-        tool_choice: opts?.toolChoice ?? 'auto',
-        temperature: opts?.temperature ?? 0.9
-      })
-    });
-    return res;
+/**
+ * Streaming variant of `/api/chat` (request body `stream: true`), as Server-Sent Events:
+ * - `text`: `{ delta }`, a piece of the assistant's text
+ * - `tool_call`: `{ index, id?, name?, arguments? }`, a piece of a tool call
+ * - `tool_start` / `tool_result` (with `runTools: true`): `{ step, id, name, args }` when the
+ *   server starts a tool, then the finished `ToolInvocation`
+ * - `done`: the complete `{ text, functionCalls, toolTrace?, usage? }`, same as the JSON endpoint
+ *   (retry and fallback tool calls included)
+ * - `retry`: an `LLMRetryNotice` (`{ code, attempt, delayMs, message }`) before the server
+ *   waits to retry a rate-limited or failed model call
+ * - `error`: `{ error, code?, retryAfterMs? }`, when the completion fails after the stream started
+ * Failures before the first event are answered with a JSON error and status instead.
+ */
+export const writeChatStream = async (
+  body: any,
+  env: Record<string, string | undefined>,
+  res: StreamingResponse,
+  opts: { provider?: LLMProvider } = {}
+): Promise<void> => {
+  const fail = (status: number, body: { error: string }) => {
+    res.statusCode = status;
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
   };
 
-  const mistralRes = await callMistral();
-
-  if (!mistralRes.ok) {
-    const text = await mistralRes.text().catch(() => '');
-    const status = mistralRes.status;
-    return {
-      status,
-      json: {
-        error:
-          status === 401 || status === 403
-            ? 'Mistral authentication failed. Check MISTRAL_API_KEY.'
-            : `Mistral API error (${status}). ${text || ''}`.trim()
-      }
-    };
+  const request = parseChatRequest(body, env, opts.provider);
+  if ('error' in request) {
+    const { status, ...json } = request;
+    return fail(status, json);
   }
 
-  const data: any = await mistralRes.json();
-  let msg = data?.choices?.[0]?.message;
-  let assistantText: string = msg?.content ?? '';
-  let functionCalls = parseMistralToolCalls(msg?.tool_calls ?? []);
+  let started = false;
+  const send = (event: string, data: unknown) => {
+    if (!started) {
+      started = true;
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+    }
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
 
-  // Reliability retry: sometimes the model returns an empty assistant message with no tool calls.
-  // That forces the client into extra "nudge" generations. Retry once with a stronger tool bias.
-  if (String(assistantText || '').trim() === '' && functionCalls.length === 0) {
-    const retryRes = await callMistral({ toolChoice: 'any', temperature: 0.2 }).catch(() => null as any);
-    if (retryRes && retryRes.ok) {
-      const retryData: any = await retryRes.json().catch(() => null);
-      const retryMsg = retryData?.choices?.[0]?.message;
-      const retryText: string = retryMsg?.content ?? '';
-      const retryCalls = parseMistralToolCalls(retryMsg?.tool_calls ?? []);
-      if (String(retryText || '').trim() !== '' || retryCalls.length > 0) {
-        msg = retryMsg;
-        assistantText = retryText;
-        functionCalls = retryCalls;
+  let sentText = false;
+  const round = async (req: ChatRequest, step: number) => {
+    const events: LLMStreamEvent[] = [];
+    let separated = step === 0 || !sentText;
+    for await (const event of req.provider.stream(llmRequest(req), { onRetry: notice => send('retry', notice) })) {
+      events.push(event);
+      if (event.type === 'text') {
+        // Later rounds continue the same answer after a blank line.
+        if (!separated && event.delta.trim()) {
+          send('text', { delta: '\n\n' });
+          separated = true;
+        }
+        send('text', { delta: event.delta });
+        sentText = sentText || Boolean(event.delta.trim());
+      } else if (event.type === 'tool_call') {
+        send('tool_call', { index: event.index, id: event.id, name: event.name, arguments: event.arguments });
       }
     }
-  }
+    return finalizeReply(req, collectStreamEvents(events), { autoCall: step === 0 });
+  };
 
-  // Reliability fallback: if the model "says" it will check but forgets tool_calls,
-  // synthesize a checkDomains tool call from the user's message.
-  if (functionCalls.length === 0) {
-    const autoArgs = shouldAutoCallDomainTool(messages as Message[], assistantText, AVAILABLE_TLDS);
-    if (autoArgs && Array.isArray(autoArgs.names) && autoArgs.names.length > 0) {
-      functionCalls.push({ id: generateToolCallId(), name: 'checkDomains', args: autoArgs as any });
-    }
+  try {
+    const reply = request.toolLoop
+      ? await runToolLoop(request, round, {
+          onToolStart: call => send('tool_start', call),
+          onToolResult: invocation => send('tool_result', invocation)
+        })
+      : await round(request, 0);
+    send('done', reply);
+  } catch (error: any) {
+    const status = error instanceof LLMProviderError ? error.status : 500;
+    const body = error instanceof LLMProviderError ? llmErrorBody(error) : { error: error?.message || 'Internal Server Error' };
+    if (!started) return fail(status, body);
+    send('error', body);
   }
-
-  return {
-    status: 200,
-    json: {
-      text: assistantText,
-      functionCalls
-    }
-  };
+  res.end();
 };
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+
+import { Role } from '../types';
+import { createMockProvider } from './llmProviders';
+import { parseNameCandidates, requestNameCandidates, validateNameCandidates } from './nameCandidates';
+
+const reply = (candidates: unknown[]) => JSON.stringify({ candidates });
+const zenly = { name: 'Zenly', rationale: 'Calm and short.', style: 'invented', origin: 'invented' };
+
+describe('validateNameCandidates', () => {
+  it('repairs fields and drops entries without a usable name', () => {
+    const { candidates, errors } = validateNameCandidates({
+      candidates: [
+        { ...zenly, name: 'Zenly.ai', style: 'Whimsical', rationale: '  Calm\n and   short. ' },
+        { ...zenly, name: 'zenly' },
+        { rationale: 'No name at all', style: 'other', origin: 'English' },
+        { ...zenly, name: '!!!' },
+        'brightly'
+      ]
+    });
+
+    expect(candidates).toEqual([{ name: 'zenly', rationale: 'Calm and short.', style: 'other', origin: 'invented' }]);
+    expect(errors).toEqual([
+      'candidates[0].style: expected one of invented, compound, descriptive, metaphor, playful, other',
+      'candidates[2].name: missing',
+      'candidates[3].name: "!!!" is not a usable base name',
+      'candidates[4]: expected an object'
+    ]);
+  });
+
+  it('accepts a bare array but reports it', () => {
+    const { candidates, errors } = validateNameCandidates([zenly]);
+    expect(candidates).toHaveLength(1);
+    expect(errors).toEqual(['expected an object with a "candidates" array, got a bare array']);
+  });
+});
+
+describe('parseNameCandidates', () => {
+  it('tolerates a json code fence and rejects prose', () => {
+    expect(parseNameCandidates('```json\n' + reply([zenly]) + '\n```').candidates).toHaveLength(1);
+    expect(parseNameCandidates('Here are some names: Zenly, Brightly')).toEqual({
+      candidates: [],
+      errors: ['reply is not valid JSON']
+    });
+  });
+});
+
+describe('requestNameCandidates', () => {
+  const request = {
+    messages: [{ id: 'u1', role: Role.USER, text: 'names for a meditation app' }],
+    systemInstruction: 'Suggest names.'
+  };
+  const usage = { promptTokens: 100, completionTokens: 50, totalTokens: 150, costUsd: 0.01, calls: 1 };
+
+  it('asks for the structured format and returns the first usable batch', async () => {
+    const provider = createMockProvider([{ text: reply([zenly]), usage }]);
+    const result = await requestNameCandidates(provider, request);
+    expect(result).toMatchObject({ candidates: [{ name: 'zenly' }], errors: [], usage });
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0].responseFormat?.name).toBe('name_candidates');
+  });
+
+  it('sends one repair round with the violations and adds up its usage', async () => {
+    const provider = createMockProvider([
+      { text: 'Zenly, Brightly', usage },
+      { text: reply([zenly]), usage }
+    ]);
+    const result = await requestNameCandidates(provider, request);
+
+    expect(result.candidates.map(c => c.name)).toEqual(['zenly']);
+    expect(result.usage).toMatchObject({ calls: 2, totalTokens: 300 });
+    const repair = provider.calls[1].messages;
+    expect(repair[repair.length - 1].text).toContain('(reply is not valid JSON)');
+  });
+
+  it('gives up after the repair round with every error', async () => {
+    const provider = createMockProvider([{ text: 'Zenly' }, { text: reply([]) }]);
+    const result = await requestNameCandidates(provider, request);
+    expect(result.candidates).toEqual([]);
+    expect(result.errors).toEqual(['reply is not valid JSON', 'no usable candidates']);
+    expect(provider.calls).toHaveLength(2);
+  });
+});
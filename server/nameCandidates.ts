@@ -0,0 +1,148 @@
+import { Message, NameCandidate, NameStyle, Role, TokenUsage } from '../types';
+import { normalizeBaseName } from '../services/domainNames';
+import { addUsage } from '../services/usage';
+import { LLMProvider, LLMResponseFormat } from './llmProviders';
+
+export const NAME_STYLES: NameStyle[] = ['invented', 'compound', 'descriptive', 'metaphor', 'playful', 'other'];
+
+const MAX_RATIONALE_LENGTH = 240;
+const MAX_ORIGIN_LENGTH = 40;
+const MAX_CANDIDATES = 80;
+
+// Strict mode (OpenAI, Mistral) wants every property required and no extra ones.
+export const NAME_CANDIDATES_FORMAT: LLMResponseFormat = {
+  name: 'name_candidates',
+  schema: {
+    type: 'object',
+    properties: {
+      candidates: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Base name only: no TLD, no spaces' },
+            rationale: { type: 'string', description: 'One sentence on why the name fits the brief' },
+            style: { type: 'string', enum: NAME_STYLES },
+            origin: { type: 'string', description: 'Language the name comes from, e.g. "Latin", or "invented"' }
+          },
+          required: ['name', 'rationale', 'style', 'origin'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['candidates'],
+    additionalProperties: false
+  }
+};
+
+export type NameCandidateValidation = {
+  candidates: NameCandidate[];
+  // One entry per schema violation (repaired or dropped), e.g. `candidates[2].name: missing`.
+  errors: string[];
+  // Tokens and cost of the model calls behind the batch (repair round included).
+  usage?: TokenUsage;
+};
+
+const cleanText = (value: unknown, max: number): string => String(value ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+
+/**
+ * Checks a parsed reply against `NAME_CANDIDATES_FORMAT`. Entries without a usable name are
+ * dropped (as are repeats); other fields are repaired: text is trimmed and capped, unknown
+ * styles become "other". Every violation is listed in `errors`.
+ */
+export const validateNameCandidates = (value: unknown): NameCandidateValidation => {
+  const errors: string[] = [];
+  let items: unknown = (value as any)?.candidates;
+  if (Array.isArray(value)) {
+    errors.push('expected an object with a "candidates" array, got a bare array');
+    items = value;
+  } else if (!Array.isArray(items)) {
+    return { candidates: [], errors: ['expected an object with a "candidates" array'] };
+  }
+
+  const candidates: NameCandidate[] = [];
+  const seen = new Set<string>();
+  for (const [i, item] of (items as unknown[]).entries()) {
+    const at = `candidates[${i}]`;
+    if (!item || typeof item !== 'object') {
+      errors.push(`${at}: expected an object`);
+      continue;
+    }
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.name !== 'string' || !raw.name.trim()) {
+      errors.push(`${at}.name: missing`);
+      continue;
+    }
+    // "Zenly.ai" -> "zenly"; the model sometimes appends a TLD despite the schema.
+    const name = normalizeBaseName(raw.name.trim().split('.')[0]);
+    if (!name) {
+      errors.push(`${at}.name: "${raw.name}" is not a usable base name`);
+      continue;
+    }
+    if (seen.has(name)) continue;
+    seen.add(name);
+
+    if (typeof raw.rationale !== 'string' || !raw.rationale.trim()) errors.push(`${at}.rationale: missing`);
+    const style = NAME_STYLES.find(s => s === String(raw.style ?? '').trim().toLowerCase());
+    if (!style) errors.push(`${at}.style: expected one of ${NAME_STYLES.join(', ')}`);
+    if (typeof raw.origin !== 'string' || !raw.origin.trim()) errors.push(`${at}.origin: missing`);
+
+    candidates.push({
+      name,
+      rationale: cleanText(raw.rationale, MAX_RATIONALE_LENGTH),
+      style: style ?? 'other',
+      origin: cleanText(raw.origin, MAX_ORIGIN_LENGTH)
+    });
+    if (candidates.length >= MAX_CANDIDATES) break;
+  }
+  if (candidates.length === 0) errors.push('no usable candidates');
+  return { candidates, errors };
+};
+
+/** Parses a structured reply (the whole text must be JSON; a ```json fence is tolerated). */
+export const parseNameCandidates = (text: string): NameCandidateValidation => {
+  const body = String(text || '').trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, '$1');
+  try {
+    return validateNameCandidates(JSON.parse(body));
+  } catch {
+    return { candidates: [], errors: ['reply is not valid JSON'] };
+  }
+};
+
+/**
+ * Asks the model for a batch of candidates as structured output. A reply without any
+ * usable candidate is sent back once with the violations to fix; if the retry fails too,
+ * the result is empty and `errors` says why. `usage` covers both calls. Provider failures are thrown.
+ */
+export const requestNameCandidates = async (
+  provider: LLMProvider,
+  request: { messages: Message[]; systemInstruction: string; temperature?: number }
+): Promise<NameCandidateValidation> => {
+  const ask = (messages: Message[]) =>
+    provider.complete({
+      messages,
+      systemInstruction: request.systemInstruction,
+      tools: [],
+      responseFormat: NAME_CANDIDATES_FORMAT,
+      temperature: request.temperature ?? 0.9
+    });
+
+  const reply = await ask(request.messages);
+  const first = parseNameCandidates(reply.text);
+  if (first.candidates.length > 0) return { ...first, usage: reply.usage };
+
+  const retry = await ask([
+    ...request.messages,
+    { id: 'candidates-reply', role: Role.MODEL, text: reply.text },
+    {
+      id: 'candidates-repair',
+      role: Role.USER,
+      text: `Your reply did not match the required JSON schema (${first.errors.slice(0, 5).join('; ')}). Answer again with the JSON object only.`
+    }
+  ]);
+  const repaired = parseNameCandidates(retry.text);
+  const usage = addUsage(reply.usage, retry.usage);
+  return repaired.candidates.length > 0
+    ? { ...repaired, usage }
+    : { candidates: [], errors: [...first.errors, ...repaired.errors], usage };
+};
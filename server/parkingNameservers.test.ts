@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { DomainAvailabilityProvider } from './availabilityProviders';
+import { checkDomainAvailability } from './domainCheck';
+import { matchParkingService } from './parkingNameservers';
+
+describe('matchParkingService', () => {
+  it('matches nameserver host suffixes, ignoring case and the trailing dot', () => {
+    expect(matchParkingService(['NS1.SedoParking.com.', 'ns2.sedoparking.com'])).toMatchObject({ name: 'Sedo', forSale: true });
+    expect(matchParkingService(['ns1.bodis.com'])).toMatchObject({ name: 'Bodis', forSale: false });
+  });
+
+  it('does not match look-alike hosts or ordinary DNS providers', () => {
+    expect(matchParkingService(['ns1.notsedoparking.com'])).toBeNull();
+    expect(matchParkingService(['ns-1.awsdns-01.org', 'ns1.cloudflare.com'])).toBeNull();
+    expect(matchParkingService([])).toBeNull();
+  });
+
+  it('prefers a marketplace over an ad network', () => {
+    expect(matchParkingService(['ns1.bodis.com', 'ns1.afternic.com'])?.name).toBe('Afternic');
+  });
+});
+
+describe('checkDomainAvailability parking detection', () => {
+  const takenWithout: DomainAvailabilityProvider = {
+    name: 'fake',
+    lookup: async () => ({ status: 'taken', confidence: 0.99, signals: { source: 'rdap', rdap: 'registered' } })
+  };
+
+  it('looks up nameservers the provider did not report and flags parked names', async () => {
+    const looked: string[] = [];
+    const result = await checkDomainAvailability('namer', '.com', {
+      provider: takenWithout,
+      nameserverLookup: async domain => {
+        looked.push(domain);
+        return ['ns1.dan.com', 'ns2.dan.com'];
+      }
+    });
+
+    expect(looked).toEqual(['namer.com']);
+    expect(result).toMatchObject({ status: 'taken', parked: true, forSale: true, parkingService: 'Dan.com' });
+    expect(result.signals.nameservers).toEqual(['ns1.dan.com', 'ns2.dan.com']);
+  });
+
+  it('leaves the verdict alone when the nameserver lookup fails', async () => {
+    const result = await checkDomainAvailability('namer', '.com', {
+      provider: takenWithout,
+      nameserverLookup: async () => {
+        throw new Error('DoH unavailable');
+      }
+    });
+    expect(result.status).toBe('taken');
+    expect(result).not.toHaveProperty('parked');
+  });
+});
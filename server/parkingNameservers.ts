@@ -0,0 +1,47 @@
+// Nameservers of domain parking services and aftermarket marketplaces. A taken domain
+// delegated to one of them usually shows ads or a "buy this domain" page.
+
+export type ParkingService = {
+  name: string;
+  // Nameserver host suffixes ("sedoparking.com" matches "ns1.sedoparking.com").
+  nameservers: string[];
+  // Marketplaces list their parked names for sale; ad-parking networks may not.
+  forSale: boolean;
+};
+
+export const PARKING_SERVICES: ParkingService[] = [
+  { name: 'Sedo', nameservers: ['sedoparking.com'], forSale: true },
+  { name: 'Afternic', nameservers: ['afternic.com'], forSale: true },
+  { name: 'Dan.com', nameservers: ['dan.com'], forSale: true },
+  { name: 'HugeDomains', nameservers: ['hugedomains.com'], forSale: true },
+  { name: 'Undeveloped', nameservers: ['undeveloped.com'], forSale: true },
+  { name: 'Uniregistry Market', nameservers: ['uniregistrymarket.link'], forSale: true },
+  { name: 'BuyDomains', nameservers: ['buydomains.com'], forSale: true },
+  { name: 'ParkingCrew', nameservers: ['parkingcrew.net'], forSale: false },
+  { name: 'Bodis', nameservers: ['bodis.com'], forSale: false },
+  { name: 'Above.com', nameservers: ['above.com'], forSale: false },
+  { name: 'Fabulous', nameservers: ['fabulous.com'], forSale: false },
+  { name: 'NameDrive', nameservers: ['namedrive.com'], forSale: false },
+  { name: 'Voodoo', nameservers: ['voodoo.com'], forSale: false },
+  { name: 'InternetTraffic', nameservers: ['internettraffic.com'], forSale: false },
+  { name: 'Skenzo', nameservers: ['skenzo.com'], forSale: false },
+  { name: 'ParkLogic', nameservers: ['parklogic.com'], forSale: false },
+  { name: 'NameBright', nameservers: ['namebrightdns.com'], forSale: false }
+];
+
+const matchesSuffix = (host: string, suffix: string): boolean => host === suffix || host.endsWith(`.${suffix}`);
+
+/**
+ * Finds the parking service a domain is delegated to, if any. Marketplaces win over ad
+ * networks when the nameservers point to both.
+ */
+export const matchParkingService = (
+  nameservers: string[],
+  services: ParkingService[] = PARKING_SERVICES
+): ParkingService | null => {
+  const hosts = (nameservers || []).map(ns => String(ns || '').trim().toLowerCase().replace(/\.$/, '')).filter(Boolean);
+  const matches = services.filter(service =>
+    hosts.some(host => service.nameservers.some(suffix => matchesSuffix(host, suffix)))
+  );
+  return matches.find(service => service.forSale) ?? matches[0] ?? null;
+};
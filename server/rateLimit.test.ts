@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { createMemoryRateLimitStore } from './rateLimit';
+
+const policy = { capacity: 1, refillPerSecond: 1 / 60 };
+
+describe('createMemoryRateLimitStore', () => {
+  it('never holds more than maxKeys buckets, dropping the least recently used', async () => {
+    const store = createMemoryRateLimitStore({ maxKeys: 2 });
+    await store.consume([{ key: 'a', policy }], 0);
+    await store.consume([{ key: 'b', policy }], 0);
+    // `a` is used again, so `b` is the one dropped for `c`.
+    expect((await store.consume([{ key: 'a', policy }], 0)).allowed).toBe(false);
+    await store.consume([{ key: 'c', policy }], 0);
+    expect((await store.consume([{ key: 'b', policy }], 0)).allowed).toBe(true);
+    expect((await store.consume([{ key: 'a', policy }], 0)).allowed).toBe(true);
+  });
+
+  it('refills each bucket with its own policy', async () => {
+    const store = createMemoryRateLimitStore();
+    const fast = { capacity: 1, refillPerSecond: 1 };
+    await store.consume([{ key: 'slow', policy }, { key: 'fast', policy: fast }], 0);
+    expect(await store.consume([{ key: 'fast', policy: fast }], 1000)).toMatchObject({ allowed: true });
+    expect(await store.consume([{ key: 'slow', policy }, { key: 'fast', policy: fast }], 2000)).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 58_000
+    });
+  });
+});
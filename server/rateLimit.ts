@@ -0,0 +1,66 @@
+// Token-bucket rate limiting behind a small store interface, so several server instances
+// can share buckets (e.g. through Redis) while a single process uses memory.
+
+export type TokenBucketPolicy = {
+  capacity: number; // burst size
+  refillPerSecond: number;
+};
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  remaining: number; // whole tokens left after this request
+  retryAfterMs: number; // 0 when allowed, else until one token is back
+};
+
+export type RateLimitBucket = { key: string; policy: TokenBucketPolicy };
+
+export type RateLimitStore = {
+  // Takes one token from every bucket when each has one, and none otherwise, so a request
+  // refused by one bucket does not drain the others. Must be atomic across the keys.
+  consume: (buckets: RateLimitBucket[], now: number) => Promise<RateLimitDecision>;
+};
+
+// The policy is kept with its bucket: buckets of different endpoints share the store.
+type Bucket = { tokens: number; updatedAt: number; policy: TokenBucketPolicy };
+
+const refill = (bucket: Bucket, now: number): number =>
+  Math.min(bucket.policy.capacity, bucket.tokens + (Math.max(0, now - bucket.updatedAt) / 1000) * bucket.policy.refillPerSecond);
+
+/**
+ * Default store: buckets in a Map kept in least-recently-used order, never more than
+ * `maxKeys` of them. The oldest bucket is dropped for a new one, which at worst gives an
+ * idle client a full bucket again.
+ */
+export const createMemoryRateLimitStore = (opts: { maxKeys?: number } = {}): RateLimitStore => {
+  const maxKeys = Math.max(1, opts.maxKeys ?? 10_000);
+  const buckets = new Map<string, Bucket>();
+
+  const touch = (key: string, bucket: Bucket) => {
+    buckets.delete(key);
+    buckets.set(key, bucket);
+    while (buckets.size > maxKeys) buckets.delete(buckets.keys().next().value);
+  };
+
+  return {
+    consume: async (requested, now) => {
+      const current = requested.map(({ key, policy }) => {
+        const stored = buckets.get(key);
+        // The current policy applies; a stored bucket keeps its tokens.
+        const bucket = { tokens: stored?.tokens ?? policy.capacity, updatedAt: stored?.updatedAt ?? now, policy };
+        return { key, bucket, tokens: refill(bucket, now) };
+      });
+      const allowed = current.every(c => c.tokens >= 1);
+      for (const { key, bucket, tokens } of current) {
+        touch(key, { ...bucket, tokens: allowed ? tokens - 1 : tokens, updatedAt: now });
+      }
+      if (current.length === 0) return { allowed: true, remaining: Infinity, retryAfterMs: 0 };
+      return {
+        allowed,
+        remaining: Math.floor(Math.min(...current.map(c => (allowed ? c.tokens - 1 : c.tokens)))),
+        retryAfterMs: allowed
+          ? 0
+          : Math.max(...current.map(c => (c.tokens >= 1 ? 0 : Math.ceil(((1 - c.tokens) / c.bucket.policy.refillPerSecond) * 1000))))
+      };
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { createRdapClient } from './availabilityProviders';
+import { lookupRegistrationDetails, parseRdapRegistration } from './registrationDetails';
+
+// Trimmed from a real RDAP domain object (Verisign).
+const rdapDomain = {
+  objectClassName: 'domain',
+  ldhName: 'NAMER.COM',
+  status: ['client transfer prohibited', 'client delete prohibited'],
+  events: [
+    { eventAction: 'registration', eventDate: '2004-03-11T17:41:32Z' },
+    { eventAction: 'expiration', eventDate: '2027-03-11T17:41:32Z' },
+    { eventAction: 'last changed', eventDate: '2025-02-09T09:12:01Z' }
+  ],
+  entities: [
+    { objectClassName: 'entity', handle: '9999', roles: ['abuse'] },
+    {
+      objectClassName: 'entity',
+      handle: '292',
+      roles: ['registrar'],
+      vcardArray: ['vcard', [['version', {}, 'text', '4.0'], ['fn', {}, 'text', 'MarkMonitor Inc.']]]
+    }
+  ],
+  nameservers: [{ ldhName: 'NS1.EXAMPLE-DNS.COM' }, { ldhName: 'ns2.example-dns.com.' }]
+};
+
+describe('parseRdapRegistration', () => {
+  it('reads the registrar, lifecycle dates, status codes and nameservers', () => {
+    expect(parseRdapRegistration(rdapDomain, '2026-10-19T12:00:00.000Z')).toEqual({
+      registrar: 'MarkMonitor Inc.',
+      createdAt: '2004-03-11T17:41:32Z',
+      updatedAt: '2025-02-09T09:12:01Z',
+      expiresAt: '2027-03-11T17:41:32Z',
+      statuses: ['client transfer prohibited', 'client delete prohibited'],
+      nameservers: ['ns1.example-dns.com', 'ns2.example-dns.com'],
+      fetchedAt: '2026-10-19T12:00:00.000Z'
+    });
+  });
+
+  it('falls back to the registrar handle without a vCard name', () => {
+    const data = { ...rdapDomain, entities: [{ handle: '1068', roles: ['registrar'] }] };
+    expect(parseRdapRegistration(data).registrar).toBe('1068');
+  });
+});
+
+describe('lookupRegistrationDetails', () => {
+  const client = (responses: Record<string, Response>) =>
+    createRdapClient({
+      bootstrap: { services: [[['com'], ['https://rdap.example/']]] },
+      fetchImpl: vi.fn(async (url: string) => responses[url] ?? new Response(null, { status: 404 }))
+    });
+
+  it('returns the parsed record', async () => {
+    const details = await lookupRegistrationDetails('namer.com', '.com', {
+      client: client({ 'https://rdap.example/domain/namer.com': Response.json(rdapDomain) })
+    });
+    expect(details).toMatchObject({ registrar: 'MarkMonitor Inc.', expiresAt: '2027-03-11T17:41:32Z' });
+    expect(details).not.toHaveProperty('error');
+  });
+
+  it('reports failures as details with an error', async () => {
+    const lookup = (domain: string, tld: string, responses: Record<string, Response> = {}) =>
+      lookupRegistrationDetails(domain, tld, { client: client(responses) }).then(d => d.error);
+
+    expect(await lookup('free.com', '.com')).toBe('The registry has no record for this domain');
+    expect(await lookup('busy.com', '.com', { 'https://rdap.example/domain/busy.com': new Response('', { status: 503 }) })).toBe(
+      'The registry lookup failed (HTTP 503)'
+    );
+    expect(await lookup('namer.zz', '.zz')).toBe('The .zz registry does not publish registration data over RDAP');
+  });
+});
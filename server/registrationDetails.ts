@@ -0,0 +1,91 @@
+import { RegistrationDetails } from '../types';
+import { normalizeBaseName, normalizeTld } from '../services/domainNames';
+import { RdapClient, rdapNameservers, resolveRdapClient } from './availabilityProviders';
+import { withTimeout } from './concurrency';
+import { DEFAULT_DOMAIN_CHECK_TIMEOUT_MS, domainCheckTuningFromEnv } from './domainCheck';
+import { sanitizeEnvValue } from './env';
+
+// jCard (RFC 7095) "fn" property of an RDAP entity.
+const entityName = (entity: any): string | undefined => {
+  const props: any[] = Array.isArray(entity?.vcardArray?.[1]) ? entity.vcardArray[1] : [];
+  const fn = props.find(p => Array.isArray(p) && p[0] === 'fn');
+  const name = typeof fn?.[3] === 'string' ? fn[3].trim() : '';
+  return name || (typeof entity?.handle === 'string' ? entity.handle : undefined);
+};
+
+const eventDate = (data: any, action: string): string | undefined => {
+  const events: any[] = Array.isArray(data?.events) ? data.events : [];
+  const event = events.find(e => String(e?.eventAction || '').toLowerCase() === action);
+  return typeof event?.eventDate === 'string' ? event.eventDate : undefined;
+};
+
+/** Extracts registrar, lifecycle dates, status codes and nameservers from an RDAP domain object. */
+export const parseRdapRegistration = (data: any, fetchedAt = new Date().toISOString()): RegistrationDetails => {
+  const entities: any[] = Array.isArray(data?.entities) ? data.entities : [];
+  const registrar = entities.find(e => Array.isArray(e?.roles) && e.roles.includes('registrar'));
+  return {
+    registrar: registrar ? entityName(registrar) : undefined,
+    createdAt: eventDate(data, 'registration'),
+    updatedAt: eventDate(data, 'last changed'),
+    expiresAt: eventDate(data, 'expiration'),
+    statuses: Array.isArray(data?.status) ? data.status.map(String) : [],
+    nameservers: rdapNameservers(data),
+    fetchedAt
+  };
+};
+
+const failedDetails = (error: string): RegistrationDetails => ({
+  statuses: [],
+  nameservers: [],
+  fetchedAt: new Date().toISOString(),
+  error
+});
+
+/**
+ * Fetches the RDAP record of a registered domain. Never throws: failures come back as
+ * details with an `error` message the UI can show as-is.
+ */
+export const lookupRegistrationDetails = async (
+  domain: string,
+  tld: string,
+  opts: { client?: RdapClient; timeoutMs?: number } = {}
+): Promise<RegistrationDetails> => {
+  const client = opts.client ?? resolveRdapClient();
+  try {
+    return await withTimeout(async signal => {
+      const server = await client.serverFor(tld);
+      if (!server) return failedDetails(`The ${tld} registry does not publish registration data over RDAP`);
+
+      const res = await client.fetchDomain(server, domain, signal);
+      if (res.status === 404) return failedDetails('The registry has no record for this domain');
+      if (!res.ok) return failedDetails(`The registry lookup failed (HTTP ${res.status})`);
+      const data: any = await res.json().catch(() => null);
+      if (!data || (data.objectClassName !== 'domain' && !data.ldhName)) {
+        return failedDetails('The registry returned an unexpected response');
+      }
+      return parseRdapRegistration(data);
+    }, opts.timeoutMs ?? DEFAULT_DOMAIN_CHECK_TIMEOUT_MS);
+  } catch (error) {
+    console.error(`Error fetching registration details for ${domain}:`, error);
+    return failedDetails('The registry could not be reached');
+  }
+};
+
+/**
+ * `POST /api/domains/details` with `{ name, tld }`. Returns `RegistrationDetails`; lookup
+ * failures are reported in its `error` field (status 200), bad input as a 400.
+ */
+export const buildDomainDetailsResponse = async (
+  body: any,
+  env: Record<string, string | undefined> = process.env
+): Promise<{ status: number; json: RegistrationDetails | { error: string } }> => {
+  const name = normalizeBaseName(String(body?.name ?? ''));
+  const tld = normalizeTld(String(body?.tld ?? ''));
+  if (!name || !tld) return { status: 400, json: { error: 'A name and a tld are required' } };
+
+  const details = await lookupRegistrationDetails(`${name}${tld}`, tld, {
+    client: resolveRdapClient(sanitizeEnvValue(env.RDAP_BOOTSTRAP_URL)),
+    timeoutMs: domainCheckTuningFromEnv(env).timeoutMs
+  });
+  return { status: 200, json: details };
+};
@@ -0,0 +1,274 @@
+// Strict checks for request bodies and tool arguments. Validators collect every offending
+// field (`messages[2].role: expected one of user, model`) instead of stopping at
+// the first one, so a 400 can list them all.
+
+import { FieldError, HANDLE_PLATFORMS, HandlePlatform, Message, Role } from '../types';
+import { MAX_COMPETITOR_LENGTH, MAX_COMPETITORS } from '../services/brandSimilarity';
+import { normalizeTld } from '../services/domainNames';
+import { MAX_DOMAIN_CHECK_PAIRS } from './domainCheck';
+
+export type Validation<T> = { value: T; errors: FieldError[] };
+
+// Beyond this the list stops growing; the request is rejected either way.
+const MAX_FIELD_ERRORS = 20;
+// checkDomains arguments from the model: 50 names x 20 TLDs stays within MAX_DOMAIN_CHECK_PAIRS.
+export const MAX_TOOL_DOMAIN_NAMES = 50;
+export const MAX_TOOL_TLDS = 20;
+// The user's own TLD selection (body `tlds`) is only bounded by what one check can hold;
+// the checkDomains tool rejects name lists that would not fit with it.
+const MAX_SELECTED_TLDS = MAX_DOMAIN_CHECK_PAIRS;
+const MAX_NAME_LENGTH = 100;
+// A tool result sent back by the client, as JSON. The app sends compact results
+// (`prepareChatHistory`): ~150 characters per domain, ~250 with an IDN form or a reason,
+// so a checkDomains run of MAX_DOMAIN_CHECK_PAIRS fits.
+const MAX_COMPACT_RESULT_CHARS = 250;
+export const MAX_TOOL_RESULT_CHARS = MAX_DOMAIN_CHECK_PAIRS * MAX_COMPACT_RESULT_CHARS;
+
+// `system` messages only come from the server (its instruction); a client cannot send one.
+const CLIENT_ROLES: string[] = [Role.USER, Role.MODEL];
+const TOOL_DISPLAY_MODES = ['all', 'availableOnly'];
+const MESSAGE_KEYS = ['id', 'role', 'text', 'toolCalls', 'toolResponses', 'toolDisplayMode', 'isPending', 'isError'];
+const TOOL_CALL_KEYS = ['id', 'name', 'args', 'result'];
+// ASCII form after `normalizeTld`: dot-separated labels of letters, digits and inner hyphens.
+const TLD_PATTERN = /^(?:\.(?!-)[a-z0-9-]{2,63}(?<!-))+$/;
+
+const collector = () => {
+  const errors: FieldError[] = [];
+  const add = (field: string, message: string) => {
+    if (errors.length < MAX_FIELD_ERRORS) errors.push({ field, message });
+  };
+  return { errors, add };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const checkKeys = (value: Record<string, unknown>, allowed: string[], path: string, add: (f: string, m: string) => void) => {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) add(path ? `${path}.${key}` : key, 'unknown field');
+  }
+};
+
+const checkToolCalls = (value: unknown, path: string, add: (f: string, m: string) => void) => {
+  if (value === undefined) return;
+  if (!Array.isArray(value)) return add(path, 'expected an array');
+  value.forEach((call, i) => {
+    const at = `${path}[${i}]`;
+    if (!isPlainObject(call)) return add(at, 'expected an object');
+    checkKeys(call, TOOL_CALL_KEYS, at, add);
+    if (typeof call.id !== 'string' || !call.id.trim()) add(`${at}.id`, 'expected a non-empty string');
+    if (typeof call.name !== 'string' || !call.name.trim()) add(`${at}.name`, 'expected a non-empty string');
+    if (!isPlainObject(call.args)) add(`${at}.args`, 'expected an object');
+    if (call.result !== undefined && (JSON.stringify(call.result)?.length ?? 0) > MAX_TOOL_RESULT_CHARS) {
+      add(`${at}.result`, `longer than ${MAX_TOOL_RESULT_CHARS} characters as JSON`);
+    }
+  });
+};
+
+// Every tool response answers a tool call of the same message, by id and name.
+const checkToolPairs = (message: Record<string, unknown>, at: string, add: (f: string, m: string) => void) => {
+  if (!Array.isArray(message.toolResponses)) return;
+  const calls = new Map<unknown, unknown>(
+    (Array.isArray(message.toolCalls) ? message.toolCalls : []).map((call: any) => [call?.id, call?.name])
+  );
+  message.toolResponses.forEach((response: any, i) => {
+    if (!isPlainObject(response)) return;
+    if (!calls.has(response.id)) add(`${at}.toolResponses[${i}].id`, 'matches no toolCalls[].id of this message');
+    else if (calls.get(response.id) !== response.name) add(`${at}.toolResponses[${i}].name`, 'differs from the matching tool call');
+  });
+};
+
+/** A conversation as the client sends it: `Message`s with well-formed `ToolCallData`. */
+export const validateMessages = (value: unknown, path = 'messages', opts: { required?: boolean } = {}): Validation<Message[]> => {
+  const { errors, add } = collector();
+  if (value === undefined && !opts.required) return { value: [], errors };
+  if (!Array.isArray(value)) {
+    add(path, 'expected an array of messages');
+    return { value: [], errors };
+  }
+  if (opts.required && value.length === 0) add(path, 'at least one message is required');
+
+  value.forEach((message, i) => {
+    const at = `${path}[${i}]`;
+    if (!isPlainObject(message)) return add(at, 'expected an object');
+    checkKeys(message, MESSAGE_KEYS, at, add);
+    if (typeof message.id !== 'string' || !message.id.trim()) add(`${at}.id`, 'expected a non-empty string');
+    if (message.role === Role.SYSTEM) add(`${at}.role`, 'system messages cannot be sent by clients');
+    else if (!CLIENT_ROLES.includes(message.role as string)) add(`${at}.role`, `expected one of ${CLIENT_ROLES.join(', ')}`);
+    if (typeof message.text !== 'string') add(`${at}.text`, 'expected a string');
+    checkToolCalls(message.toolCalls, `${at}.toolCalls`, add);
+    checkToolCalls(message.toolResponses, `${at}.toolResponses`, add);
+    checkToolPairs(message, at, add);
+    if (message.toolDisplayMode !== undefined && !TOOL_DISPLAY_MODES.includes(message.toolDisplayMode as string)) {
+      add(`${at}.toolDisplayMode`, `expected one of ${TOOL_DISPLAY_MODES.join(', ')}`);
+    }
+    for (const flag of ['isPending', 'isError'] as const) {
+      if (message[flag] !== undefined && typeof message[flag] !== 'boolean') add(`${at}.${flag}`, 'expected a boolean');
+    }
+  });
+  return { value: errors.length === 0 ? (value as Message[]) : [], errors };
+};
+
+/** Optional list of TLDs (".com", "io", "рф"); returned in normalized ASCII form. */
+export const validateTldList = (value: unknown, path: string, max = MAX_TOOL_TLDS): Validation<string[] | undefined> => {
+  const { errors, add } = collector();
+  if (value === undefined || value === null) return { value: undefined, errors };
+  if (!Array.isArray(value)) {
+    add(path, 'expected an array of TLDs');
+    return { value: undefined, errors };
+  }
+  if (value.length > max) add(path, `at most ${max} TLDs`);
+  const tlds: string[] = [];
+  value.forEach((raw, i) => {
+    const tld = typeof raw === 'string' ? normalizeTld(raw) : null;
+    if (!tld || !TLD_PATTERN.test(tld)) return add(`${path}[${i}]`, 'expected a TLD like ".com"');
+    if (!tlds.includes(tld)) tlds.push(tld);
+  });
+  return { value: tlds, errors };
+};
+
+const validateStringList = (value: unknown, path: string, opts: { max: number; maxLength: number }): Validation<string[] | undefined> => {
+  const { errors, add } = collector();
+  if (value === undefined || value === null) return { value: undefined, errors };
+  if (!Array.isArray(value)) {
+    add(path, 'expected an array of strings');
+    return { value: undefined, errors };
+  }
+  if (value.length > opts.max) add(path, `at most ${opts.max} entries`);
+  value.forEach((item, i) => {
+    if (typeof item !== 'string' || !item.trim()) add(`${path}[${i}]`, 'expected a non-empty string');
+    else if (item.length > opts.maxLength) add(`${path}[${i}]`, `longer than ${opts.maxLength} characters`);
+  });
+  return { value: value as string[], errors };
+};
+
+/** Optional competitor names (chat and brainstorm bodies); returned trimmed. */
+export const validateCompetitorList = (value: unknown, path = 'competitors'): Validation<string[] | undefined> => {
+  const list = validateStringList(value, path, { max: MAX_COMPETITORS, maxLength: MAX_COMPETITOR_LENGTH });
+  return { value: list.errors.length === 0 ? list.value?.map(c => c.trim()) : undefined, errors: list.errors };
+};
+
+export type ChatRequestBody = {
+  messages: Message[];
+  systemInstruction?: string;
+  stream?: boolean;
+  runTools?: boolean;
+  maxSteps?: number;
+  tlds?: string[];
+  competitors?: string[];
+  force?: boolean;
+  budgetUsd?: number;
+};
+
+const CHAT_BODY_KEYS = ['messages', 'systemInstruction', 'stream', 'runTools', 'maxSteps', 'tlds', 'competitors', 'force', 'budgetUsd'];
+
+/** `POST /api/chat` body. Unknown fields are rejected, as are out-of-range options. */
+export const validateChatRequestBody = (body: unknown, opts: { maxSteps: number }): Validation<ChatRequestBody | null> => {
+  const { errors, add } = collector();
+  if (!isPlainObject(body)) {
+    add('body', 'expected a JSON object');
+    return { value: null, errors };
+  }
+  checkKeys(body, CHAT_BODY_KEYS, '', add);
+  const merge = (result: Validation<unknown>) => result.errors.forEach(e => add(e.field, e.message));
+
+  const messages = validateMessages(body.messages, 'messages', { required: true });
+  merge(messages);
+  if (body.systemInstruction !== undefined && typeof body.systemInstruction !== 'string') {
+    add('systemInstruction', 'expected a string');
+  }
+  for (const flag of ['stream', 'runTools', 'force'] as const) {
+    if (body[flag] !== undefined && typeof body[flag] !== 'boolean') add(flag, 'expected a boolean');
+  }
+  const maxSteps = body.maxSteps;
+  if (maxSteps !== undefined && !(Number.isInteger(maxSteps) && (maxSteps as number) >= 1 && (maxSteps as number) <= opts.maxSteps)) {
+    add('maxSteps', `expected an integer from 1 to ${opts.maxSteps}`);
+  }
+  const budgetUsd = body.budgetUsd;
+  if (budgetUsd !== undefined && !(typeof budgetUsd === 'number' && Number.isFinite(budgetUsd) && budgetUsd > 0)) {
+    add('budgetUsd', 'expected a positive number');
+  }
+  const tlds = validateTldList(body.tlds, 'tlds', MAX_SELECTED_TLDS);
+  merge(tlds);
+  const competitors = validateCompetitorList(body.competitors);
+  merge(competitors);
+
+  if (errors.length > 0) return { value: null, errors };
+  return {
+    value: {
+      ...(body as ChatRequestBody),
+      messages: messages.value,
+      tlds: tlds.value,
+      competitors: competitors.value
+    },
+    errors
+  };
+};
+
+// `args.names` of the checkDomains / checkHandles tools: 1..50 base names.
+const checkToolNames = (args: Record<string, unknown>, add: (f: string, m: string) => void) => {
+  if (!Array.isArray(args.names) || args.names.length === 0) {
+    add('args.names', 'expected a non-empty array of base names');
+  } else {
+    const names = validateStringList(args.names, 'args.names', { max: MAX_TOOL_DOMAIN_NAMES, maxLength: MAX_NAME_LENGTH });
+    names.errors.forEach(e => add(e.field, e.message));
+  }
+};
+
+/** Arguments of the `checkDomains` tool: 1..50 base names and optional TLDs. */
+export const validateCheckDomainsArgs = (args: unknown): Validation<{ names: string[]; tlds?: string[] } | null> => {
+  const { errors, add } = collector();
+  if (!isPlainObject(args)) {
+    add('args', 'expected an object');
+    return { value: null, errors };
+  }
+  checkKeys(args, ['names', 'tlds'], 'args', add);
+  checkToolNames(args, add);
+  const tlds = validateTldList(args.tlds, 'args.tlds');
+  tlds.errors.forEach(e => add(e.field, e.message));
+
+  if (errors.length > 0) return { value: null, errors };
+  return { value: { names: (args.names as string[]).map(n => n.trim()), ...(tlds.value?.length ? { tlds: tlds.value } : {}) }, errors };
+};
+
+/** Arguments of the `checkHandles` tool: 1..50 base names and optional platforms (npm, pypi, github). */
+export const validateCheckHandlesArgs = (
+  args: unknown
+): Validation<{ names: string[]; platforms?: HandlePlatform[] } | null> => {
+  const { errors, add } = collector();
+  if (!isPlainObject(args)) {
+    add('args', 'expected an object');
+    return { value: null, errors };
+  }
+  checkKeys(args, ['names', 'platforms'], 'args', add);
+  checkToolNames(args, add);
+  const platforms = args.platforms;
+  if (platforms !== undefined && platforms !== null) {
+    if (!Array.isArray(platforms)) add('args.platforms', 'expected an array of platforms');
+    else {
+      platforms.forEach((p, i) => {
+        if (!HANDLE_PLATFORMS.includes(p)) add(`args.platforms[${i}]`, `expected one of ${HANDLE_PLATFORMS.join(', ')}`);
+      });
+    }
+  }
+
+  if (errors.length > 0) return { value: null, errors };
+  const requested = Array.isArray(platforms) ? Array.from(new Set(platforms as HandlePlatform[])) : [];
+  return {
+    value: { names: (args.names as string[]).map(n => n.trim()), ...(requested.length ? { platforms: requested } : {}) },
+    errors
+  };
+};
+
+/** The structured 400 body: a summary plus every offending field. */
+export const invalidRequest = (
+  errors: FieldError[]
+): { status: 400; error: string; code: 'validation_failed'; fields: FieldError[] } => ({
+  status: 400,
+  error: `Invalid request: ${errors
+    .slice(0, 3)
+    .map(e => `${e.field} ${e.message}`)
+    .join('; ')}${errors.length > 3 ? ` (+${errors.length - 3} more)` : ''}`,
+  code: 'validation_failed',
+  fields: errors
+});
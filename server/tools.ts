@@ -0,0 +1,159 @@
+import { FieldError, Message, ToolCallData, ToolInvocation } from '../types';
+import { withSimilarBrands } from '../services/brandSimilarity';
+import { compactDomainCheckResults, compactHandleCheckResults } from '../services/chatHistory';
+import { checkDomainsOnServer, MAX_DOMAIN_CHECK_PAIRS } from './domainCheck';
+import { buildHandleCheckResponse } from './handleCheck';
+import { LLMTool } from './llmProviders';
+import { validateCheckDomainsArgs, validateCheckHandlesArgs } from './requestValidation';
+
+// Per-request settings the executors need besides the model's arguments.
+export type ToolContext = {
+  env: Record<string, string | undefined>;
+  // TLDs checked when the model does not pass any (the user's selection).
+  tlds: string[];
+  competitors?: string[];
+  // Skip cached availability ("recheck").
+  force?: boolean;
+};
+
+/** A tool the model can call: its name and JSON schema (sent to the model) and its executor. */
+export type RegisteredTool = {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+  // Offending argument fields; the executor only runs when there are none.
+  validate?: (args: Record<string, any>) => FieldError[];
+  execute: (args: Record<string, any>, context: ToolContext) => Promise<unknown>;
+  // Rebuilds a result the client sent back in its history from the known fields only, so a
+  // forged result cannot carry extra text to the model. Results of tools without it are dropped.
+  sanitizeResult?: (result: unknown) => unknown;
+};
+
+export type ToolRegistry = {
+  tools: RegisteredTool[];
+  // The tool list in the shape providers send to the model.
+  definitions: () => LLMTool[];
+  get: (name: string) => RegisteredTool | undefined;
+  // Runs one call; unknown tools, invalid arguments (`{ error, fields }`) and executor
+  // failures become error results the model can read.
+  run: (call: ToolCallData, context: ToolContext, step: number) => Promise<ToolInvocation>;
+  // The history with every tool response's result passed through its tool's `sanitizeResult`.
+  sanitizeMessages: (messages: Message[]) => Message[];
+};
+
+const UNAVAILABLE_RESULT = { error: 'result unavailable' };
+
+export const toLLMTool = (tool: RegisteredTool): LLMTool => ({
+  type: 'function',
+  function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+});
+
+export const createToolRegistry = (tools: RegisteredTool[]): ToolRegistry => {
+  const byName = new Map(tools.map(t => [t.name, t]));
+  return {
+    tools,
+    definitions: () => tools.map(toLLMTool),
+    get: name => byName.get(name),
+    run: async (call, context, step) => {
+      const started = Date.now();
+      const invocation = (result: unknown): ToolInvocation => ({
+        step,
+        id: call.id,
+        name: call.name,
+        args: call.args,
+        result,
+        durationMs: Date.now() - started
+      });
+      const tool = byName.get(call.name);
+      if (!tool) return invocation({ error: `Unknown tool: ${call.name}` });
+      const fields = tool.validate?.(call.args || {}) ?? [];
+      if (fields.length > 0) return invocation({ error: `Invalid arguments for ${call.name}`, fields });
+      try {
+        return invocation(await tool.execute(call.args || {}, context));
+      } catch (error: any) {
+        console.error(`Tool ${call.name} failed:`, error);
+        return invocation({ error: error?.message || `${call.name} failed` });
+      }
+    },
+    sanitizeMessages: messages =>
+      messages.map(m =>
+        m.toolResponses
+          ? {
+              ...m,
+              toolResponses: m.toolResponses.map(r => ({
+                ...r,
+                result: byName.get(r.name)?.sanitizeResult?.(r.result) ?? UNAVAILABLE_RESULT
+              }))
+            }
+          : m
+      )
+  };
+};
+
+export const checkDomainsTool: RegisteredTool = {
+  name: 'checkDomains',
+  description:
+    "Check the availability of domain names for specific base brand names. Use this whenever the user asks to check availability or when you generate a list of potential brand names.",
+  parameters: {
+    type: 'object',
+    properties: {
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+          "A list of base brand names to check (e.g. ['Spotify', 'Google']). Do not include the extension/TLD."
+      },
+      tlds: {
+        type: 'array',
+        items: { type: 'string' },
+        description:
+          "Optional: a list of TLDs to check (e.g. ['.com', '.io']). If omitted, the app will use the user-selected extensions."
+      }
+    },
+    required: ['names']
+  },
+  validate: args => validateCheckDomainsArgs(args).errors,
+  execute: async (args, context) => {
+    const { names, tlds = context.tlds } = validateCheckDomainsArgs(args).value ?? { names: [] };
+    // The user's selection can be long; tell the model to split instead of checking nothing.
+    if (names.length * tlds.length > MAX_DOMAIN_CHECK_PAIRS) {
+      const perCall = Math.max(1, Math.floor(MAX_DOMAIN_CHECK_PAIRS / tlds.length));
+      return { error: `Too many domains: ${names.length} names x ${tlds.length} TLDs. Check at most ${perCall} names per call.` };
+    }
+    const results = await checkDomainsOnServer(names, tlds, context.env, { force: context.force });
+    return results.map(r => withSimilarBrands(r, context.competitors));
+  },
+  sanitizeResult: compactDomainCheckResults
+};
+
+export const checkHandlesTool: RegisteredTool = {
+  name: 'checkHandles',
+  description:
+    "Check whether base names are free as npm packages, PyPI projects and GitHub users/organizations. Use it for developer tools, libraries and open-source projects, next to checkDomains.",
+  parameters: {
+    type: 'object',
+    properties: {
+      names: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "A list of base names to check (e.g. ['vitest', 'ruff']). No TLDs or prefixes."
+      },
+      platforms: {
+        type: 'array',
+        items: { type: 'string', enum: ['npm', 'pypi', 'github'] },
+        description: 'Optional: the platforms to check. Defaults to all of them.'
+      }
+    },
+    required: ['names']
+  },
+  validate: args => validateCheckHandlesArgs(args).errors,
+  execute: async (args, context) => {
+    const { names, platforms } = validateCheckHandlesArgs(args).value ?? { names: [] };
+    const { json } = await buildHandleCheckResponse({ names, platforms }, context.env);
+    return json;
+  },
+  sanitizeResult: compactHandleCheckResults
+};
+
+// The tools offered to the chat model, in this order.
+export const defaultToolRegistry = createToolRegistry([checkDomainsTool, checkHandlesTool]);
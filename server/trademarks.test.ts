@@ -0,0 +1,31 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+
+import { createTrademarkIndex, parseTrademarkCsv, parseTrademarkXml } from './trademarks';
+
+const fixture = (name: string) => readFile(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+describe('parseTrademarkXml', () => {
+  it('reads USPTO numeric status codes', async () => {
+    const records = parseTrademarkXml(await fixture('uspto-case-files.xml'));
+    expect(records.map(r => [r.mark, r.live])).toEqual([
+      ['NAMERLY', true],
+      ['BRANDSMITH', false], // 602: abandoned
+      ['DOMAINLY', false] // 710: cancelled
+    ]);
+    expect(records[0]).toMatchObject({ classes: [9], owner: 'Namerly Inc.', office: 'USPTO' });
+  });
+
+  it('rates an exact match on a dead mark as low risk', async () => {
+    const index = createTrademarkIndex(parseTrademarkXml(await fixture('uspto-case-files.xml')));
+    expect(index.screen('brandsmith').risk).toBe('low');
+    expect(index.screen('namerly').risk).toBe('high');
+  });
+});
+
+describe('parseTrademarkCsv', () => {
+  it('accepts status text and codes', () => {
+    const records = parseTrademarkCsv('mark,status\nAlpha,Registered\nBeta,Abandoned\nGamma,602\nDelta,800\n');
+    expect(records.map(r => r.live)).toEqual([true, false, false, true]);
+  });
+});
@@ -0,0 +1,349 @@
+import { readFile } from 'node:fs/promises';
+import { TrademarkHit, TrademarkRisk, TrademarkScreening } from '../types';
+import { matchKey, phoneticKey, similarityRatio, trigrams } from '../services/textSimilarity';
+import { sanitizeEnvValue } from './env';
+
+export type TrademarkRecord = {
+  mark: string;
+  classes: number[];
+  live: boolean;
+  owner?: string;
+  registrationNumber?: string;
+  office?: string;
+};
+
+const DEAD_STATUS = /dead|abandon|cancel|expir|withdraw|refus|reject|lapse|surrender|invalid/i;
+// USPTO `<status-code>` values are numeric: 6xx abandoned (602 failure to respond), 709-799
+// cancelled (710 section 8, 711 surrendered), 9xx expired. 700-708 are registrations.
+const DEAD_USPTO_CODES: Array<[number, number]> = [
+  [600, 699],
+  [709, 799],
+  [900, 999]
+];
+
+// Status text ("Registered", "Abandoned") or a USPTO status code ("700", "602").
+const isLiveStatus = (status: string | undefined): boolean => {
+  const value = String(status || '').trim();
+  if (/^\d{3}$/.test(value)) {
+    const code = Number(value);
+    return !DEAD_USPTO_CODES.some(([from, to]) => code >= from && code <= to);
+  }
+  return !DEAD_STATUS.test(value);
+};
+
+// "009, 042" / "9;42" / "Class 9" -> [9, 42]
+const parseNiceClasses = (value: string): number[] =>
+  Array.from(new Set((String(value || '').match(/\d+/g) || []).map(Number).filter(n => n >= 1 && n <= 45)));
+
+// --- CSV ------------------------------------------------------------------------------
+
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t') ? '\t' : ',';
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+};
+
+const CSV_COLUMNS = {
+  mark: ['mark', 'wordmark', 'word mark', 'mark identification', 'mark text', 'trademark', 'verbal element', 'name'],
+  classes: ['nice classes', 'classes', 'class', 'international class', 'nice class'],
+  status: ['status', 'mark status', 'status code', 'current status'],
+  owner: ['owner', 'owner name', 'applicant', 'applicant name', 'registrant', 'holder'],
+  number: ['registration number', 'serial number', 'application number', 'number', 'id']
+};
+
+/**
+ * Parses a bulk trademark export in CSV (or TSV) form. Columns are found by header name
+ * ("mark" / "word mark" / "mark identification", "classes", "status", "owner", ...).
+ */
+export const parseTrademarkCsv = (text: string, office?: string): TrademarkRecord[] => {
+  const [header, ...rows] = parseCsvRows(String(text || '').replace(/^\uFEFF/, ''));
+  if (!header) return [];
+  const names = header.map(h => h.trim().toLowerCase().replace(/[_-]+/g, ' '));
+  const column = (aliases: string[]) => {
+    for (const alias of aliases) {
+      const index = names.indexOf(alias);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+  const markCol = column(CSV_COLUMNS.mark);
+  if (markCol < 0) throw new Error('Trademark CSV has no mark column');
+  const classesCol = column(CSV_COLUMNS.classes);
+  const statusCol = column(CSV_COLUMNS.status);
+  const ownerCol = column(CSV_COLUMNS.owner);
+  const numberCol = column(CSV_COLUMNS.number);
+
+  const out: TrademarkRecord[] = [];
+  for (const row of rows) {
+    const mark = String(row[markCol] || '').trim();
+    if (!mark) continue;
+    out.push({
+      mark,
+      classes: classesCol >= 0 ? parseNiceClasses(row[classesCol]) : [],
+      live: statusCol >= 0 ? isLiveStatus(row[statusCol]) : true,
+      owner: ownerCol >= 0 ? row[ownerCol]?.trim() || undefined : undefined,
+      registrationNumber: numberCol >= 0 ? row[numberCol]?.trim() || undefined : undefined,
+      office
+    });
+  }
+  return out;
+};
+
+// --- XML ------------------------------------------------------------------------------
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const xmlValues = (block: string, tags: string[]): string[] => {
+  const out: string[] = [];
+  for (const tag of tags) {
+    const re = new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(block))) {
+      const value = decodeXml(m[1]);
+      if (value) out.push(value);
+    }
+  }
+  return out;
+};
+
+// USPTO daily/annual XML (<case-file>) and EUIPO / WIPO ST.66 exports (<TradeMark>).
+const XML_RECORD = /<(?:\w+:)?(case-file|TradeMark)\b[^>]*>([\s\S]*?)<\/(?:\w+:)?\1>/g;
+const XML_TAGS = {
+  mark: ['mark-identification', 'MarkVerbalElementText'],
+  classes: ['international-code', 'ClassNumber'],
+  status: ['status-code', 'MarkCurrentStatusCode'],
+  owner: ['party-name', 'OrganizationName'],
+  number: ['registration-number', 'serial-number', 'RegistrationNumber', 'ApplicationNumber']
+};
+
+/** Parses a USPTO (`<case-file>`) or EUIPO/ST.66 (`<TradeMark>`) XML export. */
+export const parseTrademarkXml = (text: string, office?: string): TrademarkRecord[] => {
+  const out: TrademarkRecord[] = [];
+  let m: RegExpExecArray | null;
+  XML_RECORD.lastIndex = 0;
+  while ((m = XML_RECORD.exec(String(text || '')))) {
+    const block = m[2];
+    const [mark] = xmlValues(block, XML_TAGS.mark);
+    if (!mark) continue;
+    const [status] = xmlValues(block, XML_TAGS.status);
+    const [owner] = xmlValues(block, XML_TAGS.owner);
+    const [number] = xmlValues(block, XML_TAGS.number).filter(n => /\d/.test(n));
+    out.push({
+      mark,
+      classes: parseNiceClasses(xmlValues(block, XML_TAGS.classes).join(' ')),
+      live: isLiveStatus(status),
+      owner,
+      registrationNumber: number,
+      office: office ?? (m[1] === 'case-file' ? 'USPTO' : undefined)
+    });
+  }
+  return out;
+};
+
+// --- Index ----------------------------------------------------------------------------
+
+export type TrademarkScreenOptions = {
+  // Only consider marks registered in these Nice classes (marks without classes are kept).
+  niceClasses?: number[];
+  maxHits?: number;
+};
+
+export interface TrademarkIndex {
+  size: number;
+  screen: (name: string, opts?: TrademarkScreenOptions) => TrademarkScreening;
+}
+
+// Fuzzy hits need at least this spelling similarity.
+const FUZZY_MIN_SCORE = 0.8;
+// Single-consonant keys ("n", "k") say nothing; two-letter ones still do for short names.
+const PHONETIC_MIN_KEY = 2;
+// Same sound but a very different spelling ("nt" for "knot" and "nightout") is noise.
+const PHONETIC_MIN_SCORE = 0.5;
+// Trigram candidates kept per query before the (slower) edit distance runs.
+const FUZZY_CANDIDATES = 300;
+
+const riskOf = (hit: TrademarkHit): TrademarkRisk => {
+  if (!hit.live) return 'low';
+  if (hit.matchType === 'exact') return 'high';
+  if (hit.matchType === 'phonetic') return hit.score >= 0.75 ? 'high' : 'medium';
+  return hit.score >= 0.9 ? 'medium' : 'low';
+};
+
+const RISK_ORDER: TrademarkRisk[] = ['none', 'low', 'medium', 'high'];
+const MATCH_ORDER: TrademarkHit['matchType'][] = ['exact', 'phonetic', 'fuzzy'];
+
+const pushIndex = (map: Map<string, number[]>, key: string, i: number) => {
+  const list = map.get(key);
+  if (list) list.push(i);
+  else map.set(key, [i]);
+};
+
+/**
+ * Builds an in-memory index over trademark records for exact (same match key), phonetic
+ * (same `phoneticKey`) and fuzzy (trigram blocking + edit distance) lookups.
+ */
+export const createTrademarkIndex = (records: TrademarkRecord[]): TrademarkIndex => {
+  const keys = records.map(r => matchKey(r.mark));
+  const exact = new Map<string, number[]>();
+  const phonetic = new Map<string, number[]>();
+  const grams = new Map<string, number[]>();
+  keys.forEach((key, i) => {
+    if (!key) return;
+    pushIndex(exact, key, i);
+    const sound = phoneticKey(key);
+    if (sound.length >= PHONETIC_MIN_KEY) pushIndex(phonetic, sound, i);
+    for (const gram of trigrams(key)) pushIndex(grams, gram, i);
+  });
+
+  const screen = (name: string, opts: TrademarkScreenOptions = {}): TrademarkScreening => {
+    const key = matchKey(name);
+    const classFilter = opts.niceClasses && opts.niceClasses.length > 0 ? new Set(opts.niceClasses) : null;
+    const hits = new Map<number, TrademarkHit>();
+    if (!key) return { risk: 'none', hits: [], niceClasses: opts.niceClasses };
+
+    const add = (i: number, matchType: TrademarkHit['matchType'], score: number) => {
+      const record = records[i];
+      if (classFilter && record.classes.length > 0 && !record.classes.some(c => classFilter.has(c))) return;
+      const existing = hits.get(i);
+      if (existing && MATCH_ORDER.indexOf(existing.matchType) <= MATCH_ORDER.indexOf(matchType)) return;
+      hits.set(i, {
+        mark: record.mark,
+        matchType,
+        score: Math.round(score * 100) / 100,
+        classes: record.classes,
+        live: record.live,
+        owner: record.owner,
+        registrationNumber: record.registrationNumber,
+        office: record.office
+      });
+    };
+
+    for (const i of exact.get(key) || []) add(i, 'exact', 1);
+
+    const sound = phoneticKey(key);
+    if (sound.length >= PHONETIC_MIN_KEY) {
+      for (const i of phonetic.get(sound) || []) {
+        const score = similarityRatio(key, keys[i]);
+        if (score >= PHONETIC_MIN_SCORE) add(i, 'phonetic', score);
+      }
+    }
+
+    const overlap = new Map<number, number>();
+    for (const gram of trigrams(key)) {
+      for (const i of grams.get(gram) || []) overlap.set(i, (overlap.get(i) || 0) + 1);
+    }
+    const candidates = Array.from(overlap.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, FUZZY_CANDIDATES);
+    for (const [i] of candidates) {
+      const score = similarityRatio(key, keys[i]);
+      if (score >= FUZZY_MIN_SCORE) add(i, 'fuzzy', score);
+    }
+
+    const sorted = Array.from(hits.values()).sort(
+      (a, b) =>
+        RISK_ORDER.indexOf(riskOf(b)) - RISK_ORDER.indexOf(riskOf(a)) ||
+        MATCH_ORDER.indexOf(a.matchType) - MATCH_ORDER.indexOf(b.matchType) ||
+        b.score - a.score
+    );
+    const risk = sorted.reduce<TrademarkRisk>(
+      (worst, hit) => (RISK_ORDER.indexOf(riskOf(hit)) > RISK_ORDER.indexOf(worst) ? riskOf(hit) : worst),
+      'none'
+    );
+    return { risk, hits: sorted.slice(0, opts.maxHits ?? 5), niceClasses: opts.niceClasses };
+  };
+
+  return { size: records.length, screen };
+};
+
+// --- Loading --------------------------------------------------------------------------
+
+/** Reads and indexes trademark files; `.xml` files are parsed as XML, anything else as CSV/TSV. */
+export const loadTrademarkIndex = async (paths: string[]): Promise<TrademarkIndex> => {
+  const records: TrademarkRecord[] = [];
+  for (const path of paths) {
+    const text = await readFile(path, 'utf8');
+    const parsed = /\.xml$/i.test(path) ? parseTrademarkXml(text) : parseTrademarkCsv(text);
+    records.push(...parsed);
+  }
+  return createTrademarkIndex(records);
+};
+
+const sharedIndexes = new Map<string, Promise<TrademarkIndex | null>>();
+
+/**
+ * The trademark index configured for this server, or null when screening is off:
+ * - TRADEMARK_DATA_PATH: comma-separated CSV/TSV/XML files (loaded once, on first use)
+ * - TRADEMARK_NICE_CLASSES: optional default Nice classes, e.g. "9,42"
+ */
+export const trademarkIndexFromEnv = (
+  env: Record<string, string | undefined> = process.env
+): Promise<TrademarkIndex | null> => {
+  const raw = sanitizeEnvValue(env.TRADEMARK_DATA_PATH);
+  if (!raw) return Promise.resolve(null);
+  let index = sharedIndexes.get(raw);
+  if (!index) {
+    const paths = raw.split(',').map(p => p.trim()).filter(Boolean);
+    index = loadTrademarkIndex(paths).catch(error => {
+      console.error('Trademark dataset could not be loaded; screening is disabled:', error);
+      sharedIndexes.delete(raw);
+      return null;
+    });
+    sharedIndexes.set(raw, index);
+  }
+  return index;
+};
+
+export const niceClassesFromEnv = (env: Record<string, string | undefined> = process.env): number[] | undefined => {
+  const classes = parseNiceClasses(sanitizeEnvValue(env.TRADEMARK_NICE_CLASSES) || '');
+  return classes.length > 0 ? classes : undefined;
+};
+
+export const parseNiceClassList = (value: unknown): number[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const classes = parseNiceClasses(value.join(' '));
+  return classes.length > 0 ? classes : undefined;
+};
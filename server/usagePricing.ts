@@ -0,0 +1,73 @@
+import { TokenUsage } from '../types';
+
+// USD per million tokens.
+export type ModelPrice = { input: number; output: number };
+
+// List prices at the time of writing; override or extend them with LLM_PRICES.
+// Models without a price (local Ollama models, the mock) cost 0.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'mistral-small': { input: 0.1, output: 0.3 },
+  'mistral-medium': { input: 0.4, output: 2 },
+  'mistral-large': { input: 2, output: 6 },
+  'open-mistral-nemo': { input: 0.15, output: 0.15 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 }
+};
+
+/** Exact model name first, then the longest listed prefix ("mistral-small-latest" -> "mistral-small"). */
+export const findModelPrice = (model: string, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES): ModelPrice | undefined => {
+  const name = String(model || '').toLowerCase();
+  if (prices[name]) return prices[name];
+  const prefix = Object.keys(prices)
+    .filter(key => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : undefined;
+};
+
+/**
+ * Price table for the server: the defaults plus LLM_PRICES, a JSON object of
+ * `{ "<model or prefix>": { "input": <USD/1M>, "output": <USD/1M> } }`. Invalid JSON is ignored.
+ */
+export const modelPricesFromEnv = (env: Record<string, string | undefined> = process.env): Record<string, ModelPrice> => {
+  const raw = String(env.LLM_PRICES || '').trim();
+  if (!raw) return DEFAULT_MODEL_PRICES;
+  try {
+    const parsed = JSON.parse(raw);
+    const extra: Record<string, ModelPrice> = {};
+    for (const [model, price] of Object.entries(parsed || {})) {
+      const { input, output } = (price || {}) as Partial<ModelPrice>;
+      if (Number.isFinite(input) && Number.isFinite(output)) extra[model.toLowerCase()] = { input: input!, output: output! };
+    }
+    return { ...DEFAULT_MODEL_PRICES, ...extra };
+  } catch {
+    console.error('LLM_PRICES is not valid JSON; using the default prices.');
+    return DEFAULT_MODEL_PRICES;
+  }
+};
+
+/** Usage of one model call, priced when the price is known. */
+export const priceUsage = (promptTokens: number, completionTokens: number, price?: ModelPrice): TokenUsage => {
+  const prompt = Math.max(0, Math.floor(Number(promptTokens) || 0));
+  const completion = Math.max(0, Math.floor(Number(completionTokens) || 0));
+  return {
+    promptTokens: prompt,
+    completionTokens: completion,
+    totalTokens: prompt + completion,
+    costUsd: price ? (prompt * price.input + completion * price.output) / 1_000_000 : 0,
+    calls: 1
+  };
+};
+
+/**
+ * Cost cap in USD for one reply (tool loop) or one brainstorm run: the lower of LLM_BUDGET_USD
+ * and the budget the client asked for. Undefined when neither is a positive number.
+ */
+export const resolveBudgetUsd = (requested: unknown, env: Record<string, string | undefined> = process.env): number | undefined => {
+  const budgets = [Number(env.LLM_BUDGET_USD), requested == null ? NaN : Number(requested)].filter(
+    n => Number.isFinite(n) && n > 0
+  );
+  return budgets.length > 0 ? Math.min(...budgets) : undefined;
+};
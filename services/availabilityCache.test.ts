@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+
+import { DomainCheckResult } from '../types';
+import { AvailabilityCacheStorage, createAvailabilityCache } from './availabilityCache';
+import { domainCheckResult } from './fixtures/domainCheckResults';
+
+const MINUTE = 60_000;
+const T0 = Date.parse('2026-10-19T12:00:00.000Z');
+
+const checked = (domain: string, status: DomainCheckResult['status']) =>
+  domainCheckResult(domain, { status, checkedAt: new Date(T0).toISOString() });
+
+const memoryStorage = (): AvailabilityCacheStorage & { saved: DomainCheckResult[] } => {
+  const storage = {
+    saved: [] as DomainCheckResult[],
+    load: () => storage.saved,
+    save: (results: DomainCheckResult[]) => {
+      storage.saved = results;
+    }
+  };
+  return storage;
+};
+
+describe('createAvailabilityCache', () => {
+  it('expires each status after its own TTL', () => {
+    let now = T0;
+    const cache = createAvailabilityCache({ now: () => now });
+    cache.setMany([
+      checked('free.com', 'available'),
+      checked('taken.com', 'taken'),
+      checked('flaky.com', 'unknown'),
+      checked('bad--.com', 'invalid')
+    ]);
+    const fresh = () => ['free.com', 'taken.com', 'flaky.com', 'bad--.com'].filter(d => cache.get(d));
+
+    now = T0 + MINUTE - 1;
+    expect(fresh()).toEqual(['free.com', 'taken.com', 'flaky.com', 'bad--.com']);
+    now = T0 + MINUTE;
+    expect(fresh()).toEqual(['free.com', 'taken.com', 'bad--.com']);
+    now = T0 + 15 * MINUTE;
+    expect(fresh()).toEqual(['taken.com', 'bad--.com']);
+    now = T0 + 24 * 60 * MINUTE;
+    expect(fresh()).toEqual(['bad--.com']);
+    now = T0 + 7 * 24 * 60 * MINUTE;
+    expect(fresh()).toEqual([]);
+  });
+
+  it('accepts TTL overrides and keys domains case-insensitively', () => {
+    const cache = createAvailabilityCache({ ttls: { available: MINUTE }, now: () => T0 + 2 * MINUTE });
+    cache.setMany([checked('free.com', 'available'), checked('taken.com', 'taken')]);
+    expect(cache.get('free.com')).toBeNull();
+    expect(cache.get(' TAKEN.com ')?.domain).toBe('taken.com');
+  });
+
+  it('keeps entries across a reload and drops the ones that expired meanwhile', () => {
+    const storage = memoryStorage();
+    createAvailabilityCache({ storage, now: () => T0 }).setMany([checked('free.com', 'available'), checked('taken.com', 'taken')]);
+    expect(storage.saved.map(r => r.domain)).toEqual(['free.com', 'taken.com']);
+
+    const reloaded = createAvailabilityCache({ storage, now: () => T0 + 60 * MINUTE });
+    expect(reloaded.get('taken.com')?.status).toBe('taken');
+    expect(reloaded.get('free.com')).toBeNull();
+  });
+
+  it('evicts the least recently written entries beyond maxEntries', () => {
+    const cache = createAvailabilityCache({ maxEntries: 2, now: () => T0 });
+    cache.setMany([checked('a.com', 'taken'), checked('b.com', 'taken')]);
+    cache.setMany([checked('a.com', 'taken'), checked('c.com', 'taken')]);
+    expect(['a.com', 'b.com', 'c.com'].filter(d => cache.get(d))).toEqual(['a.com', 'c.com']);
+  });
+});
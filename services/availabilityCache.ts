@@ -0,0 +1,115 @@
+import { DomainCheckResult } from '../types';
+
+export type AvailabilityCacheTtls = Record<DomainCheckResult['status'], number>;
+
+// Availability can flip at any moment, registrations rarely disappear, "unknown" is
+// usually a transient failure worth retrying soon, and registry rules barely ever change.
+export const DEFAULT_AVAILABILITY_CACHE_TTLS: AvailabilityCacheTtls = {
+  available: 15 * 60_000,
+  taken: 24 * 60 * 60_000,
+  unknown: 60_000,
+  invalid: 7 * 24 * 60 * 60_000
+};
+
+export interface AvailabilityCacheStorage {
+  load: () => DomainCheckResult[];
+  save: (results: DomainCheckResult[]) => void;
+}
+
+export interface AvailabilityCache {
+  get: (domain: string) => DomainCheckResult | null;
+  setMany: (results: DomainCheckResult[]) => void;
+  delete: (domain: string) => void;
+  clear: () => void;
+}
+
+export type AvailabilityCacheOptions = {
+  ttls?: Partial<AvailabilityCacheTtls>;
+  storage?: AvailabilityCacheStorage;
+  maxEntries?: number;
+  now?: () => number;
+};
+
+/**
+ * In-memory TTL cache of check results keyed by fully-qualified domain ("namer.ai").
+ * Expiry is derived from each result's `checkedAt` and status, so persisted entries
+ * expire correctly after a reload.
+ */
+export const createAvailabilityCache = (opts: AvailabilityCacheOptions = {}): AvailabilityCache => {
+  const ttls: AvailabilityCacheTtls = { ...DEFAULT_AVAILABILITY_CACHE_TTLS, ...(opts.ttls || {}) };
+  const maxEntries = opts.maxEntries ?? 2000;
+  const now = opts.now ?? (() => Date.now());
+  const entries = new Map<string, DomainCheckResult>();
+
+  const keyOf = (domain: string) => String(domain || '').trim().toLowerCase();
+
+  const isFresh = (result: DomainCheckResult): boolean => {
+    const checkedAt = Date.parse(String(result?.checkedAt || ''));
+    const ttl = ttls[result?.status] ?? 0;
+    return Number.isFinite(checkedAt) && ttl > 0 && now() - checkedAt < ttl;
+  };
+
+  const persist = () => {
+    if (!opts.storage) return;
+    try {
+      opts.storage.save(Array.from(entries.values()).filter(isFresh));
+    } catch {
+      // storage quota / privacy mode; the in-memory cache still works
+    }
+  };
+
+  try {
+    for (const result of opts.storage?.load() || []) {
+      if (result?.domain && isFresh(result)) entries.set(keyOf(result.domain), result);
+    }
+  } catch {
+    // corrupted storage; start empty
+  }
+
+  return {
+    get: (domain: string) => {
+      const key = keyOf(domain);
+      const hit = entries.get(key);
+      if (!hit) return null;
+      if (!isFresh(hit)) {
+        entries.delete(key);
+        return null;
+      }
+      return hit;
+    },
+    setMany: (results: DomainCheckResult[]) => {
+      for (const result of results || []) {
+        if (!result?.domain) continue;
+        const key = keyOf(result.domain);
+        // Re-insert so Map order doubles as LRU-ish eviction order.
+        entries.delete(key);
+        entries.set(key, result);
+      }
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+      persist();
+    },
+    delete: (domain: string) => {
+      entries.delete(keyOf(domain));
+      persist();
+    },
+    clear: () => {
+      entries.clear();
+      persist();
+    }
+  };
+};
+
+export const createLocalStorageCacheStorage = (key = 'namer.availabilityCache'): AvailabilityCacheStorage => ({
+  load: () => {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  },
+  save: (results: DomainCheckResult[]) => {
+    localStorage.setItem(key, JSON.stringify(results));
+  }
+});
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { runBrainstorm } from './brainstormService';
+import { ChatServiceError } from './chatService';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runBrainstorm', () => {
+  it('sends the session id and throws the server error as a ChatServiceError', async () => {
+    const stored = new Map([['namer.sessionId', 'session-1']]);
+    vi.stubGlobal('localStorage', { getItem: (key: string) => stored.get(key) ?? null, setItem: vi.fn() });
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) =>
+      Response.json(
+        { error: 'Too many requests; try again in 20s.', code: 'too_many_requests', retryAfterMs: 20_000 },
+        { status: 429 }
+      )
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const error = await runBrainstorm({ brief: 'names for a bakery' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ChatServiceError);
+    expect(error).toMatchObject({ status: 429, code: 'too_many_requests', retryAfterMs: 20_000 });
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({ 'X-Session-Id': 'session-1' });
+  });
+});
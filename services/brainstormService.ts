@@ -0,0 +1,78 @@
+import { BrainstormJob, Message } from '../types';
+import { prepareChatHistory } from './chatHistory';
+import { ChatServiceError, chatHeaders } from './chatService';
+import { readNdjson } from './domainService';
+
+export type BrainstormRequest = {
+  brief: string;
+  // Conversation before the brief, for context.
+  history?: Message[];
+  // Checked when the model does not pick TLDs itself.
+  tlds?: string[];
+  // Every check uses exactly these TLDs.
+  forcedTlds?: string[] | null;
+  // Exact number of available domains wanted (default: at least 3).
+  count?: number | null;
+  competitors?: string[];
+  niceClasses?: number[];
+  // Cost cap for the run's model calls (the server's LLM_BUDGET_USD still applies).
+  budgetUsd?: number;
+};
+
+const POLL_INTERVAL_MS = 1000;
+
+/** Latest snapshot of a server-side run. */
+export const getBrainstorm = async (id: string): Promise<BrainstormJob> => {
+  const response = await fetch(`/api/brainstorm?id=${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to read brainstorm progress');
+  }
+  return response.json();
+};
+
+/** Polls a run until it finishes (e.g. after a page reload), reporting every snapshot. */
+export const followBrainstorm = async (
+  id: string,
+  onUpdate?: (job: BrainstormJob) => void
+): Promise<BrainstormJob> => {
+  for (;;) {
+    const job = await getBrainstorm(id);
+    onUpdate?.(job);
+    if (job.status !== 'running') return job;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+/**
+ * Runs the brainstorm loop on the server and streams its progress. Resolves with the
+ * finished run; if the stream drops mid-run, the run is followed by polling instead.
+ */
+export const runBrainstorm = async (
+  request: BrainstormRequest,
+  onUpdate?: (job: BrainstormJob) => void
+): Promise<BrainstormJob> => {
+  const response = await fetch('/api/brainstorm', {
+    method: 'POST',
+    headers: chatHeaders(),
+    body: JSON.stringify({ ...request, history: request.history && prepareChatHistory(request.history), stream: true }),
+  });
+
+  if (!response.ok) {
+    // Same error body as `/api/chat` (code, retryAfterMs, fields), for `describeChatError`.
+    const errorData = await response.json().catch(() => ({}));
+    throw new ChatServiceError({ error: 'Failed to start brainstorm', ...errorData }, response.status);
+  }
+
+  let latest: BrainstormJob | null = null;
+  try {
+    for await (const job of readNdjson(response)) {
+      latest = job as BrainstormJob;
+      onUpdate?.(latest);
+    }
+  } catch (error) {
+    if (!latest) throw error;
+  }
+  if (!latest) throw new Error('Brainstorm stream ended without a result');
+  return latest.status === 'running' ? followBrainstorm(latest.id, onUpdate) : latest;
+};
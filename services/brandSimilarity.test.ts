@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { domainCheckResult } from './fixtures/domainCheckResults';
+import { findSimilarBrands, withSimilarBrands } from './brandSimilarity';
+
+const kinds = (name: string, brands?: string[]) =>
+  findSimilarBrands(name, { brands }).map(m => [m.brand, m.kind]);
+
+describe('findSimilarBrands', () => {
+  it('classifies look-alikes of bundled brands', () => {
+    expect(kinds('paypal')).toContainEqual(['PayPal', 'exact']);
+    expect(kinds('paypa1')).toContainEqual(['PayPal', 'homoglyph']);
+    expect(kinds('goolge')).toContainEqual(['Google', 'typo']);
+    expect(kinds('spotifly')).toContainEqual(['Spotify', 'edit']);
+    expect(kinds('lifft')).toContainEqual(['Lyft', 'phonetic']);
+  });
+
+  it('leaves short brands and near-miss dictionary words alone', () => {
+    expect(kinds('nice', ['Nike'])).toEqual([]);
+    expect(kinds('hpq', ['HP'])).toEqual([]);
+    expect(kinds('ab', ['Ab'])).toEqual([]);
+  });
+
+  it('ranks competitors first on ties and caps the list', () => {
+    const matches = findSimilarBrands('brightly', { brands: ['Brightly'], competitors: ['brightly'] });
+    expect(matches).toEqual([{ brand: 'brightly', source: 'competitor', kind: 'exact', score: 1 }]);
+    expect(findSimilarBrands('amazon', { brands: ['Amazon', 'Amazn', 'Amazoon', 'Amazons'], maxMatches: 2 })).toHaveLength(2);
+  });
+});
+
+describe('withSimilarBrands', () => {
+  it('recomputes matches for the current competitors and skips invalid names', () => {
+    expect(withSimilarBrands(domainCheckResult('acmely.com'), ['Acmely']).similarBrands).toEqual([
+      { brand: 'Acmely', source: 'competitor', kind: 'exact', score: 1 }
+    ]);
+    const invalid = domainCheckResult('acmely.com', { status: 'invalid' });
+    expect(withSimilarBrands(invalid, ['Acmely'])).toBe(invalid);
+  });
+});
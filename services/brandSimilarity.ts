@@ -0,0 +1,112 @@
+import { BrandMatch, BrandMatchKind, DomainCheckResult } from '../types';
+import { domainToUnicode } from './punycode';
+import { homoglyphSkeleton, keyboardDistance, levenshteinDistance, matchKey, phoneticKey, similarityRatio } from './textSimilarity';
+import { WELL_KNOWN_BRANDS } from './wellKnownBrands';
+
+// The user's competitor list, as the app and the API accept it.
+export const MAX_COMPETITORS = 50;
+export const MAX_COMPETITOR_LENGTH = 100;
+
+export type BrandSimilarityOptions = {
+  // Competitors named by the user; compared like the bundled brands.
+  competitors?: string[];
+  // Replaces the bundled list (mostly for experiments).
+  brands?: string[];
+  maxMatches?: number;
+};
+
+type BrandEntry = {
+  brand: string;
+  source: BrandMatch['source'];
+  key: string;
+  skeleton: string;
+  sound: string;
+};
+
+// Brands shorter than this only match exactly: "hp" is one edit from half the dictionary.
+const MIN_FUZZY_BRAND_LENGTH = 4;
+// Below this, only slips and look-alikes count: "nice" is one edit from "Nike" but not a copy.
+const MIN_EDIT_BRAND_LENGTH = 6;
+const PHONETIC_MIN_SCORE = 0.6;
+
+const KIND_ORDER: BrandMatchKind[] = ['exact', 'homoglyph', 'typo', 'edit', 'phonetic'];
+
+const toEntry = (brand: string, source: BrandMatch['source']): BrandEntry => ({
+  brand,
+  source,
+  key: matchKey(brand),
+  skeleton: homoglyphSkeleton(brand),
+  sound: phoneticKey(brand)
+});
+
+const bundledEntries = WELL_KNOWN_BRANDS.map(b => toEntry(b, 'brand'));
+
+// One edit for short brands, two from 9 letters on ("spotifly" vs "spotify", "amazoon" vs "amazon").
+const maxEdits = (length: number) => (length >= 9 ? 2 : 1);
+
+/** How a candidate resembles one brand, or null when it does not. */
+const compare = (name: string, key: string, skeleton: string, entry: BrandEntry): BrandMatch | null => {
+  if (!entry.key) return null;
+  const match = (kind: BrandMatchKind, score: number): BrandMatch => ({
+    brand: entry.brand,
+    source: entry.source,
+    kind,
+    score: Math.round(score * 100) / 100
+  });
+  if (key === entry.key) return match('exact', 1);
+  if (entry.key.length < MIN_FUZZY_BRAND_LENGTH) return null;
+  if (skeleton && skeleton === entry.skeleton) return match('homoglyph', 0.95);
+
+  const typo = keyboardDistance(key, entry.key);
+  if (typo <= 0.5) return match('typo', 0.9);
+  if (entry.key.length >= MIN_EDIT_BRAND_LENGTH && levenshteinDistance(key, entry.key) <= maxEdits(entry.key.length)) {
+    return match('edit', similarityRatio(key, entry.key));
+  }
+
+  const sound = phoneticKey(name);
+  if (sound.length >= 3 && sound === entry.sound) {
+    const score = similarityRatio(key, entry.key);
+    if (score >= PHONETIC_MIN_SCORE) return match('phonetic', score);
+  }
+  return null;
+};
+
+/**
+ * Compares a candidate base name with the bundled brand list and the user's competitors:
+ * exact, visual look-alikes ("paypa1"), keyboard slips ("gooogle", "amazpn"), small edits
+ * and same-sound spellings ("lifft"). Closest matches first; competitors win ties.
+ */
+export const findSimilarBrands = (name: string, options: BrandSimilarityOptions = {}): BrandMatch[] => {
+  const key = matchKey(name);
+  if (key.length < 3) return [];
+  const skeleton = homoglyphSkeleton(name);
+  const entries = [
+    ...(options.competitors || []).map(c => String(c || '').trim()).filter(Boolean).map(c => toEntry(c, 'competitor')),
+    ...(options.brands ? options.brands.map(b => toEntry(b, 'brand')) : bundledEntries)
+  ];
+
+  const best = new Map<string, BrandMatch>();
+  for (const entry of entries) {
+    const found = compare(name, key, skeleton, entry);
+    if (!found) continue;
+    const existing = best.get(entry.key);
+    if (!existing || KIND_ORDER.indexOf(found.kind) < KIND_ORDER.indexOf(existing.kind)) best.set(entry.key, found);
+  }
+
+  return Array.from(best.values())
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) ||
+        (a.source === 'competitor' ? -1 : 0) - (b.source === 'competitor' ? -1 : 0)
+    )
+    .slice(0, options.maxMatches ?? 3);
+};
+
+// Brand look-alikes depend on the user's competitor list, so they are computed on every
+// result (cached ones included) rather than stored with the availability.
+export const withSimilarBrands = (result: DomainCheckResult, competitors: string[] | undefined): DomainCheckResult => {
+  if (result.status === 'invalid') return result;
+  const matches = findSimilarBrands(domainToUnicode(result.baseName), { competitors });
+  return { ...result, similarBrands: matches.length > 0 ? matches : undefined };
+};
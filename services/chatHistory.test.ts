@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+
+import { Message, Role } from '../types';
+import { CHAT_HISTORY_WINDOW, prepareChatHistory, trimChatHistory } from './chatHistory';
+
+const conversation = (turns: number): Message[] =>
+  Array.from({ length: turns }, (_, i) => [
+    { id: `u${i}`, role: Role.USER, text: `question ${i}` },
+    { id: `m${i}`, role: Role.MODEL, text: `answer ${i}` }
+  ]).flat();
+
+describe('trimChatHistory', () => {
+  it('keeps short conversations as they are', () => {
+    const messages = conversation(3);
+    expect(trimChatHistory(messages)).toBe(messages);
+  });
+
+  it('keeps the latest messages, starting with a user turn', () => {
+    const trimmed = trimChatHistory(conversation(100), 5);
+    expect(trimmed.map(m => m.id)).toEqual(['u98', 'm98', 'u99', 'm99']);
+    expect(trimChatHistory(conversation(100)).length).toBeLessThanOrEqual(CHAT_HISTORY_WINDOW);
+  });
+});
+
+describe('prepareChatHistory', () => {
+  it('leaves local system notices out of the history it sends', () => {
+    const messages = [...conversation(1), { id: 'notice', role: Role.SYSTEM, text: 'Brainstorm cancelled.' }];
+    expect(prepareChatHistory(messages).map(m => m.id)).toEqual(['u0', 'm0']);
+  });
+});
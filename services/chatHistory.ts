@@ -0,0 +1,86 @@
+// What the app sends of a conversation: a window of the latest messages, so long
+// conversations keep working under the server's CHAT_MAX_MESSAGES cap, with compact tool results.
+
+import { HANDLE_PLATFORMS, Message, Role } from '../types';
+
+// Messages the app sends per request; well under the server's CHAT_MAX_MESSAGES default.
+export const CHAT_HISTORY_WINDOW = 40;
+
+/**
+ * The last `max` messages, starting at a user message so the model never sees a reply
+ * (or tool results) without the turn that asked for it. Accepts unvalidated input.
+ */
+export const trimChatHistory = <T extends { role?: unknown }>(messages: T[], max = CHAT_HISTORY_WINDOW): T[] => {
+  if (messages.length <= max) return messages;
+  const window = messages.slice(messages.length - Math.max(1, max));
+  const start = window.findIndex(m => m?.role === Role.USER);
+  return start > 0 ? window.slice(start) : window;
+};
+
+// --- Tool results -----------------------------------------------------------------------
+// A full `DomainCheckResult` (signals, nameservers, trademark screening, candidate) is
+// 300-1000 characters of JSON; the model only needs the verdict. Results are reduced to
+// these fields when the app sends its history and again when the server reads it.
+
+const MAX_RESULT_TEXT_LENGTH = 200;
+const AVAILABILITY_STATUSES = ['available', 'taken', 'unknown', 'invalid'] as const;
+
+const resultText = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value.slice(0, MAX_RESULT_TEXT_LENGTH) : undefined;
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[]): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+// Tool failures (`{ error }`) keep their message; anything else that is not a list is dropped.
+const compactResultList = (result: unknown, item: (entry: any) => Record<string, unknown>): unknown => {
+  if (Array.isArray(result)) return result.filter(e => e && typeof e === 'object').map(item);
+  const error = resultText((result as any)?.error);
+  return error ? { error } : { error: 'result unavailable' };
+};
+
+/** `checkDomains` results: domain, status, TLD, base name, reason, parking and confidence. */
+export const compactDomainCheckResults = (result: unknown): unknown =>
+  compactResultList(result, r => ({
+    domain: resultText(r.domain),
+    unicodeDomain: r.unicodeDomain !== r.domain ? resultText(r.unicodeDomain) : undefined,
+    status: oneOf(r.status, AVAILABILITY_STATUSES) ?? 'unknown',
+    tld: resultText(r.tld),
+    baseName: resultText(r.baseName),
+    reason: resultText(r.reason),
+    parked: r.parked === true || undefined,
+    forSale: r.forSale === true || undefined,
+    confidence: typeof r.confidence === 'number' ? Math.round(Math.min(1, Math.max(0, r.confidence)) * 100) / 100 : undefined
+  }));
+
+/** `checkHandles` results: platform, name, handle, status, reason and URL. */
+export const compactHandleCheckResults = (result: unknown): unknown =>
+  compactResultList(result, r => ({
+    platform: oneOf(r.platform, HANDLE_PLATFORMS),
+    name: resultText(r.name),
+    handle: resultText(r.handle),
+    status: oneOf(r.status, AVAILABILITY_STATUSES) ?? 'unknown',
+    reason: resultText(r.reason),
+    url: resultText(r.url)
+  }));
+
+const TOOL_RESULT_COMPACTORS: Record<string, (result: unknown) => unknown> = {
+  checkDomains: compactDomainCheckResults,
+  checkHandles: compactHandleCheckResults
+};
+
+/**
+ * The history as the app sends it: the latest window, with compact tool results. Local
+ * `system` notices stay in the app; the server rejects them.
+ */
+export const prepareChatHistory = (messages: Message[], max = CHAT_HISTORY_WINDOW): Message[] =>
+  trimChatHistory(messages.filter(m => m.role !== Role.SYSTEM), max).map(m =>
+    m.toolResponses
+      ? {
+          ...m,
+          toolResponses: m.toolResponses.map(r => {
+            const compact = TOOL_RESULT_COMPACTORS[r.name];
+            return compact && r.result !== undefined ? { ...r, result: compact(r.result) } : r;
+          })
+        }
+      : m
+  );
@@ -1,26 +1,216 @@
-import { Message } from "../types";
+import { ApiErrorCode, FieldError, LLMErrorCode, Message, TokenUsage, ToolInvocation } from "../types";
+import { prepareChatHistory } from "./chatHistory";
 
 export interface ChatBackendResponse {
   text: string;
   functionCalls?: Array<{ id: string; name: string; args: Record<string, any> }>;
+  toolTrace?: ToolInvocation[]; // tools the server ran (see `ServerToolOptions`), in order
+  stepLimitReached?: boolean;
+  budgetExceeded?: boolean; // the server stopped the tool loop at its cost budget
+  usage?: TokenUsage; // model calls behind this reply, priced on the server
 }
 
+// Has the server run the tools itself and loop until a final answer, instead of returning
+// `functionCalls`. `tlds` is the fallback when the model names none.
+export type ServerToolOptions = {
+  tlds?: string[];
+  competitors?: string[];
+  force?: boolean;
+  maxSteps?: number;
+  budgetUsd?: number; // cost cap for this reply (the server's LLM_BUDGET_USD still applies)
+};
+
+/**
+ * A failed `/api/chat` or `/api/brainstorm` call; `code` and `retryAfterMs` come from the server when a model
+ * call failed or the request was refused (rate limit, size caps, `fields` failing validation).
+ */
+export class ChatServiceError extends Error {
+  status?: number;
+  code?: ApiErrorCode;
+  retryAfterMs?: number;
+  fields?: FieldError[];
+
+  constructor(body: { error?: string; code?: ApiErrorCode; retryAfterMs?: number; fields?: FieldError[] }, status?: number) {
+    super(body.error || 'Failed to communicate with server');
+    this.name = 'ChatServiceError';
+    this.status = status;
+    this.code = body.code;
+    this.retryAfterMs = body.retryAfterMs;
+    this.fields = body.fields;
+  }
+}
+
+// The server is about to retry a model call (`retry` stream event).
+export type ChatRetryNotice = { code: LLMErrorCode; attempt: number; delayMs: number; message: string };
+
+const inSeconds = (ms: number) => `${Math.max(1, Math.ceil(ms / 1000))}s`;
+
+/** "Rate limited, retrying in 8s…" */
+export const describeRetry = (notice: ChatRetryNotice): string =>
+  notice.code === 'rate_limited'
+    ? `Rate limited, retrying in ${inSeconds(notice.delayMs)}…`
+    : `The model did not respond, retrying in ${inSeconds(notice.delayMs)}…`;
+
+/** User-facing wording for a failed chat or brainstorm request. */
+export const describeChatError = (error: { code?: ApiErrorCode; retryAfterMs?: number } | unknown): string => {
+  const { code, retryAfterMs } = (error || {}) as { code?: ApiErrorCode; retryAfterMs?: number };
+  const wait = retryAfterMs != null ? ` Try again in ${inSeconds(retryAfterMs)}.` : ' Please try again in a moment.';
+  switch (code) {
+    case 'rate_limited':
+      return `The model provider is rate limiting requests.${wait}`;
+    case 'circuit_open':
+    case 'unavailable':
+      return `The model provider is unavailable right now.${wait}`;
+    case 'timeout':
+      return 'The model took too long to answer. Please try again.';
+    case 'too_many_requests':
+      return `You are sending messages too quickly.${wait}`;
+    case 'payload_too_large':
+      return 'The request is too large for the server. Try a shorter message, or reload the page to start a new conversation.';
+    case 'validation_failed':
+      return 'The server rejected the conversation as malformed. Reload the page to start a new one.';
+    case 'auth':
+      return 'The server could not authenticate with the model provider. Check its API key.';
+    default:
+      return 'Sorry, I encountered an error connecting to the brain. Please try again.';
+  }
+};
+
+const SESSION_STORAGE_KEY = 'namer.sessionId';
+
+// Stable per browser; lets the server rate-limit per session instead of per IP.
+const sessionId = (): string => {
+  try {
+    let id = localStorage.getItem(SESSION_STORAGE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(SESSION_STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    return '';
+  }
+};
+
+// Also sent by brainstorm requests, which share the server's guard settings.
+export const chatHeaders = (): Record<string, string> => {
+  const id = sessionId();
+  return { 'Content-Type': 'application/json', ...(id ? { 'X-Session-Id': id } : {}) };
+};
+
 export const sendMessageToBackend = async (
   messages: Message[],
   systemInstruction: string
 ): Promise<ChatBackendResponse> => {
   const response = await fetch('/api/chat', {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ messages, systemInstruction }),
+    headers: chatHeaders(),
+    body: JSON.stringify({ messages: prepareChatHistory(messages), systemInstruction }),
   });
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.error || 'Failed to communicate with server');
+    throw new ChatServiceError(errorData, response.status);
   }
 
   return response.json();
 };
+
+export type ChatStreamHandlers = {
+  // Called with each text piece and the text so far.
+  onText?: (delta: string, text: string) => void;
+  // Server tool loop only: a tool started / finished.
+  onToolStart?: (call: { step: number; id: string; name: string; args: Record<string, any> }) => void;
+  onToolResult?: (invocation: ToolInvocation) => void;
+  // The server hit a rate limit or a failing upstream and will retry after `delayMs`.
+  onRetry?: (notice: ChatRetryNotice) => void;
+};
+
+// `{ event, data }` pairs of a Server-Sent Events body, as they arrive.
+const readSseEvents = async function* (response: Response): AsyncGenerator<{ event: string; data: string }> {
+  const reader = response.body?.getReader();
+  const text = reader ? '' : await response.text();
+  const decoder = new TextDecoder();
+  let buffer = text;
+  let event = 'message';
+  let data: string[] = [];
+
+  const takeLines = function* (final: boolean) {
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0 || (final && buffer)) {
+      const line = (newline >= 0 ? buffer.slice(0, newline) : buffer).replace(/\r$/, '');
+      buffer = newline >= 0 ? buffer.slice(newline + 1) : '';
+      if (line === '') {
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        event = 'message';
+        data = [];
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+      newline = buffer.indexOf('\n');
+    }
+  };
+
+  if (reader) {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      yield* takeLines(false);
+      if (done) break;
+    }
+  }
+  yield* takeLines(true);
+  if (data.length > 0) yield { event, data: data.join('\n') };
+};
+
+/**
+ * Streaming variant of `sendMessageToBackend`: text is passed to `onText` while the model
+ * writes it; resolves with the same `{ text, functionCalls }` once the reply is complete.
+ * With `tools`, the server runs the tool calls and reports them through the handlers.
+ */
+export const streamMessageToBackend = async (
+  messages: Message[],
+  systemInstruction: string,
+  handlers: ChatStreamHandlers = {},
+  tools?: ServerToolOptions
+): Promise<ChatBackendResponse> => {
+  const response = await fetch('/api/chat', {
+    method: 'POST',
+    headers: chatHeaders(),
+    body: JSON.stringify({ messages: prepareChatHistory(messages), systemInstruction, stream: true, ...(tools ? { ...tools, runTools: true } : {}) }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ChatServiceError(errorData, response.status);
+  }
+  // A server without streaming support answers with plain JSON.
+  if (!String(response.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    const result: ChatBackendResponse = await response.json();
+    if (result.text) handlers.onText?.(result.text, result.text);
+    for (const invocation of result.toolTrace ?? []) handlers.onToolResult?.(invocation);
+    return result;
+  }
+
+  let text = '';
+  for await (const { event, data } of readSseEvents(response)) {
+    const payload = JSON.parse(data);
+    if (event === 'text') {
+      text += payload.delta;
+      handlers.onText?.(payload.delta, text);
+    } else if (event === 'tool_start') {
+      handlers.onToolStart?.(payload);
+    } else if (event === 'tool_result') {
+      handlers.onToolResult?.(payload as ToolInvocation);
+    } else if (event === 'retry') {
+      handlers.onRetry?.(payload as ChatRetryNotice);
+    } else if (event === 'done') {
+      return payload as ChatBackendResponse;
+    } else if (event === 'error') {
+      throw new ChatServiceError(payload);
+    }
+  }
+  throw new Error('The chat stream ended before the reply was complete');
+};
@@ -0,0 +1,64 @@
+// Name/TLD normalization shared by the browser and the server so both sides agree on
+// what "the same domain" is (cache keys, de-duplication, lookups).
+
+import { PunycodeError, domainToAscii, toAsciiLabel } from './punycode';
+
+// DNS label length limit, measured on the ASCII (xn--) form.
+const MAX_LABEL_LENGTH = 63;
+
+// Upper bound for a single batched `/api/domains/check` request (names × tlds).
+export const MAX_DOMAIN_CHECK_PAIRS = 1000;
+
+/**
+ * Normalizes a candidate name to the ASCII label used for lookups and cache keys:
+ * NFC + lowercase, keeps letters (any script), combining marks, digits and hyphens,
+ * then Punycode-encodes it when it is not plain ASCII ("Café" -> "xn--caf-dma").
+ */
+export const normalizeBaseName = (name: string): string | null => {
+  const raw = String(name || '').trim();
+  if (!raw) return null;
+  const cleaned = raw
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}-]/gu, '')
+    .replace(/^-+/, '')
+    .replace(/-+$/, '');
+
+  if (!cleaned) return null;
+  // Drop trailing characters until the encoded label fits (Punycode cannot be sliced).
+  let chars = Array.from(cleaned);
+  while (chars.length > 0) {
+    try {
+      const ascii = toAsciiLabel(chars.join(''));
+      if (ascii.length <= MAX_LABEL_LENGTH) return ascii;
+    } catch (error) {
+      if (!(error instanceof PunycodeError)) throw error;
+    }
+    chars = chars.slice(0, -1);
+  }
+  return null;
+};
+
+// ".COM" -> ".com", "рф" -> ".xn--p1ai"
+export const normalizeTld = (tld: string): string | null => {
+  const raw = String(tld || '').trim().toLowerCase();
+  if (!raw) return null;
+  let ascii: string;
+  try {
+    ascii = domainToAscii(raw);
+  } catch {
+    return null;
+  }
+  return ascii.startsWith('.') ? ascii : `.${ascii}`;
+};
+
+export const normalizeDomainCheckInput = (
+  baseNames: string[],
+  tlds: string[]
+): { names: string[]; tlds: string[] } => {
+  const names = Array.from(
+    new Set((baseNames || []).map(normalizeBaseName).filter((v): v is string => Boolean(v)))
+  );
+  const exts = Array.from(new Set((tlds || []).map(normalizeTld).filter((v): v is string => Boolean(v))));
+  return { names, tlds: exts };
+};
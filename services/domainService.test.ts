@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { domainCheckResult } from './fixtures/domainCheckResults';
+
+// The browser cache lives at module level: every test gets a fresh module, with an empty
+// cache persisted to this stub.
+let streamDomainChecks: typeof import('./domainService').streamDomainChecks;
+let savedCache: string[];
+
+beforeEach(async () => {
+  savedCache = [];
+  const stored = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      savedCache.push(value);
+      stored.set(key, value);
+    }
+  });
+  vi.resetModules();
+  ({ streamDomainChecks } = await import('./domainService'));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// Answers each request with its own name × TLD pairs except `skip`, plus `extra` domains on
+// every response.
+const stubCheckEndpoint = (extra: string[] = []) => {
+  const requests: Array<{ names: string[]; tlds: string[]; skip: string[] }> = [];
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async (_url: string, init: RequestInit) => {
+      const { names, tlds, skip } = JSON.parse(String(init.body));
+      requests.push({ names, tlds, skip });
+      const pairs = names.flatMap((n: string) => tlds.map((t: string) => `${n}${t}`));
+      const domains = [...pairs.filter((d: string) => !skip.includes(d)), ...extra];
+      const lines = domains.map(d => JSON.stringify(domainCheckResult(d, { checkedAt: new Date().toISOString() })));
+      return new Response(lines.join('\n'));
+    })
+  );
+  return requests;
+};
+
+const collect = async (names: string[], tlds: string[]) => {
+  const out: string[] = [];
+  for await (const r of streamDomainChecks(names, tlds)) out.push(r.domain);
+  return out;
+};
+
+describe('streamDomainChecks', () => {
+  it('sends one request for the missing pairs and lets the server skip cached ones', async () => {
+    stubCheckEndpoint();
+    await collect(['alpha'], ['.com']);
+
+    const requests = stubCheckEndpoint();
+    const domains = await collect(['alpha', 'beta', 'gamma'], ['.com', '.io']);
+
+    expect(requests).toEqual([{ names: ['alpha', 'beta', 'gamma'], tlds: ['.com', '.io'], skip: ['alpha.com'] }]);
+    expect(domains.sort()).toEqual(['alpha.com', 'alpha.io', 'beta.com', 'beta.io', 'gamma.com', 'gamma.io']);
+  });
+
+  it('splits large checks into sequential requests and writes the cache once per request', async () => {
+    const names = Array.from({ length: 60 }, (_, i) => `chunk${i}`);
+    const tlds = Array.from({ length: 20 }, (_, i) => `.t${String.fromCharCode(97 + i)}`);
+    const requests = stubCheckEndpoint();
+
+    expect(await collect(names, tlds)).toHaveLength(1200);
+    expect(requests.map(r => r.names.length * r.tlds.length)).toEqual([1000, 200]);
+    expect(savedCache.map(saved => JSON.parse(saved).length)).toEqual([1000, 1200]);
+  });
+
+  it('does not yield a domain twice', async () => {
+    stubCheckEndpoint();
+    await collect(['delta'], ['.com']);
+
+    stubCheckEndpoint(['delta.com']);
+    expect(await collect(['delta'], ['.com', '.net'])).toEqual(['delta.com', 'delta.net']);
+  });
+});
@@ -1,84 +1,235 @@
-import { DomainCheckResult } from '../types';
+import { DomainCheckResult, RegistrationDetails } from '../types';
+import { withSimilarBrands } from './brandSimilarity';
+import { AvailabilityCache, createAvailabilityCache, createLocalStorageCacheStorage } from './availabilityCache';
+import { MAX_DOMAIN_CHECK_PAIRS, normalizeDomainCheckInput } from './domainNames';
+import { generateNameVariants, NameVariantOptions } from './nameVariants';
+import { domainToUnicode } from './punycode';
 
-const normalizeBaseName = (name: string): string | null => {
-  const raw = String(name || '').trim();
-  if (!raw) return null;
-  // lowercase, allow a-z, 0-9 and hyphens, strip everything else
-  const cleaned = raw
-    .toLowerCase()
-    .replace(/[^a-z0-9-]/g, '')
-    .replace(/^-+/, '')
-    .replace(/-+$/, '');
+export type ClientDomainCheckOptions = {
+  // Bypass both the browser cache and the server cache ("force recheck").
+  force?: boolean;
+  // Limit the trademark screen to these Nice classes (server default otherwise).
+  niceClasses?: number[];
+  // Competitors from the brief; look-alikes of them (and of famous brands) are flagged.
+  competitors?: string[];
+};
+
+let clientCache: AvailabilityCache | null = null;
 
-  if (!cleaned) return null;
-  // DNS label length limit (63); keep it safe.
-  return cleaned.slice(0, 63);
+// Created lazily so importing this module never touches localStorage.
+const getClientCache = (): AvailabilityCache => {
+  if (!clientCache) {
+    let storage;
+    try {
+      storage = typeof localStorage !== 'undefined' ? createLocalStorageCacheStorage() : undefined;
+    } catch {
+      storage = undefined;
+    }
+    clientCache = createAvailabilityCache({ storage });
+  }
+  return clientCache;
 };
 
-const normalizeTld = (tld: string): string | null => {
-  const raw = String(tld || '').trim().toLowerCase();
-  if (!raw) return null;
-  return raw.startsWith('.') ? raw : `.${raw}`;
+// Parses an NDJSON body line by line as it arrives.
+export const readNdjson = async function* (response: Response): AsyncGenerator<any> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    // No streaming support: parse the whole body at once.
+    const text = await response.text();
+    for (const line of text.split('\n')) if (line.trim()) yield JSON.parse(line);
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    let newline = buffer.indexOf('\n');
+    while (newline >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line) yield JSON.parse(line);
+      newline = buffer.indexOf('\n');
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
 };
 
 /**
- * Checks domain availability using Google's DNS-over-HTTPS API.
- * 
- * Logic:
- * - Status 0 (NOERROR) usually means the domain exists (Taken).
- * - Status 3 (NXDOMAIN) usually means the domain does not exist (Available).
- * 
- * This is a frontend-only approximation. For production, use a real WHOIS/RDAP API.
+ * Streams results for every name × TLD pair as they resolve: cache hits first, then
+ * server results in completion order (not request order).
+ *
+ * The lookups themselves (RDAP, DNS fallback) run server-side so the user's candidates
+ * are never sent to third parties from the browser. Fresh results are served from a
+ * localStorage-backed cache shared by check and brainstorm modes.
  */
-export const checkDomainAvailability = async (baseName: string, tld: string): Promise<DomainCheckResult> => {
-  const cleanBase = normalizeBaseName(baseName) || String(baseName || '').toLowerCase();
-  const cleanTld = normalizeTld(tld) || String(tld || '').toLowerCase();
-  const domain = `${cleanBase}${cleanTld}`;
-  const url = `https://dns.google/resolve?name=${domain}&type=A`;
-
-  try {
-    const response = await fetch(url);
-    const data = await response.json();
+export const streamDomainChecks = async function* (
+  baseNames: string[],
+  tlds: string[],
+  options: ClientDomainCheckOptions = {}
+): AsyncGenerator<DomainCheckResult> {
+  const { names, tlds: exts } = normalizeDomainCheckInput(baseNames, tlds);
+  if (names.length === 0 || exts.length === 0) return;
 
-    // Status 3 = NXDOMAIN (Non-Existent Domain) -> Likely Available
-    // Status 0 = NOERROR (Domain exists) -> Taken
-    let status: 'available' | 'taken' | 'unknown' = 'unknown';
+  const cache = getClientCache();
+  // Names with at least one uncached pair, the TLDs any of them misses, and the cached
+  // pairs among those the server is told to skip.
+  const pending: string[] = [];
+  const missingTlds = new Set<string>();
+  const cached = new Set<string>();
+  for (const name of names) {
+    let missing = false;
+    for (const tld of exts) {
+      const hit = options.force ? null : cache.get(`${name}${tld}`);
+      if (hit) {
+        cached.add(hit.domain);
+        yield withSimilarBrands(hit, options.competitors);
+      } else {
+        missing = true;
+        missingTlds.add(tld);
+      }
+    }
+    if (missing) pending.push(name);
+  }
+  if (pending.length === 0) return;
 
-    if (data.Status === 3) {
-      status = 'available';
-    } else if (data.Status === 0) {
-      status = 'taken';
+  // One request at a time, each within the server's pair limit, so a check never runs more
+  // than one server-side lookup pool.
+  const requestTlds = exts.filter(tld => missingTlds.has(tld));
+  const chunkSize = Math.max(1, Math.floor(MAX_DOMAIN_CHECK_PAIRS / requestTlds.length));
+  for (let i = 0; i < pending.length; i += chunkSize) {
+    const chunk = pending.slice(i, i + chunkSize);
+    const response = await fetch('/api/domains/check', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        names: chunk,
+        tlds: requestTlds,
+        skip: chunk.flatMap(name => requestTlds.map(tld => `${name}${tld}`)).filter(d => cached.has(d)),
+        force: options.force === true,
+        niceClasses: options.niceClasses,
+        stream: true
+      }),
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to check domain availability');
     }
 
-    return {
-      domain,
-      status,
-      tld: cleanTld,
-      baseName: cleanBase
-    };
-  } catch (error) {
-    console.error(`Error checking domain ${domain}:`, error);
-    return {
-      domain,
-      status: 'unknown',
-      tld: cleanTld,
-      baseName: cleanBase
-    };
+    // Written once per request: each write re-serializes the whole persisted cache.
+    const fresh: DomainCheckResult[] = [];
+    try {
+      for await (const result of readNdjson(response)) {
+        // The server ends a stream that failed midway with an error line.
+        if (result?.error) throw new Error(result.error);
+        if (cached.has(result.domain)) continue;
+        fresh.push(result);
+        yield withSimilarBrands(result as DomainCheckResult, options.competitors);
+      }
+    } finally {
+      cache.setMany(fresh);
+    }
   }
 };
 
-export const checkMultipleDomains = async (baseNames: string[], tlds: string[]): Promise<DomainCheckResult[]> => {
-  const names = Array.from(
-    new Set((baseNames || []).map(normalizeBaseName).filter((v): v is string => Boolean(v)))
-  );
-  const exts = Array.from(new Set((tlds || []).map(normalizeTld).filter((v): v is string => Boolean(v))));
+/**
+ * Checks every name × TLD pair and resolves once all results are in, in name-major,
+ * TLD-minor order. Pass `onResult` to also receive each result as soon as it lands.
+ */
+export const checkMultipleDomains = async (
+  baseNames: string[],
+  tlds: string[],
+  options: ClientDomainCheckOptions & { onResult?: (result: DomainCheckResult) => void } = {}
+): Promise<DomainCheckResult[]> => {
+  const byDomain = new Map<string, DomainCheckResult>();
+  for await (const result of streamDomainChecks(baseNames, tlds, options)) {
+    byDomain.set(result.domain, result);
+    options.onResult?.(result);
+  }
+
+  const { names, tlds: exts } = normalizeDomainCheckInput(baseNames, tlds);
+  const out: DomainCheckResult[] = [];
+  for (const name of names) {
+    for (const tld of exts) {
+      const r = byDomain.get(`${name}${tld}`);
+      if (r) out.push(r);
+    }
+  }
+  return out;
+};
 
-  const promises: Promise<DomainCheckResult>[] = [];
+/**
+ * Placeholder cards for pairs that are still being checked (rendered as "Checking…").
+ */
+export const pendingDomainResults = (baseNames: string[], tlds: string[]): DomainCheckResult[] => {
+  const { names, tlds: exts } = normalizeDomainCheckInput(baseNames, tlds);
+  const out: DomainCheckResult[] = [];
   for (const name of names) {
     for (const tld of exts) {
-      promises.push(checkDomainAvailability(name, tld));
+      out.push({
+        domain: `${name}${tld}`,
+        unicodeDomain: domainToUnicode(`${name}${tld}`),
+        status: 'unknown',
+        tld,
+        baseName: name,
+        confidence: 0,
+        signals: { source: 'pending' },
+        checkedAt: '',
+        isPending: true
+      });
     }
   }
+  return out;
+};
+
+export const checkDomainAvailability = async (
+  baseName: string,
+  tld: string,
+  options: ClientDomainCheckOptions = {}
+): Promise<DomainCheckResult> => {
+  const [result] = await checkMultipleDomains([baseName], [tld], options);
+  if (!result) throw new Error(`Invalid domain: ${baseName}${tld}`);
+  return result;
+};
 
-  return Promise.all(promises);
-};
\ No newline at end of file
+/**
+ * Checks the variants of a (usually taken) domain's base name ("getfoo", "foohq", ...) on
+ * the same TLD, in variant order.
+ */
+export const checkNameVariants = async (
+  result: DomainCheckResult,
+  options: ClientDomainCheckOptions & NameVariantOptions = {}
+): Promise<DomainCheckResult[]> => {
+  const variants = generateNameVariants(domainToUnicode(result.baseName), options);
+  if (variants.length === 0) return [];
+  return checkMultipleDomains(variants.map(v => v.name), [result.tld], {
+    force: options.force,
+    niceClasses: options.niceClasses,
+    competitors: options.competitors
+  });
+};
+
+/**
+ * On-demand RDAP registration details (registrar, dates, status codes, nameservers) for a
+ * taken domain. Never throws: failures are returned as details with an `error`.
+ */
+export const fetchRegistrationDetails = async (result: DomainCheckResult): Promise<RegistrationDetails> => {
+  try {
+    const response = await fetch('/api/domains/details', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ name: result.baseName, tld: result.tld }),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(data?.error || 'Failed to load registration details');
+    return data as RegistrationDetails;
+  } catch (error: any) {
+    return { statuses: [], nameservers: [], fetchedAt: new Date().toISOString(), error: error?.message || 'Details unavailable' };
+  }
+};
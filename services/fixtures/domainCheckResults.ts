@@ -0,0 +1,37 @@
+// Realistic `DomainCheckResult`s for tests: every field a taken, parked, screened
+// brainstorm result carries, as the server returns it.
+
+import { DomainCheckResult } from '../../types';
+
+export const domainCheckResult = (domain: string, overrides: Partial<DomainCheckResult> = {}): DomainCheckResult => {
+  const dot = domain.indexOf('.');
+  const baseName = domain.slice(0, dot);
+  return {
+    domain,
+    unicodeDomain: domain,
+    status: 'taken',
+    tld: domain.slice(dot),
+    baseName,
+    parked: true,
+    forSale: true,
+    parkingService: 'Sedo',
+    trademark: {
+      risk: 'medium',
+      hits: [
+        { mark: baseName.toUpperCase(), matchType: 'fuzzy', score: 0.91, classes: [9, 42], live: true, owner: 'Example Holdings LLC', registrationNumber: '7012345', office: 'USPTO' }
+      ],
+      niceClasses: [9, 42]
+    },
+    similarBrands: [{ brand: 'Namecheap', source: 'brand', kind: 'edit', score: 0.82 }],
+    candidate: { name: baseName, rationale: 'Short, pronounceable and hints at naming things.', style: 'invented', origin: 'invented' },
+    confidence: 0.95,
+    signals: {
+      source: 'rdap',
+      rdap: 'registered',
+      dns: { NS: 'records', SOA: 'records', A: 'records' },
+      nameservers: ['ns1.sedoparking.com', 'ns2.sedoparking.com']
+    },
+    checkedAt: '2026-10-19T12:00:00.000Z',
+    ...overrides
+  };
+};
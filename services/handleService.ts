@@ -0,0 +1,22 @@
+import { HandleCheckResult, HandlePlatform } from '../types';
+
+/**
+ * Checks base names as npm packages, PyPI projects and GitHub accounts. The lookups run
+ * server-side (`/api/handles/check`), like domain checks.
+ */
+export const checkHandles = async (names: string[], platforms?: HandlePlatform[]): Promise<HandleCheckResult[]> => {
+  const response = await fetch('/api/handles/check', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ names, platforms }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to check handles');
+  }
+
+  return response.json();
+};
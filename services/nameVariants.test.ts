@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+
+import { generateNameVariants, NameVariantKind } from './nameVariants';
+
+const names = (base: string, kinds?: NameVariantKind[]) =>
+  generateNameVariants(base, { kinds, maxVariants: 100 }).map(v => v.name);
+
+describe('generateNameVariants', () => {
+  it('interleaves kinds so a short list mixes strategies', () => {
+    expect(generateNameVariants('Foo', { maxVariants: 4 })).toEqual([
+      { name: 'foohq', kind: 'suffix' },
+      { name: 'getfoo', kind: 'prefix' },
+      { name: 'foo-app', kind: 'hyphen' },
+      { name: 'foos', kind: 'plural' }
+    ]);
+  });
+
+  it('is deterministic and capped at 30 by default', () => {
+    const first = generateNameVariants('namer');
+    expect(first).toHaveLength(30);
+    expect(generateNameVariants('namer')).toEqual(first);
+  });
+
+  it('drops vowels the way product names do', () => {
+    expect(names('tumbler', ['vowel-drop'])).toEqual(['tumblr', 'tmblr']);
+    expect(names('cascade', ['vowel-drop'])).toEqual(['cascad', 'cscd']);
+  });
+
+  it('doubles letters without creating triples', () => {
+    expect(names('sumo', ['double'])).toEqual(['sumoo', 'summo']);
+    expect(names('boss', ['double'])).toEqual([]);
+  });
+
+  it('switches between singular and plural', () => {
+    expect(names('story', ['plural'])).toEqual(['stories']);
+    expect(names('boxes', ['plural'])).toEqual(['box']);
+    expect(names('cats', ['plural'])).toEqual(['cat']);
+    expect(names('box', ['plural'])).toEqual(['boxes']);
+  });
+
+  it('offers the joined form of a hyphenated name and skips unusable labels', () => {
+    expect(names('foo-bar', ['hyphen'])[0]).toBe('foobar');
+    expect(names('foo', ['vowel-drop'])).toEqual([]);
+    expect(names('', ['suffix'])).toEqual([]);
+    expect(names('foo', ['suffix', 'prefix'])).not.toContain('foo');
+  });
+});
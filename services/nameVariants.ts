@@ -0,0 +1,116 @@
+// Deterministic name variants for a taken base name ("foo" -> "getfoo", "foohq", "foo-app", ...).
+// The same input always produces the same list in the same order.
+
+export type NameVariantKind = 'prefix' | 'suffix' | 'hyphen' | 'vowel-drop' | 'double' | 'plural';
+
+export type NameVariant = {
+  name: string;
+  kind: NameVariantKind;
+};
+
+export type NameVariantOptions = {
+  // Upper bound on the returned list (default 30).
+  maxVariants?: number;
+  // Only generate these kinds (default: all).
+  kinds?: NameVariantKind[];
+};
+
+export const NAME_VARIANT_PREFIXES = ['get', 'try', 'use', 'go', 'my', 'join', 'meet', 'hey', 'the'];
+export const NAME_VARIANT_SUFFIXES = ['hq', 'app', 'labs', 'hub', 'ly', 'ify', 'now', 'co', 'kit', 'io'];
+// Affixes that also read well with a hyphen ("foo-app", "get-foo").
+const HYPHEN_PREFIXES = ['get', 'try', 'use'];
+const HYPHEN_SUFFIXES = ['app', 'hq', 'labs', 'hub'];
+
+const DEFAULT_MAX_VARIANTS = 30;
+const MIN_LENGTH = 3;
+const MAX_LENGTH = 63;
+
+const VOWEL = /[aeiou]/;
+const isVowel = (ch: string) => VOWEL.test(ch);
+const isConsonant = (ch: string) => /[a-z]/.test(ch) && !isVowel(ch);
+
+// "tumbler" -> "tumblr", "flicker" -> "flickr", "cascade" -> "cscd" (first letter always kept).
+const vowelDrops = (base: string): string[] => {
+  const out: string[] = [];
+  const er = base.match(/^(.+[^aeiou])er$/);
+  if (er) out.push(`${er[1]}r`);
+  if (base.length > 4 && base.endsWith('e') && isConsonant(base[base.length - 2])) out.push(base.slice(0, -1));
+  out.push(base[0] + base.slice(1).replace(/[aeiou]/g, ''));
+  return out;
+};
+
+// "bit" -> "bitt", "flow" -> "floww"; "boss" is left alone (no triple letters).
+const doublings = (base: string): string[] => {
+  const out: string[] = [];
+  const last = base[base.length - 1];
+  if (/[a-z]/.test(last) && base[base.length - 2] !== last) out.push(base + last);
+  // The first single consonant after a vowel: "sumo" -> "summo", "papa" -> "pappa".
+  for (let i = 1; i < base.length - 1; i += 1) {
+    const ch = base[i];
+    if (isConsonant(ch) && isVowel(base[i - 1]) && base[i + 1] !== ch) {
+      out.push(base.slice(0, i + 1) + base.slice(i));
+      break;
+    }
+  }
+  return out;
+};
+
+// Plural for names that look singular, singular for names that look plural.
+const pluralForms = (base: string): string[] => {
+  if (/ies$/.test(base)) return [base.replace(/ies$/, 'y')];
+  if (/(?:s|x|z|ch|sh)es$/.test(base)) return [base.slice(0, -2)];
+  if (/[^s]s$/.test(base)) return [base.slice(0, -1)];
+  if (/[^aeiou]y$/.test(base)) return [base.replace(/y$/, 'ies')];
+  if (/(?:s|x|z|ch|sh)$/.test(base)) return [`${base}es`];
+  return [`${base}s`];
+};
+
+const isUsableLabel = (name: string): boolean =>
+  name.length >= MIN_LENGTH &&
+  name.length <= MAX_LENGTH &&
+  /^[\p{L}\p{N}](?:[\p{L}\p{N}-]*[\p{L}\p{N}])?$/u.test(name) &&
+  !name.includes('--');
+
+/**
+ * Builds variants of a base name: prefixes and suffixes ("getfoo", "foohq"), hyphenated
+ * affixes ("foo-app"), vowel dropping ("flickr"), letter doubling and plural/singular.
+ * Kinds are interleaved so a capped list still mixes every strategy.
+ */
+export const generateNameVariants = (baseName: string, options: NameVariantOptions = {}): NameVariant[] => {
+  const base = String(baseName || '').normalize('NFC').trim().toLowerCase();
+  if (!base) return [];
+  const joined = base.replace(/-/g, '');
+  const kinds = new Set<NameVariantKind>(options.kinds ?? ['prefix', 'suffix', 'hyphen', 'vowel-drop', 'double', 'plural']);
+
+  const groups: Array<[NameVariantKind, string[]]> = [
+    ['suffix', NAME_VARIANT_SUFFIXES.map(s => `${base}${s}`)],
+    ['prefix', NAME_VARIANT_PREFIXES.map(p => `${p}${base}`)],
+    ['hyphen', [
+      ...(joined !== base ? [joined] : []),
+      ...HYPHEN_SUFFIXES.map(s => `${base}-${s}`),
+      ...HYPHEN_PREFIXES.map(p => `${p}-${base}`)
+    ]],
+    ['vowel-drop', vowelDrops(joined)],
+    ['double', doublings(joined)],
+    ['plural', pluralForms(base)]
+  ];
+  const lists = groups.filter(([kind]) => kinds.has(kind));
+
+  const seen = new Set<string>([base]);
+  const out: NameVariant[] = [];
+  const max = Math.max(0, options.maxVariants ?? DEFAULT_MAX_VARIANTS);
+  for (let round = 0; out.length < max; round += 1) {
+    let added = false;
+    for (const [kind, names] of lists) {
+      if (round >= names.length) continue;
+      added = true;
+      const name = names[round];
+      if (seen.has(name) || !isUsableLabel(name)) continue;
+      seen.add(name);
+      out.push({ name, kind });
+      if (out.length >= max) break;
+    }
+    if (!added) break;
+  }
+  return out;
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizeBaseName, normalizeTld } from './domainNames';
+import { domainToAscii, domainToUnicode, PunycodeError, punycodeDecode, punycodeEncode, toAsciiLabel } from './punycode';
+
+describe('punycode', () => {
+  it('round-trips known labels', () => {
+    const vectors: Array<[string, string]> = [
+      ['bücher', 'bcher-kva'],
+      ['münchen', 'mnchen-3ya'],
+      ['café', 'caf-dma'],
+      ['пример', 'e1afmkfd'],
+      ['中国', 'fiqs8s'],
+      ['рф', 'p1ai']
+    ];
+    for (const [unicode, encoded] of vectors) {
+      expect(punycodeEncode(unicode)).toBe(encoded);
+      expect(punycodeDecode(encoded)).toBe(unicode);
+    }
+  });
+
+  it('converts whole domains label by label', () => {
+    expect(domainToAscii('Café.FR')).toBe('xn--caf-dma.fr');
+    expect(domainToAscii('пример.рф')).toBe('xn--e1afmkfd.xn--p1ai');
+    expect(domainToUnicode('xn--e1afmkfd.xn--p1ai')).toBe('пример.рф');
+    expect(domainToUnicode('namer.com')).toBe('namer.com');
+  });
+
+  it('normalizes to NFC before encoding, and keeps undecodable labels', () => {
+    expect(toAsciiLabel('cafe\u0301')).toBe(toAsciiLabel('caf\u00e9'));
+    expect(() => punycodeDecode('99999999999')).toThrow(PunycodeError);
+    expect(domainToUnicode('xn--99999999999.com')).toBe('xn--99999999999.com');
+  });
+});
+
+describe('normalizeBaseName / normalizeTld', () => {
+  it('keeps letters of any script and encodes them', () => {
+    expect(normalizeBaseName(' Café Crème! ')).toBe(toAsciiLabel('cafécrème'));
+    expect(normalizeBaseName('--Namer--')).toBe('namer');
+    expect(normalizeBaseName('!!!')).toBeNull();
+  });
+
+  it('trims names until the encoded label fits in 63 characters', () => {
+    const ascii = normalizeBaseName('ü'.repeat(80));
+    expect(ascii?.startsWith('xn--')).toBe(true);
+    expect(ascii!.length).toBeLessThanOrEqual(63);
+  });
+
+  it('accepts TLDs with or without the dot and in Unicode', () => {
+    expect(normalizeTld('COM')).toBe('.com');
+    expect(normalizeTld('.рф')).toBe('.xn--p1ai');
+    expect(normalizeTld('  ')).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+// Punycode (RFC 3492) and the IDNA label conversions built on it. Written out here
+// rather than pulled from a package so the browser bundle and the server share it.
+
+const BASE = 36;
+const T_MIN = 1;
+const T_MAX = 26;
+const SKEW = 38;
+const DAMP = 700;
+const INITIAL_BIAS = 72;
+const INITIAL_N = 128;
+const MAX_INT = 0x7fffffff;
+
+export const ACE_PREFIX = 'xn--';
+
+export class PunycodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PunycodeError';
+  }
+}
+
+const adapt = (delta: number, numPoints: number, firstTime: boolean): number => {
+  let d = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  d += Math.floor(d / numPoints);
+  let k = 0;
+  while (d > ((BASE - T_MIN) * T_MAX) >> 1) {
+    d = Math.floor(d / (BASE - T_MIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - T_MIN + 1) * d) / (d + SKEW));
+};
+
+// 0..25 -> a..z, 26..35 -> 0..9
+const digitToChar = (digit: number): string => String.fromCharCode(digit + 22 + 75 * (digit < 26 ? 1 : 0));
+
+const charToDigit = (code: number): number => {
+  if (code >= 0x30 && code <= 0x39) return code - 22; // 0-9
+  if (code >= 0x41 && code <= 0x5a) return code - 0x41; // A-Z
+  if (code >= 0x61 && code <= 0x7a) return code - 0x61; // a-z
+  return BASE;
+};
+
+const threshold = (k: number, bias: number): number =>
+  k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias;
+
+/** Encodes a Unicode label to its Punycode form, without the `xn--` prefix. */
+export const punycodeEncode = (input: string): string => {
+  const codePoints = Array.from(input, ch => ch.codePointAt(0) as number);
+  const output: string[] = codePoints.filter(cp => cp < 0x80).map(cp => String.fromCharCode(cp));
+  const basicLength = output.length;
+  let handled = basicLength;
+  if (basicLength > 0) output.push('-');
+
+  let n = INITIAL_N;
+  let delta = 0;
+  let bias = INITIAL_BIAS;
+
+  while (handled < codePoints.length) {
+    let m = MAX_INT;
+    for (const cp of codePoints) if (cp >= n && cp < m) m = cp;
+    if (m - n > Math.floor((MAX_INT - delta) / (handled + 1))) throw new PunycodeError('Label is too long to encode');
+    delta += (m - n) * (handled + 1);
+    n = m;
+
+    for (const cp of codePoints) {
+      if (cp < n && ++delta > MAX_INT) throw new PunycodeError('Label is too long to encode');
+      if (cp !== n) continue;
+      let q = delta;
+      for (let k = BASE; ; k += BASE) {
+        const t = threshold(k, bias);
+        if (q < t) break;
+        output.push(digitToChar(t + ((q - t) % (BASE - t))));
+        q = Math.floor((q - t) / (BASE - t));
+      }
+      output.push(digitToChar(q));
+      bias = adapt(delta, handled + 1, handled === basicLength);
+      delta = 0;
+      handled += 1;
+    }
+    delta += 1;
+    n += 1;
+  }
+  return output.join('');
+};
+
+/** Decodes a Punycode label (without the `xn--` prefix) back to Unicode. */
+export const punycodeDecode = (input: string): string => {
+  const output: number[] = [];
+  const lastDelimiter = input.lastIndexOf('-');
+  for (let j = 0; j < Math.max(0, lastDelimiter); j += 1) {
+    const code = input.charCodeAt(j);
+    if (code >= 0x80) throw new PunycodeError('Invalid Punycode: non-basic code point');
+    output.push(code);
+  }
+
+  let n = INITIAL_N;
+  let bias = INITIAL_BIAS;
+  let i = 0;
+  for (let pos = lastDelimiter > 0 ? lastDelimiter + 1 : 0; pos < input.length; ) {
+    const oldI = i;
+    let w = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (pos >= input.length) throw new PunycodeError('Invalid Punycode: truncated input');
+      const digit = charToDigit(input.charCodeAt(pos++));
+      if (digit >= BASE || digit > Math.floor((MAX_INT - i) / w)) throw new PunycodeError('Invalid Punycode digit');
+      i += digit * w;
+      const t = threshold(k, bias);
+      if (digit < t) break;
+      if (w > Math.floor(MAX_INT / (BASE - t))) throw new PunycodeError('Invalid Punycode: overflow');
+      w *= BASE - t;
+    }
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    if (Math.floor(i / length) > MAX_INT - n) throw new PunycodeError('Invalid Punycode: overflow');
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i, 0, n);
+    i += 1;
+  }
+  return String.fromCodePoint(...output);
+};
+
+/**
+ * ASCII (A-label) form of a single label: NFC-normalized, lowercased, and Punycode-encoded
+ * with the `xn--` prefix when it contains anything outside ASCII. Throws PunycodeError
+ * when encoding fails.
+ */
+export const toAsciiLabel = (label: string): string => {
+  const clean = String(label || '').normalize('NFC').toLowerCase();
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x00-\x7f]*$/.test(clean)) return clean;
+  return `${ACE_PREFIX}${punycodeEncode(clean)}`;
+};
+
+/**
+ * Unicode (U-label) form of a single label. Non-`xn--` labels are returned lowercased;
+ * invalid Punycode throws PunycodeError.
+ */
+export const toUnicodeLabel = (label: string): string => {
+  const clean = String(label || '').toLowerCase();
+  if (!clean.startsWith(ACE_PREFIX)) return clean;
+  return punycodeDecode(clean.slice(ACE_PREFIX.length)).normalize('NFC');
+};
+
+const mapLabels = (domain: string, fn: (label: string) => string): string =>
+  String(domain || '')
+    .split('.')
+    .map(label => (label ? fn(label) : label))
+    .join('.');
+
+/** `café.fr` -> `xn--caf-dma.fr` (also works on a bare TLD like `.рф`). */
+export const domainToAscii = (domain: string): string => mapLabels(domain, toAsciiLabel);
+
+/** `xn--caf-dma.fr` -> `café.fr`. Labels that fail to decode are kept as-is. */
+export const domainToUnicode = (domain: string): string =>
+  mapLabels(domain, label => {
+    try {
+      return toUnicodeLabel(label);
+    } catch {
+      return label.toLowerCase();
+    }
+  });
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { toAsciiLabel } from './punycode';
+import { detectScripts, validateRegistrablePair } from './registryRules';
+
+describe('validateRegistrablePair', () => {
+  it('accepts ordinary LDH names', () => {
+    expect(validateRegistrablePair('namer', '.com')).toBeNull();
+    expect(validateRegistrablePair('x', '.de')).toBeNull();
+    expect(validateRegistrablePair('a1-b2', '.io')).toBeNull();
+  });
+
+  it('applies the generic hyphen and length rules', () => {
+    expect(validateRegistrablePair('-namer', '.com')).toBe('Names cannot start or end with a hyphen');
+    expect(validateRegistrablePair('ab--cd', '.com')).toBe('Hyphens in the 3rd and 4th position are reserved for IDNs');
+    expect(validateRegistrablePair('a'.repeat(64), '.com')).toBe('.com names can have at most 63 characters');
+    expect(validateRegistrablePair('nam_er', '.com')).toBe('Only letters, digits and hyphens are allowed');
+  });
+
+  it('applies per-registry minimum lengths', () => {
+    expect(validateRegistrablePair('ab', '.it')).toBe('.it names need at least 3 characters');
+    expect(validateRegistrablePair('abc', '.it')).toBeNull();
+    expect(validateRegistrablePair('a', '.eu')).toBe('.eu names need at least 2 characters');
+  });
+
+  it('points second-level-only TLDs to their zones', () => {
+    expect(validateRegistrablePair('namer', '.br')).toBe(
+      '.br does not offer direct registrations; try namer.com.br or namer.net.br or namer.app.br or namer.dev.br'
+    );
+  });
+
+  it('refuses unknown and restricted TLDs', () => {
+    expect(validateRegistrablePair('namer', '.notatld')).toBe('.notatld is not a delegated top-level domain');
+    expect(validateRegistrablePair('namer', '.google')).toBe('.google is restricted to eligible organisations or the brand owner');
+  });
+
+  it('checks IDN scripts against what the registry accepts', () => {
+    expect(validateRegistrablePair(toAsciiLabel('café'), '.fr')).toBeNull();
+    expect(validateRegistrablePair(toAsciiLabel('пример'), '.fr')).toBe('.fr does not accept Cyrillic characters');
+    expect(validateRegistrablePair(toAsciiLabel('café'), '.io')).toBe('.io does not accept internationalized (non-ASCII) names');
+    expect(validateRegistrablePair(toAsciiLabel('пример'), '.xn--p1ai')).toBeNull();
+    expect(validateRegistrablePair(toAsciiLabel('pаypal'), '.com')).toBe('Names cannot mix Latin and Cyrillic characters');
+  });
+});
+
+describe('detectScripts', () => {
+  it('ignores digits and hyphens and allows Japanese script mixes', () => {
+    expect(detectScripts('café-2')).toEqual(['latin']);
+    expect(detectScripts('東京すかい')).toEqual(['han', 'kana']);
+    expect(validateRegistrablePair(toAsciiLabel('東京すかい'), '.jp')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+import { ACE_PREFIX, toUnicodeLabel } from './punycode';
+import { getTldInfo } from './tldCatalog';
+
+export type IdnScript =
+  | 'latin'
+  | 'greek'
+  | 'cyrillic'
+  | 'arabic'
+  | 'hebrew'
+  | 'han'
+  | 'kana'
+  | 'hangul'
+  | 'thai'
+  | 'devanagari'
+  | 'other';
+
+export interface RegistryRule {
+  minLength?: number;
+  maxLength?: number;
+  // Direct registrations under the TLD are not offered; names go under these zones instead.
+  secondLevelOnly?: string[];
+  // Scripts accepted in internationalized names; `[]` means ASCII only. Unset: no
+  // script restriction is known, the registry has the final word.
+  scripts?: IdnScript[];
+}
+
+// Applies to every TLD (RFC 1035 / RFC 5891).
+const BASE_RULE: Required<Pick<RegistryRule, 'minLength' | 'maxLength'>> = { minLength: 1, maxLength: 63 };
+
+/**
+ * Known registry policies that differ from the generic LDH rules. Not exhaustive: TLDs
+ * missing here only get the base checks.
+ */
+export const REGISTRY_RULES: Record<string, RegistryRule> = {
+  // DENIC has allowed single-character and all-digit names since 2009; its hyphen rules
+  // (not leading/trailing, not in both the 3rd and 4th position) are the generic ones.
+  '.de': { minLength: 1, scripts: ['latin'] },
+  '.eu': { minLength: 2, scripts: ['latin', 'greek', 'cyrillic'] },
+  '.ca': { minLength: 2, scripts: ['latin'] },
+  '.it': { minLength: 3, scripts: ['latin'] },
+  '.es': { minLength: 3, scripts: ['latin'] },
+  '.us': { minLength: 2, scripts: [] },
+  '.cn': { minLength: 2, scripts: ['han'] },
+  '.fr': { scripts: ['latin'] },
+  '.be': { scripts: ['latin'] },
+  '.ch': { scripts: ['latin'] },
+  '.at': { scripts: ['latin'] },
+  '.jp': { scripts: ['han', 'kana'] },
+  '.kr': { scripts: ['hangul'] },
+  '.xn--p1ai': { scripts: ['cyrillic'] }, // .рф
+  '.xn--e1a4c': { scripts: ['cyrillic'] }, // .ею
+  '.xn--qxa6a': { scripts: ['greek'] }, // .ευ
+  '.xn--fiqs8s': { scripts: ['han'] }, // .中国
+  // No IDN registrations at all.
+  '.uk': { scripts: [] },
+  '.nl': { scripts: [] },
+  '.io': { scripts: [] },
+  '.ai': { scripts: [] },
+  '.sh': { scripts: [] },
+  '.gg': { scripts: [] },
+  '.co': { scripts: [] },
+  '.br': { secondLevelOnly: ['com.br', 'net.br', 'app.br', 'dev.br'] },
+  '.za': { secondLevelOnly: ['co.za', 'org.za', 'web.za'] },
+  '.ar': { secondLevelOnly: ['com.ar', 'net.ar'] },
+  '.cy': { secondLevelOnly: ['com.cy', 'net.cy'] },
+  '.bd': { secondLevelOnly: ['com.bd', 'net.bd'] },
+  '.np': { secondLevelOnly: ['com.np', 'org.np'] },
+  '.tt': { secondLevelOnly: ['co.tt', 'com.tt'] },
+  '.fk': { secondLevelOnly: ['co.fk', 'org.fk'] },
+  '.kw': { secondLevelOnly: ['com.kw', 'net.kw'] },
+  '.jm': { secondLevelOnly: ['com.jm', 'net.jm'] }
+};
+
+const SCRIPT_PATTERNS: Array<[IdnScript, RegExp]> = [
+  ['latin', /\p{Script=Latin}/u],
+  ['greek', /\p{Script=Greek}/u],
+  ['cyrillic', /\p{Script=Cyrillic}/u],
+  ['arabic', /\p{Script=Arabic}/u],
+  ['hebrew', /\p{Script=Hebrew}/u],
+  ['han', /\p{Script=Han}/u],
+  ['kana', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ['hangul', /\p{Script=Hangul}/u],
+  ['thai', /\p{Script=Thai}/u],
+  ['devanagari', /\p{Script=Devanagari}/u]
+];
+
+// Script mixes that are normal in one writing system (Japanese, Korean).
+const ALLOWED_SCRIPT_MIXES: IdnScript[][] = [['han', 'kana'], ['han', 'hangul']];
+
+const SCRIPT_LABELS: Record<IdnScript, string> = {
+  latin: 'Latin',
+  greek: 'Greek',
+  cyrillic: 'Cyrillic',
+  arabic: 'Arabic',
+  hebrew: 'Hebrew',
+  han: 'Chinese',
+  kana: 'Japanese kana',
+  hangul: 'Korean',
+  thai: 'Thai',
+  devanagari: 'Devanagari',
+  other: 'non-Latin'
+};
+
+// Scripts used by the letters of `label`; digits, hyphens and combining marks are neutral.
+export const detectScripts = (label: string): IdnScript[] => {
+  const found = new Set<IdnScript>();
+  for (const ch of Array.from(label)) {
+    if (!/\p{L}/u.test(ch)) continue;
+    const match = SCRIPT_PATTERNS.find(([, re]) => re.test(ch));
+    found.add(match ? match[0] : 'other');
+  }
+  return Array.from(found);
+};
+
+const checkScripts = (unicodeLabel: string, tld: string, rule: RegistryRule): string | null => {
+  const scripts = detectScripts(unicodeLabel);
+  const isAsciiOnly = Array.from(unicodeLabel).every(ch => ch.charCodeAt(0) < 0x80);
+  if (isAsciiOnly) return null;
+
+  if (
+    scripts.length > 1 &&
+    !ALLOWED_SCRIPT_MIXES.some(mix => scripts.every(script => mix.includes(script)))
+  ) {
+    return `Names cannot mix ${scripts.map(s => SCRIPT_LABELS[s]).join(' and ')} characters`;
+  }
+  if (!rule.scripts) return null;
+  if (rule.scripts.length === 0) return `${tld} does not accept internationalized (non-ASCII) names`;
+  const refused = scripts.find(script => !rule.scripts?.includes(script));
+  return refused ? `${tld} does not accept ${SCRIPT_LABELS[refused]} characters` : null;
+};
+
+/**
+ * Checks whether `label` (an already normalized ASCII base name such as "namer" or
+ * "xn--caf-dma") can be registered directly under `tld` (".de"). Runs before any
+ * availability lookup. Returns a human-readable reason when it cannot, `null` when it can.
+ *
+ * Minimum lengths count Unicode characters, the 63 limit counts the ASCII form.
+ */
+export const validateRegistrablePair = (label: string, tld: string): string | null => {
+  const name = String(label || '').toLowerCase();
+  const info = getTldInfo(tld);
+
+  if (!info) return `${tld} is not a delegated top-level domain`;
+  if (info.restricted) return `${info.tld} is restricted to eligible organisations or the brand owner`;
+
+  const rule: RegistryRule = { ...BASE_RULE, ...(REGISTRY_RULES[info.tld] || {}) };
+  const min = rule.minLength ?? BASE_RULE.minLength;
+  const max = rule.maxLength ?? BASE_RULE.maxLength;
+
+  if (rule.secondLevelOnly && rule.secondLevelOnly.length > 0) {
+    const alternatives = rule.secondLevelOnly.map(zone => `${name}.${zone}`).join(' or ');
+    return `${info.tld} does not offer direct registrations; try ${alternatives}`;
+  }
+  if (!name) return 'The name is empty';
+  if (!/^[a-z0-9-]+$/.test(name)) return 'Only letters, digits and hyphens are allowed';
+  if (name.startsWith('-') || name.endsWith('-')) return 'Names cannot start or end with a hyphen';
+  if (/^..--/.test(name) && !name.startsWith(ACE_PREFIX)) {
+    return 'Hyphens in the 3rd and 4th position are reserved for IDNs';
+  }
+
+  let unicode = name;
+  if (name.startsWith(ACE_PREFIX)) {
+    try {
+      unicode = toUnicodeLabel(name);
+    } catch {
+      return `${name} is not a valid internationalized name`;
+    }
+    if (/^[\x00-\x7f]*$/.test(unicode)) return `${name} is not a valid internationalized name`;
+  }
+
+  if (Array.from(unicode).length < min) return `${info.tld} names need at least ${min} characters`;
+  if (name.length > max) return `${info.tld} names can have at most ${max} characters`;
+  return checkScripts(unicode, info.tld, rule);
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  areAdjacentKeys,
+  homoglyphSkeleton,
+  keyboardDistance,
+  levenshteinDistance,
+  matchKey,
+  phoneticKey,
+  similarityRatio,
+  soundex,
+  trigrams
+} from './textSimilarity';
+
+describe('edit distance', () => {
+  it('folds accents and separators into the match key', () => {
+    expect(matchKey('Café-Bar 2')).toBe('cafebar2');
+  });
+
+  it('counts inserts, deletes and substitutions', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(similarityRatio('Namer', 'namer')).toBe(1);
+    expect(similarityRatio('namer', 'namor')).toBeCloseTo(0.8);
+    expect(similarityRatio('', '--')).toBe(0);
+  });
+});
+
+describe('sound keys', () => {
+  it('collapses spellings that sound the same', () => {
+    expect(phoneticKey('Kwikr')).toBe('kwkr');
+    expect(phoneticKey('Quicker')).toBe('kwkr');
+    expect(phoneticKey('Fone')).toBe(phoneticKey('Phone'));
+    expect(phoneticKey('Knot')).toBe(phoneticKey('Not'));
+  });
+
+  it('computes American Soundex', () => {
+    expect(soundex('Robert')).toBe('R163');
+    expect(soundex('Rupert')).toBe('R163');
+    expect(soundex('Ashcraft')).toBe('A261');
+    expect(soundex('Pfister')).toBe('P236');
+    expect(soundex('Lee')).toBe('L000');
+  });
+});
+
+describe('trigrams', () => {
+  it('pads short names so they still produce trigrams', () => {
+    expect(trigrams('Ab')).toEqual(['  a', ' ab', 'ab ']);
+  });
+});
+
+describe('typing slips', () => {
+  it('knows which QWERTY keys touch', () => {
+    expect(areAdjacentKeys('g', 'h')).toBe(true);
+    expect(areAdjacentKeys('q', 'a')).toBe(true);
+    expect(areAdjacentKeys('q', 'p')).toBe(false);
+  });
+
+  it('charges half an edit for neighbouring keys and swapped letters', () => {
+    expect(keyboardDistance('goolge', 'google')).toBe(0.5);
+    expect(keyboardDistance('gopgle', 'google')).toBe(0.5);
+    expect(keyboardDistance('gozgle', 'google')).toBe(1);
+  });
+});
+
+describe('homoglyphSkeleton', () => {
+  it('maps visual look-alikes onto the same skeleton', () => {
+    expect(homoglyphSkeleton('paypa1')).toBe('paypal');
+    expect(homoglyphSkeleton('pаypal')).toBe('paypal');
+    expect(homoglyphSkeleton('rnicrosoft')).toBe(homoglyphSkeleton('microsoft'));
+  });
+});
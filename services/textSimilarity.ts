@@ -0,0 +1,179 @@
+// String similarity helpers for name screening (trademarks, brand look-alikes).
+// Everything works on `matchKey` forms: lowercase ASCII letters and digits only.
+
+/** "Café-Bar 2" -> "cafebar2" (accents folded, separators dropped). */
+export const matchKey = (value: string): string =>
+  String(value || '')
+    .normalize('NFKD')
+    .replace(/\p{M}+/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+/** Classic edit distance (insert / delete / substitute), O(|a|·|b|) time, O(|b|) memory. */
+export const levenshteinDistance = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+/** 1 for identical keys, 0 for nothing in common (edit distance over the longer length). */
+export const similarityRatio = (a: string, b: string): number => {
+  const x = matchKey(a);
+  const y = matchKey(b);
+  const longest = Math.max(x.length, y.length);
+  if (longest === 0) return 0;
+  return 1 - levenshteinDistance(x, y) / longest;
+};
+
+// Ordered rewrites, applied left to right, that map spellings with the same sound onto
+// one form ("phlow" / "flo", "kwik" / "quick").
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/ph/g, 'f'],
+  [/qu/g, 'kw'],
+  [/ck|q/g, 'k'],
+  [/^x/, 's'],
+  [/x/g, 'ks'],
+  [/c(?=[eiy])/g, 's'],
+  [/c/g, 'k'],
+  [/z/g, 's'],
+  [/dg(?=[eiy])/g, 'j'],
+  [/gh(?![aeiou])/g, ''],
+  [/wh/g, 'w'],
+  [/y/g, 'i'],
+  [/(?!^)h(?![aeiou])/g, '']
+];
+
+/**
+ * Rough Metaphone-style sound key: spelling variants collapse onto the same key, vowels
+ * after the first letter are dropped, doubled letters are merged.
+ * "Kwikr" and "Quicker" both give "kwkr"; "Fone" and "Phone" both give "fn".
+ */
+export const phoneticKey = (value: string): string => {
+  let s = matchKey(value).replace(/[0-9]/g, '');
+  if (!s) return '';
+  // Silent first letters: "knot", "gnome", "pneu", "write".
+  s = s.replace(/^(?:kn|gn|pn|wr)/, m => m[1]);
+  for (const [pattern, replacement] of PHONETIC_RULES) s = s.replace(pattern, replacement);
+  const first = s[0];
+  const rest = s.slice(1).replace(/[aeiou]/g, '');
+  return (first + rest).replace(/(.)\1+/g, '$1');
+};
+
+/** American Soundex ("Robert" -> "R163"); coarser than `phoneticKey`, handy for blocking. */
+export const soundex = (value: string): string => {
+  const s = matchKey(value).replace(/[0-9]/g, '');
+  if (!s) return '';
+  const codes: Record<string, string> = {
+    b: '1', f: '1', p: '1', v: '1',
+    c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+    d: '3', t: '3',
+    l: '4',
+    m: '5', n: '5',
+    r: '6'
+  };
+  let out = s[0].toUpperCase();
+  let last = codes[s[0]] || '';
+  for (const ch of s.slice(1)) {
+    const code = codes[ch] || '';
+    if (code && code !== last) out += code;
+    // h and w do not separate equal codes; vowels do.
+    if (ch !== 'h' && ch !== 'w') last = code;
+    if (out.length === 4) break;
+  }
+  return out.padEnd(4, '0');
+};
+
+/** Overlapping character trigrams of the match key, padded so short names still get some. */
+export const trigrams = (value: string): string[] => {
+  const key = `  ${matchKey(value)} `;
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= key.length; i += 1) out.add(key.slice(i, i + 3));
+  return Array.from(out);
+};
+
+// QWERTY key positions (x = column plus the row's stagger, y = row).
+const KEYBOARD_ROWS: Array<[string, number]> = [
+  ['1234567890', 0],
+  ['qwertyuiop', 0.5],
+  ['asdfghjkl', 0.75],
+  ['zxcvbnm', 1.25]
+];
+const KEY_POSITIONS = new Map<string, [number, number]>();
+KEYBOARD_ROWS.forEach(([keys, offset], row) => {
+  Array.from(keys).forEach((key, col) => KEY_POSITIONS.set(key, [col + offset, row]));
+});
+
+/** True for keys that touch on a QWERTY keyboard ("g" / "h", "q" / "a"). */
+export const areAdjacentKeys = (a: string, b: string): boolean => {
+  const p = KEY_POSITIONS.get(a);
+  const q = KEY_POSITIONS.get(b);
+  if (!p || !q || a === b) return false;
+  return Math.hypot(p[0] - q[0], p[1] - q[1]) <= 1.3;
+};
+
+/**
+ * Edit distance that models typing slips: hitting a neighbouring key or swapping two
+ * neighbouring letters costs half an edit ("goolge", "gopgle" are 0.5 from "google").
+ */
+export const keyboardDistance = (a: string, b: string): number => {
+  const x = matchKey(a);
+  const y = matchKey(b);
+  if (x === y) return 0;
+  const d: number[][] = Array.from({ length: x.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= y.length; j += 1) d[0][j] = j;
+  for (let i = 1; i <= x.length; i += 1) {
+    for (let j = 1; j <= y.length; j += 1) {
+      const sub = x[i - 1] === y[j - 1] ? 0 : areAdjacentKeys(x[i - 1], y[j - 1]) ? 0.5 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + sub);
+      if (i > 1 && j > 1 && x[i - 1] === y[j - 2] && x[i - 2] === y[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 0.5);
+      }
+    }
+  }
+  return d[x.length][y.length];
+};
+
+// Non-Latin letters that render like Latin ones (Cyrillic, Greek).
+const CONFUSABLE_LETTERS: Record<string, string> = {
+  а: 'a', в: 'b', е: 'e', ё: 'e', і: 'i', ј: 'j', к: 'k', м: 'm', н: 'h', о: 'o', р: 'p',
+  с: 'c', ѕ: 's', т: 't', у: 'y', х: 'x', ԁ: 'd', ɡ: 'g',
+  α: 'a', β: 'b', ε: 'e', ι: 'i', κ: 'k', ν: 'v', ο: 'o', ρ: 'p', τ: 't', υ: 'u', χ: 'x'
+};
+
+// Latin letters and digit sequences that look alike in most fonts, collapsed to one form.
+const LOOKALIKE_RULES: Array<[RegExp, string]> = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+  [/0/g, 'o'],
+  [/[1i]/g, 'l'],
+  [/3/g, 'e'],
+  [/4/g, 'a'],
+  [/5/g, 's'],
+  [/7/g, 't'],
+  [/8/g, 'b'],
+  [/9/g, 'g']
+];
+
+/**
+ * Visual skeleton: strings that read the same at a glance share a skeleton
+ * ("paypa1", "pаypal" with a Cyrillic "а" and "paypal" all give "paypal").
+ */
+export const homoglyphSkeleton = (value: string): string => {
+  const latin = Array.from(String(value || '').normalize('NFKC').toLowerCase())
+    .map(ch => CONFUSABLE_LETTERS[ch] ?? ch)
+    .join('');
+  let s = matchKey(latin);
+  for (const [pattern, replacement] of LOOKALIKE_RULES) s = s.replace(pattern, replacement);
+  return s;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateRegistrablePair } from './registryRules';
+import { getTldInfo, TLD_CATALOG } from './tldCatalog';
+import { BRAND_TLD_SNAPSHOT } from './tldSnapshot';
+
+describe('TLD catalog', () => {
+  it('marks every bundled brand TLD as a restricted brand', () => {
+    const brands = BRAND_TLD_SNAPSHOT.split(/\s+/).filter(Boolean);
+    for (const label of brands) {
+      expect(getTldInfo(label), label).toMatchObject({ category: 'brand', restricted: true });
+    }
+    expect(TLD_CATALOG.filter(t => t.category === 'brand')).toHaveLength(brands.length);
+  });
+
+  it('rejects registrations under brand TLDs', () => {
+    expect(getTldInfo('.abbott')).toMatchObject({ category: 'brand', restricted: true });
+    expect(getTldInfo('.アマゾン')?.category).toBe('brand');
+    expect(validateRegistrablePair('namer', '.abbott')).toMatch(/restricted/);
+    expect(validateRegistrablePair('namer', '.aarp')).toMatch(/restricted/);
+  });
+
+  it('keeps open generic TLDs open', () => {
+    expect(getTldInfo('.tech')).toMatchObject({ category: 'tech', restricted: false });
+    expect(getTldInfo('.shop')?.restricted).toBe(false);
+    expect(validateRegistrablePair('namer', '.com')).toBeNull();
+  });
+});
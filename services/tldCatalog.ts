@@ -0,0 +1,191 @@
+import { BRAND_TLD_SNAPSHOT, IANA_TLD_SNAPSHOT } from './tldSnapshot';
+
+export type TldKind = 'generic' | 'country-code' | 'infrastructure';
+
+export type TldCategory =
+  | 'popular'
+  | 'tech'
+  | 'business'
+  | 'creative'
+  | 'lifestyle'
+  | 'geographic'
+  | 'country'
+  | 'sponsored'
+  | 'brand'
+  | 'infrastructure'
+  | 'other';
+
+export interface TldInfo {
+  tld: string; // ".com", ".xn--p1ai"
+  unicode?: string; // ".рф" for IDN TLDs
+  kind: TldKind;
+  category: TldCategory;
+  // Registration is limited to a community, profession or brand owner.
+  restricted: boolean;
+}
+
+// IDN country-code TLDs (the root zone lists them next to generic IDNs like .онлайн).
+const IDN_COUNTRY_CODES = new Set([
+  'рф', 'бел', 'срб', 'бг', 'мкд', 'қаз', 'укр', 'мон', 'ею', 'ευ', 'ελ', 'გე', 'հայ',
+  '中国', '中國', '香港', '澳門', '台湾', '台灣', '新加坡', '한국', 'ไทย', 'ລາວ', 'ලංකා',
+  'இலங்கை', 'சிங்கப்பூர்', 'இந்தியா', 'भारत', 'भारतम्', 'भारोत', 'ভারত', 'ভাৰত', 'বাংলা',
+  'ਭਾਰਤ', 'ભારત', 'ଭାରତ', 'ಭಾರತ', 'ഭാരതം', 'భారత్', 'بھارت', 'ڀارت', 'بارت', 'مصر',
+  'الجزائر', 'المغرب', 'السعودية', 'امارات', 'ایران', 'عمان', 'فلسطين', 'قطر', 'سودان',
+  'سورية', 'تونس', 'الاردن', 'البحرين', 'عراق', 'مليسيا', 'موريتانيا', 'پاکستان', 'ישראל'
+]);
+
+const CATEGORY_LISTS: Array<[TldCategory, string[]]> = [
+  ['popular', ['com', 'net', 'org', 'io', 'ai', 'co', 'app', 'dev', 'me', 'xyz', 'so']],
+  [
+    'tech',
+    [
+      'tech', 'cloud', 'digital', 'software', 'systems', 'network', 'online', 'site', 'website', 'host',
+      'hosting', 'data', 'codes', 'computer', 'technology', 'tools', 'solutions', 'email', 'link', 'page',
+      'bot', 'download', 'zip', 'mobi', 'gg', 'sh', 'run', 'build', 'engineering', 'security'
+    ]
+  ],
+  [
+    'business',
+    [
+      'biz', 'company', 'inc', 'llc', 'ltd', 'agency', 'consulting', 'finance', 'capital', 'ventures',
+      'group', 'holdings', 'partners', 'enterprises', 'business', 'services', 'marketing', 'media', 'shop',
+      'store', 'market', 'money', 'pro', 'global', 'work', 'careers', 'management', 'industries', 'trade',
+      'exchange', 'fund', 'investments', 'financial', 'legal', 'law', 'tax', 'accountant', 'sale', 'deals'
+    ]
+  ],
+  [
+    'creative',
+    [
+      'studio', 'design', 'art', 'photo', 'photography', 'gallery', 'graphics', 'film', 'music', 'blog',
+      'news', 'ink', 'pictures', 'video', 'tv', 'fm', 'audio', 'press', 'productions', 'show', 'theater'
+    ]
+  ],
+  [
+    'lifestyle',
+    [
+      'life', 'live', 'fun', 'club', 'love', 'world', 'space', 'zone', 'social', 'community', 'team', 'family',
+      'fit', 'fitness', 'health', 'games', 'game', 'fashion', 'style', 'eco', 'green', 'earth', 'today', 'cafe',
+      'coffee', 'food', 'kitchen', 'recipes', 'yoga', 'dance', 'party', 'events', 'guru', 'ninja', 'rocks',
+      'wtf', 'lol', 'cool', 'one', 'plus', 'top', 'best', 'vip', 'kids', 'pet', 'garden', 'house', 'home'
+    ]
+  ],
+  [
+    'geographic',
+    [
+      'paris', 'london', 'nyc', 'berlin', 'tokyo', 'africa', 'asia', 'eus', 'bzh', 'brussels', 'amsterdam',
+      'quebec', 'wales', 'scot', 'vegas', 'miami', 'boston', 'moscow', 'barcelona', 'madrid', 'istanbul',
+      'melbourne', 'sydney', 'hamburg', 'koeln', 'wien', 'zuerich', 'swiss', 'alsace', 'corsica', 'bayern',
+      'nrw', 'tirol', 'gent', 'lat', 'krd', 'kiwi', 'osaka', 'nagoya', 'yokohama', 'okinawa', 'rio', 'capetown'
+    ]
+  ],
+  [
+    'sponsored',
+    ['aero', 'cat', 'coop', 'edu', 'gov', 'int', 'jobs', 'mil', 'museum', 'post', 'tel', 'travel', 'xxx']
+  ],
+  ['infrastructure', ['arpa']]
+];
+
+// Open to everyone in theory, but registration needs eligibility checks or credentials.
+const RESTRICTED_GENERIC = new Set([
+  'bank', 'insurance', 'pharmacy', 'gov', 'edu', 'mil', 'int', 'aero', 'coop', 'museum', 'post', 'jobs',
+  'cpa', 'law', 'abogado', 'dentist', 'doctor', 'realtor', 'archi', 'arpa', 'ngo', 'ong', 'xn--mxtq1m'
+]);
+
+// Reserved for the brand owner, whatever the word (".open", ".star").
+const BRAND_TLDS = new Set(BRAND_TLD_SNAPSHOT.split(/\s+/).filter(Boolean));
+
+const CATEGORY_BY_LABEL = new Map<string, TldCategory>();
+for (const [category, labels] of CATEGORY_LISTS) {
+  for (const label of labels) if (!CATEGORY_BY_LABEL.has(label)) CATEGORY_BY_LABEL.set(label, category);
+}
+
+const buildCatalog = (): TldInfo[] => {
+  const out: TldInfo[] = [];
+  for (const entry of IANA_TLD_SNAPSHOT.split(/\s+/)) {
+    if (!entry) continue;
+    const [ascii, unicode] = entry.split('=');
+    const label = ascii.toLowerCase();
+    const isCountryCode = /^[a-z]{2}$/.test(label) || (unicode ? IDN_COUNTRY_CODES.has(unicode) : false);
+    const kind: TldKind = label === 'arpa' ? 'infrastructure' : isCountryCode ? 'country-code' : 'generic';
+    const category = BRAND_TLDS.has(label) ? 'brand' : CATEGORY_BY_LABEL.get(label) ?? (isCountryCode ? 'country' : 'other');
+    out.push({
+      tld: `.${label}`,
+      unicode: unicode ? `.${unicode}` : undefined,
+      kind,
+      category,
+      restricted: category === 'brand' || category === 'sponsored' || RESTRICTED_GENERIC.has(label)
+    });
+  }
+  return out;
+};
+
+export const TLD_CATALOG: TldInfo[] = buildCatalog();
+
+const CATALOG_BY_TLD = new Map<string, TldInfo>();
+for (const info of TLD_CATALOG) {
+  CATALOG_BY_TLD.set(info.tld, info);
+  if (info.unicode) CATALOG_BY_TLD.set(info.unicode, info);
+}
+
+const toKey = (tld: string): string => {
+  const raw = String(tld || '').trim().toLowerCase();
+  return raw.startsWith('.') ? raw : `.${raw}`;
+};
+
+export const getTldInfo = (tld: string): TldInfo | undefined => CATALOG_BY_TLD.get(toKey(tld));
+
+export const isKnownTld = (tld: string): boolean => CATALOG_BY_TLD.has(toKey(tld));
+
+// Curated default set shown in the sidebar and used for "check again" expansion,
+// in expansion order.
+export const FEATURED_TLDS: string[] = [
+  '.com',
+  '.io',
+  '.ai',
+  '.co',
+  '.net',
+  '.org',
+  '.app',
+  '.dev',
+  '.me',
+  '.so',
+  '.xyz',
+  '.fr',
+  '.de',
+  '.uk',
+  // Expanded set used for "check again" / "more" retries
+  '.info',
+  '.site',
+  '.tech',
+  '.cloud',
+  '.studio'
+].filter(isKnownTld);
+
+/**
+ * Case-insensitive search over the catalog. Exact and prefix matches on the TLD rank
+ * first; a query can also match a category ("tech") or kind ("country-code").
+ */
+export const searchTlds = (
+  query: string,
+  opts: { limit?: number; includeRestricted?: boolean } = {}
+): TldInfo[] => {
+  const q = String(query || '').trim().toLowerCase().replace(/^\./, '');
+  const limit = opts.limit ?? 60;
+  const pool = opts.includeRestricted ? TLD_CATALOG : TLD_CATALOG.filter(t => !t.restricted);
+  if (!q) return pool.slice(0, limit);
+
+  const scored: Array<{ info: TldInfo; score: number }> = [];
+  for (const info of pool) {
+    const label = info.tld.slice(1);
+    const unicodeLabel = info.unicode?.slice(1) ?? '';
+    let score = -1;
+    if (label === q || unicodeLabel === q) score = 0;
+    else if (label.startsWith(q) || unicodeLabel.startsWith(q)) score = 1;
+    else if (label.includes(q)) score = 2;
+    else if (info.category === q || info.kind === q) score = 3;
+    if (score >= 0) scored.push({ info, score });
+  }
+
+  scored.sort((a, b) => a.score - b.score || a.info.tld.length - b.info.tld.length || a.info.tld.localeCompare(b.info.tld));
+  return scored.slice(0, limit).map(s => s.info);
+};
@@ -0,0 +1,24 @@
+// Token usage arithmetic shared by the server (per reply, per brainstorm run) and the
+// browser (per conversation).
+
+import { TokenUsage } from '../types';
+
+/** Sum of two usages; either side may be missing. */
+export const addUsage = (a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined => {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd + b.costUsd,
+    calls: a.calls + b.calls
+  };
+};
+
+// "$0.0042", "$1.27": small amounts keep enough digits to be readable.
+export const formatCostUsd = (usd: number): string => `$${usd >= 1 ? usd.toFixed(2) : usd.toFixed(4)}`;
+
+// 950 -> "950", 12_345 -> "12.3k", 2_500_000 -> "2.5M"
+export const formatTokenCount = (n: number): string =>
+  n >= 1_000_000 ? `${(n / 1_000_000).toFixed(1)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { domainCheckResult } from './fixtures/domainCheckResults';
+import {
+  applyWatchCheck,
+  createWatchlistScheduler,
+  DEFAULT_WATCH_INTERVAL_MS,
+  dueWatchEntries,
+  loadWatchlist,
+  saveWatchlist,
+  watchEntryFromResult
+} from './watchlist';
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+const watched = (status: 'available' | 'taken', checkedAt = '2026-10-19T12:00:00.000Z') =>
+  watchEntryFromResult(domainCheckResult('namer.com', { status, checkedAt }));
+
+describe('applyWatchCheck', () => {
+  it('alerts when a taken domain becomes available', () => {
+    const { entry, alert } = applyWatchCheck(
+      watched('taken'),
+      domainCheckResult('namer.com', { status: 'available', checkedAt: '2026-10-19T12:30:00.000Z' })
+    );
+    expect(alert).toMatchObject({ domain: 'namer.com', from: 'taken', to: 'available', at: '2026-10-19T12:30:00.000Z' });
+    expect(entry.lastStatus).toBe('available');
+    expect(entry.history.map(h => h.status)).toEqual(['taken', 'available']);
+  });
+
+  it('records unknown results without an alert or losing the last definitive status', () => {
+    const { entry, alert } = applyWatchCheck(
+      watched('taken'),
+      domainCheckResult('namer.com', { status: 'unknown', checkedAt: '2026-10-19T12:30:00.000Z' })
+    );
+    expect(alert).toBeNull();
+    expect(entry.lastStatus).toBe('taken');
+    expect(entry.lastCheckedAt).toBe('2026-10-19T12:30:00.000Z');
+    expect(entry.history).toHaveLength(2);
+  });
+
+  it('keeps only the most recent 100 history entries', () => {
+    let entry = watched('taken');
+    for (let i = 0; i < 120; i++) entry = applyWatchCheck(entry, domainCheckResult('namer.com')).entry;
+    expect(entry.history).toHaveLength(100);
+  });
+});
+
+describe('dueWatchEntries', () => {
+  it('returns entries not checked within the interval', () => {
+    const now = Date.parse('2026-10-19T12:00:00.000Z');
+    const fresh = watched('taken', new Date(now - 60_000).toISOString());
+    const stale = { ...watched('taken', new Date(now - DEFAULT_WATCH_INTERVAL_MS).toISOString()), domain: 'stale.com' };
+    expect(dueWatchEntries([fresh, stale], DEFAULT_WATCH_INTERVAL_MS, now).map(e => e.domain)).toEqual(['stale.com']);
+  });
+});
+
+describe('loadWatchlist', () => {
+  it('round-trips through storage and ignores malformed data', () => {
+    const stored = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored.get(key) ?? null,
+      setItem: (key: string, value: string) => stored.set(key, value)
+    });
+    saveWatchlist([watched('taken')]);
+    expect(loadWatchlist().map(e => e.domain)).toEqual(['namer.com']);
+
+    stored.set('namer.watchlist', '{not json');
+    expect(loadWatchlist()).toEqual([]);
+  });
+});
+
+describe('createWatchlistScheduler', () => {
+  it('re-checks due entries on each tick until stopped', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.parse('2026-10-19T12:00:00.000Z'));
+    const entry = watched('taken', '2026-10-19T10:00:00.000Z');
+    const check = vi.fn(async () => domainCheckResult('namer.com'));
+    const onChecked = vi.fn();
+    const scheduler = createWatchlistScheduler({ getEntries: () => [entry], check, onChecked, tickMs: 1000 });
+
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(check).toHaveBeenCalledTimes(3);
+    expect(onChecked).toHaveBeenCalledWith(entry, expect.objectContaining({ domain: 'namer.com' }));
+  });
+
+  it('keeps going when one check fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const due = { ...watched('taken'), lastCheckedAt: '' };
+    const entries = [due, { ...due, domain: 'other.com' }];
+    const check = vi.fn(async (entry: { domain: string }) => {
+      if (entry.domain === 'namer.com') throw new Error('network down');
+      return domainCheckResult(entry.domain);
+    });
+    const onChecked = vi.fn();
+    await createWatchlistScheduler({ getEntries: () => entries, check, onChecked }).runNow();
+    expect(onChecked).toHaveBeenCalledTimes(1);
+    expect(onChecked.mock.calls[0][1].domain).toBe('other.com');
+  });
+});
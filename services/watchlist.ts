@@ -0,0 +1,139 @@
+import { DomainCheckResult, WatchAlert, WatchedDomain } from '../types';
+
+export const WATCHLIST_STORAGE_KEY = 'namer.watchlist';
+// How often a watched domain is re-checked.
+export const DEFAULT_WATCH_INTERVAL_MS = 30 * 60_000;
+// How often the scheduler looks for due entries.
+const WATCH_TICK_MS = 60_000;
+const MAX_WATCH_HISTORY = 100;
+
+export const loadWatchlist = (key = WATCHLIST_STORAGE_KEY): WatchedDomain[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(e => e && typeof e.domain === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveWatchlist = (entries: WatchedDomain[], key = WATCHLIST_STORAGE_KEY): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(entries));
+  } catch {
+    // Quota exceeded or storage disabled: the watchlist still works for this session.
+  }
+};
+
+const isDefinitive = (status: DomainCheckResult['status']): boolean => status === 'available' || status === 'taken';
+
+export const watchEntryFromResult = (result: DomainCheckResult, expiresAt?: string): WatchedDomain => {
+  const now = new Date().toISOString();
+  const checkedAt = result.checkedAt || now;
+  return {
+    domain: result.domain,
+    unicodeDomain: result.unicodeDomain || result.domain,
+    baseName: result.baseName,
+    tld: result.tld,
+    addedAt: now,
+    lastStatus: result.status,
+    lastCheckedAt: checkedAt,
+    expiresAt: expiresAt ?? result.details?.expiresAt,
+    history: [{ status: result.status, confidence: result.confidence, checkedAt }]
+  };
+};
+
+/**
+ * Records a re-check on a watched entry. Returns an alert when the domain moved between
+ * available and taken (e.g. it dropped); `unknown` results only go into the history.
+ */
+export const applyWatchCheck = (
+  entry: WatchedDomain,
+  result: DomainCheckResult
+): { entry: WatchedDomain; alert: WatchAlert | null } => {
+  const checkedAt = result.checkedAt || new Date().toISOString();
+  const history = [...entry.history, { status: result.status, confidence: result.confidence, checkedAt }].slice(
+    -MAX_WATCH_HISTORY
+  );
+  const changed = isDefinitive(result.status) && isDefinitive(entry.lastStatus) && result.status !== entry.lastStatus;
+  const next: WatchedDomain = {
+    ...entry,
+    history,
+    lastCheckedAt: checkedAt,
+    lastStatus: isDefinitive(result.status) || !isDefinitive(entry.lastStatus) ? result.status : entry.lastStatus,
+    expiresAt: result.details?.expiresAt ?? entry.expiresAt
+  };
+  const alert: WatchAlert | null = changed
+    ? {
+        id: `${entry.domain}-${checkedAt}`,
+        domain: entry.domain,
+        unicodeDomain: entry.unicodeDomain,
+        from: entry.lastStatus,
+        to: result.status,
+        at: checkedAt
+      }
+    : null;
+  return { entry: next, alert };
+};
+
+export const dueWatchEntries = (
+  entries: WatchedDomain[],
+  intervalMs = DEFAULT_WATCH_INTERVAL_MS,
+  now = Date.now()
+): WatchedDomain[] =>
+  entries.filter(entry => {
+    const last = Date.parse(entry.lastCheckedAt);
+    return !Number.isFinite(last) || now - last >= intervalMs;
+  });
+
+export type WatchlistScheduler = {
+  start: () => void;
+  stop: () => void;
+  // Checks every due entry now (no-op while a run is already in progress).
+  runNow: () => Promise<void>;
+};
+
+/**
+ * Re-checks due watchlist entries on a timer, one at a time, while started. `check` is
+ * the availability check to use (the client's `checkDomainAvailability` with `force`),
+ * `onChecked` receives every fresh result.
+ */
+export const createWatchlistScheduler = (opts: {
+  getEntries: () => WatchedDomain[];
+  check: (entry: WatchedDomain) => Promise<DomainCheckResult>;
+  onChecked: (entry: WatchedDomain, result: DomainCheckResult) => void;
+  intervalMs?: number;
+  tickMs?: number;
+}): WatchlistScheduler => {
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  const runNow = async () => {
+    if (running) return;
+    running = true;
+    try {
+      for (const entry of dueWatchEntries(opts.getEntries(), opts.intervalMs)) {
+        try {
+          opts.onChecked(entry, await opts.check(entry));
+        } catch (error) {
+          console.error(`Watchlist re-check failed for ${entry.domain}:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  return {
+    start: () => {
+      if (timer) return;
+      timer = setInterval(() => void runNow(), opts.tickMs ?? WATCH_TICK_MS);
+      void runNow();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    runNow
+  };
+};
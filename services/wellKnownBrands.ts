@@ -0,0 +1,26 @@
+// Famous brands that candidates should not imitate. Not exhaustive: it catches the
+// look-alikes people notice first; the trademark screen covers the long tail.
+export const WELL_KNOWN_BRANDS: string[] = [
+  // Tech & internet
+  'Google', 'Alphabet', 'YouTube', 'Gmail', 'Android', 'Chrome', 'Apple', 'iPhone', 'iCloud',
+  'Microsoft', 'Windows', 'Xbox', 'Outlook', 'LinkedIn', 'GitHub', 'Amazon', 'Alexa', 'Kindle',
+  'Meta', 'Facebook', 'Instagram', 'WhatsApp', 'Messenger', 'Twitter', 'TikTok', 'Snapchat',
+  'Pinterest', 'Reddit', 'Discord', 'Telegram', 'Signal', 'Tumblr', 'Twitch', 'Netflix',
+  'Spotify', 'Hulu', 'Disney', 'Pixar', 'Adobe', 'Photoshop', 'Figma', 'Canva', 'Slack',
+  'Zoom', 'Dropbox', 'Notion', 'Trello', 'Atlassian', 'Jira', 'Asana', 'Airtable', 'Salesforce',
+  'Oracle', 'IBM', 'Intel', 'Nvidia', 'Qualcomm', 'Samsung', 'Sony', 'PlayStation', 'Nintendo',
+  'Huawei', 'Xiaomi', 'Lenovo', 'Dell', 'Cisco', 'Yahoo', 'Bing', 'Baidu', 'Alibaba', 'Tencent',
+  'WeChat', 'OpenAI', 'ChatGPT', 'Anthropic', 'Mistral', 'Shopify', 'Stripe', 'PayPal', 'Venmo',
+  'Square', 'Klarna', 'Revolut', 'Coinbase', 'Binance', 'Robinhood', 'Airbnb', 'Uber', 'Lyft',
+  'Booking', 'Expedia', 'Tripadvisor', 'eBay', 'Etsy', 'Wikipedia', 'Mozilla', 'Firefox',
+  'WordPress', 'Wix', 'Squarespace', 'GoDaddy', 'Cloudflare', 'Vercel', 'Heroku', 'Docker',
+  'Kubernetes', 'Tesla', 'SpaceX', 'Duolingo', 'Grammarly', 'Mailchimp', 'HubSpot', 'Zendesk',
+  'Twilio', 'Okta', 'Palantir', 'Snowflake', 'Databricks', 'Tinder', 'Bumble', 'Yelp',
+  // Consumer brands
+  'Coca-Cola', 'Pepsi', 'Nike', 'Adidas', 'Puma', 'Reebok', 'Gucci', 'Prada', 'Chanel',
+  'Louis Vuitton', 'Hermes', 'Rolex', 'Zara', 'IKEA', 'Lego', 'Starbucks', 'McDonalds',
+  'Nestle', 'Nespresso', 'Heineken', 'Red Bull', 'Toyota', 'Honda', 'BMW', 'Mercedes',
+  'Volkswagen', 'Audi', 'Porsche', 'Ferrari', 'Visa', 'Mastercard', 'American Express',
+  'Walmart', 'Target', 'Costco', 'FedEx', 'DHL', 'Marvel', 'Pokemon', 'Barbie', 'Colgate',
+  'Gillette', 'Nivea', 'Loreal', 'Sephora', 'Kodak', 'Canon', 'Nikon', 'Philips', 'Bosch'
+];
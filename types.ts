@@ -4,11 +4,190 @@ export enum Role {
   SYSTEM = 'system'
 }
 
+export type DnsRecordType = 'NS' | 'SOA' | 'A' | 'AAAA' | 'MX';
+
+// What a single DNS query told us about the name.
+export type DnsSignal = 'records' | 'nodata' | 'nxdomain' | 'error';
+
+export interface AvailabilitySignals {
+  source: string; // provider that produced the verdict ('rdap', 'dns', ...)
+  rdap?: 'registered' | 'not-found' | 'unsupported' | 'error';
+  dns?: Partial<Record<DnsRecordType, DnsSignal>>;
+  nameservers?: string[]; // delegation of a taken name, lowercased without the trailing dot
+}
+
+export type TrademarkRisk = 'none' | 'low' | 'medium' | 'high';
+
+// A registered / applied-for mark that resembles a candidate name.
+export interface TrademarkHit {
+  mark: string;
+  matchType: 'exact' | 'phonetic' | 'fuzzy';
+  score: number; // 0..1 spelling similarity to the candidate
+  classes: number[]; // Nice classes; empty when the source did not list them
+  live: boolean; // false for abandoned / cancelled / expired marks
+  owner?: string;
+  registrationNumber?: string;
+  office?: string; // e.g. "USPTO", "EUIPO"
+}
+
+// First-pass screen of a base name against the local trademark dataset.
+export interface TrademarkScreening {
+  risk: TrademarkRisk;
+  hits: TrademarkHit[]; // strongest first, capped
+  niceClasses?: number[]; // classes the screen was limited to
+}
+
+// How a candidate resembles a well-known brand or a competitor the user entered.
+export type BrandMatchKind = 'exact' | 'homoglyph' | 'typo' | 'edit' | 'phonetic';
+
+export interface BrandMatch {
+  brand: string; // as listed ("PayPal")
+  source: 'brand' | 'competitor';
+  kind: BrandMatchKind;
+  score: number; // 0..1, higher is closer
+}
+
+export type NameStyle = 'invented' | 'compound' | 'descriptive' | 'metaphor' | 'playful' | 'other';
+
+// Tokens spent on model calls and their cost (models without a known price count as 0).
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  calls: number; // model calls added up
+}
+
+// A name proposed by the model during a brainstorm (structured output), with its reasoning.
+export interface NameCandidate {
+  name: string; // base name, no TLD
+  rationale: string; // one sentence on why it fits the brief
+  style: NameStyle;
+  origin: string; // language the name comes from ("Latin", "English", "invented")
+}
+
+// Who holds a taken domain and until when, from the registry's RDAP record.
+// Fetched on demand (not part of the availability check).
+export interface RegistrationDetails {
+  registrar?: string;
+  createdAt?: string; // ISO timestamps as reported by the registry
+  updatedAt?: string;
+  expiresAt?: string;
+  statuses: string[]; // RDAP status values, e.g. "client transfer prohibited"
+  nameservers: string[];
+  fetchedAt: string;
+  error?: string; // set when the lookup failed; the other fields are then empty
+}
+
 export interface DomainCheckResult {
-  domain: string;
-  status: 'available' | 'taken' | 'unknown';
+  domain: string; // ASCII form used for lookups ("xn--caf-dma.fr")
+  unicodeDomain: string; // display form ("café.fr"); equals `domain` for plain ASCII names
+  status: 'available' | 'taken' | 'unknown' | 'invalid';
   tld: string;
+  baseName: string; // ASCII label
+  reason?: string; // why an 'invalid' pair cannot be registered
+  // Taken, but delegated to a parking service / aftermarket marketplace (see `parkingService`).
+  parked?: boolean;
+  forSale?: boolean;
+  parkingService?: string; // e.g. "Sedo", "Afternic"
+  details?: RegistrationDetails; // attached once the user opens the details panel
+  trademark?: TrademarkScreening; // set when a trademark dataset is configured on the server
+  similarBrands?: BrandMatch[]; // close look-alikes of famous brands / competitors, closest first
+  candidate?: NameCandidate; // why the brainstorm proposed this name
+  confidence: number; // 0..1, how much the signals agree with `status`
+  signals: AvailabilitySignals;
+  checkedAt: string; // ISO timestamp of the lookup (cached results keep their original time)
+  isPending?: boolean; // client-side placeholder while the check is in flight
+}
+
+// "available" results below this confidence should be verified with a registrar.
+export const SOLID_AVAILABILITY_CONFIDENCE = 0.8;
+
+export type HandlePlatform = 'npm' | 'pypi' | 'github';
+
+export const HANDLE_PLATFORMS: HandlePlatform[] = ['npm', 'pypi', 'github'];
+
+// Availability of a base name as a package / account name on a developer platform.
+export interface HandleCheckResult {
+  platform: HandlePlatform;
+  name: string; // base name as requested
+  handle: string; // the name as the platform would register it (e.g. PyPI-normalized)
+  status: 'available' | 'taken' | 'unknown' | 'invalid';
+  reason?: string; // why an 'invalid' handle cannot be registered
+  url: string; // page of the package / account
+  checkedAt: string;
+}
+
+// One re-check of a watched domain.
+export interface WatchCheck {
+  status: DomainCheckResult['status'];
+  confidence: number;
+  checkedAt: string;
+}
+
+export interface WatchedDomain {
+  domain: string; // ASCII form, the watchlist key
+  unicodeDomain: string;
   baseName: string;
+  tld: string;
+  addedAt: string;
+  lastStatus: DomainCheckResult['status']; // last definitive status (unknown results don't overwrite it)
+  lastCheckedAt: string;
+  expiresAt?: string; // from RDAP registration details, when known
+  history: WatchCheck[]; // oldest first, capped
+}
+
+// Raised when a watched domain moves between available and taken.
+export interface WatchAlert {
+  id: string;
+  domain: string;
+  unicodeDomain: string;
+  from: DomainCheckResult['status'];
+  to: DomainCheckResult['status'];
+  at: string;
+}
+
+// Why a model call failed (see server/llmProviders.ts), so the UI can word the error.
+export type LLMErrorCode =
+  | 'rate_limited' // 429 from the upstream
+  | 'unavailable' // 5xx or the upstream could not be reached
+  | 'timeout'
+  | 'circuit_open' // refused without calling: the upstream failed repeatedly just before
+  | 'auth'
+  | 'invalid_request'
+  | 'upstream_error';
+
+// `code` of an API error body: a failed model call, or a request the server's guard refused.
+export type ApiErrorCode =
+  | LLMErrorCode
+  | 'too_many_requests'
+  | 'payload_too_large'
+  | 'origin_not_allowed'
+  | 'validation_failed'; // the body did not match the schema; see `fields`
+
+// One offending field of a rejected request, e.g. `{ field: "messages[2].role", message: "expected one of ..." }`.
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// A brainstorm run on the server (`/api/brainstorm`), as reported to clients.
+export interface BrainstormJob {
+  id: string;
+  status: 'running' | 'done' | 'error';
+  available: DomainCheckResult[]; // kept available domains so far, capped at the requested count
+  target: number; // how many available domains the run aims for
+  tlds: string[]; // TLDs the candidates are checked with (the forced ones when set)
+  checkedNames: number; // distinct base names checked so far
+  modelCalls: number;
+  text?: string; // final summary, once done
+  usage?: TokenUsage; // model calls of the run so far
+  budgetExceeded?: boolean; // stopped because the run hit its cost budget
+  error?: string;
+  errorCode?: LLMErrorCode; // set when the run failed on a model call
+  retryAfterMs?: number; // how long the upstream asked to wait, when known
+  startedAt: string;
+  finishedAt?: string;
 }
 
 export interface ToolCallData {
@@ -18,6 +197,16 @@ export interface ToolCallData {
   result?: any;
 }
 
+// One tool call run by the server while answering (`toolTrace`), in execution order.
+export interface ToolInvocation {
+  step: number; // model round that asked for it, from 0
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  result: any; // `{ error }` when the tool failed or is unknown
+  durationMs: number;
+}
+
 export type ToolDisplayMode = 'all' | 'availableOnly';
 
 export interface Message {
@@ -36,27 +225,3 @@ export interface AppState {
   isLoading: boolean;
   selectedTlds: string[];
 }
-
-export const AVAILABLE_TLDS = [
-  '.com',
-  '.io',
-  '.ai',
-  '.ia',
-  '.co',
-  '.net',
-  '.org',
-  '.app',
-  '.dev',
-  '.me',
-  '.so',
-  '.xyz',
-  '.fr',
-  '.de',
-  '.uk',
-  // Expanded set used for "check again" / "more" retries
-  '.info',
-  '.site',
-  '.tech',
-  '.cloud',
-  '.studio'
-];
\ No newline at end of file
@@ -3,15 +3,38 @@ import type { Plugin } from 'vite';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-import { buildChatResponse, sanitizeEnvValue } from './server/mistralChat';
+import { buildChatResponse, buildHealthResponse, writeChatStream } from './server/mistralChat';
+import { buildDomainCheckResponse, writeDomainCheckStream } from './server/domainCheck';
+import { buildDomainDetailsResponse } from './server/registrationDetails';
+import { buildHandleCheckResponse } from './server/handleCheck';
+import { buildBrainstormResponse, buildBrainstormStatusResponse, writeBrainstormStream } from './server/brainstorm';
+import {
+  admitChatRequest,
+  brainstormGuardFromEnv,
+  chatGuardFromEnv,
+  clientRequestInfo,
+  lookupGuardFromEnv,
+  PayloadTooLargeError
+} from './server/chatGuard';
 
-const readJsonBody = async (req: any): Promise<any> => {
+// `maxBytes` stops reading (PayloadTooLargeError) once the body grows past it.
+const readJsonBody = async (req: any, opts: { maxBytes?: number } = {}): Promise<any> => {
   return await new Promise((resolve, reject) => {
     let data = '';
+    let size = 0;
+    let tooLarge = false;
     req.on('data', (chunk: any) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (opts.maxBytes != null && size > opts.maxBytes) {
+        tooLarge = true;
+        data = '';
+        return reject(new PayloadTooLargeError(opts.maxBytes));
+      }
       data += chunk;
     });
     req.on('end', () => {
+      if (tooLarge) return;
       if (!data) return resolve({});
       try {
         resolve(JSON.parse(data));
@@ -36,10 +59,10 @@ const localApiPlugin = (): Plugin => {
             return;
           }
 
-          const hasKey = Boolean(sanitizeEnvValue(process.env.MISTRAL_API_KEY));
-          res.statusCode = hasKey ? 200 : 500;
+          const { status, json } = buildHealthResponse(process.env);
+          res.statusCode = status;
           res.setHeader('Content-Type', 'application/json');
-          res.end(JSON.stringify({ ok: hasKey, configured: hasKey }));
+          res.end(JSON.stringify(json));
         } catch (e: any) {
           res.statusCode = 500;
           res.setHeader('Content-Type', 'application/json');
@@ -47,6 +70,113 @@ const localApiPlugin = (): Plugin => {
         }
       });
 
+      server.middlewares.use('/api/domains/check', async (req, res, next) => {
+        try {
+          if (req.method !== 'POST') {
+            res.statusCode = 405;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Method not allowed' }));
+            return;
+          }
+
+          const guard = lookupGuardFromEnv(process.env);
+          const rejection = await admitChatRequest(clientRequestInfo(req, guard), guard);
+          if (rejection) {
+            res.statusCode = rejection.status;
+            for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(rejection.json));
+            return;
+          }
+
+          const body = await readJsonBody(req, { maxBytes: guard.maxBodyBytes });
+
+          if (body?.stream === true) {
+            await writeDomainCheckStream(body, process.env, res);
+            return;
+          }
+
+          const { status, json } = await buildDomainCheckResponse(body, process.env);
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(json));
+        } catch (e: any) {
+          // A started NDJSON stream cannot switch to a JSON error.
+          if (res.headersSent) {
+            res.end();
+            return;
+          }
+          const tooLarge = e instanceof PayloadTooLargeError;
+          res.statusCode = tooLarge ? 413 : 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(tooLarge ? { error: e.message, code: 'payload_too_large' } : { error: e?.message || 'Internal Server Error' }));
+        }
+      });
+
+      server.middlewares.use('/api/domains/details', async (req, res, next) => {
+        try {
+          if (req.method !== 'POST') {
+            res.statusCode = 405;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Method not allowed' }));
+            return;
+          }
+
+          const guard = lookupGuardFromEnv(process.env);
+          const rejection = await admitChatRequest(clientRequestInfo(req, guard), guard);
+          if (rejection) {
+            res.statusCode = rejection.status;
+            for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(rejection.json));
+            return;
+          }
+
+          const body = await readJsonBody(req, { maxBytes: guard.maxBodyBytes });
+          const { status, json } = await buildDomainDetailsResponse(body, process.env);
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(json));
+        } catch (e: any) {
+          const tooLarge = e instanceof PayloadTooLargeError;
+          res.statusCode = tooLarge ? 413 : 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(tooLarge ? { error: e.message, code: 'payload_too_large' } : { error: e?.message || 'Internal Server Error' }));
+        }
+      });
+
+      server.middlewares.use('/api/handles/check', async (req, res, next) => {
+        try {
+          if (req.method !== 'POST') {
+            res.statusCode = 405;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Method not allowed' }));
+            return;
+          }
+
+          const guard = lookupGuardFromEnv(process.env);
+          const rejection = await admitChatRequest(clientRequestInfo(req, guard), guard);
+          if (rejection) {
+            res.statusCode = rejection.status;
+            for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(rejection.json));
+            return;
+          }
+
+          const body = await readJsonBody(req, { maxBytes: guard.maxBodyBytes });
+          const { status, json } = await buildHandleCheckResponse(body, process.env);
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(json));
+        } catch (e: any) {
+          const tooLarge = e instanceof PayloadTooLargeError;
+          res.statusCode = tooLarge ? 413 : 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(tooLarge ? { error: e.message, code: 'payload_too_large' } : { error: e?.message || 'Internal Server Error' }));
+        }
+      });
+
       server.middlewares.use('/api/chat', async (req, res, next) => {
         try {
           if (req.method !== 'POST') {
@@ -56,16 +186,78 @@ const localApiPlugin = (): Plugin => {
             return;
           }
 
-          const body = await readJsonBody(req);
+          const guard = chatGuardFromEnv(process.env);
+          const rejection = await admitChatRequest(clientRequestInfo(req, guard), guard);
+          if (rejection) {
+            res.statusCode = rejection.status;
+            for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(rejection.json));
+            return;
+          }
+
+          const body = await readJsonBody(req, { maxBytes: guard.maxBodyBytes });
+
+          if (body?.stream === true) {
+            await writeChatStream(body, process.env, res);
+            return;
+          }
 
           const { status, json } = await buildChatResponse(body, process.env);
           res.statusCode = status;
           res.setHeader('Content-Type', 'application/json');
           res.end(JSON.stringify(json));
         } catch (e: any) {
-          res.statusCode = 500;
+          const tooLarge = e instanceof PayloadTooLargeError;
+          res.statusCode = tooLarge ? 413 : 500;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(tooLarge ? { error: e.message, code: 'payload_too_large' } : { error: e?.message || 'Internal Server Error' }));
+        }
+      });
+
+      server.middlewares.use('/api/brainstorm', async (req, res, next) => {
+        try {
+          if (req.method === 'GET') {
+            const id = new URL(req.url || '/', 'http://localhost').searchParams.get('id');
+            const { status, json } = buildBrainstormStatusResponse(id);
+            res.statusCode = status;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(json));
+            return;
+          }
+          if (req.method !== 'POST') {
+            res.statusCode = 405;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ error: 'Method not allowed' }));
+            return;
+          }
+
+          const guard = brainstormGuardFromEnv(process.env);
+          const rejection = await admitChatRequest(clientRequestInfo(req, guard), guard);
+          if (rejection) {
+            res.statusCode = rejection.status;
+            for (const [name, value] of Object.entries(rejection.headers ?? {})) res.setHeader(name, value);
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify(rejection.json));
+            return;
+          }
+
+          const body = await readJsonBody(req, { maxBytes: guard.maxBodyBytes });
+
+          if (body?.stream === true) {
+            await writeBrainstormStream(body, process.env, res);
+            return;
+          }
+
+          const { status, json } = await buildBrainstormResponse(body, process.env);
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(json));
+        } catch (e: any) {
+          const tooLarge = e instanceof PayloadTooLargeError;
+          res.statusCode = tooLarge ? 413 : 500;
           res.setHeader('Content-Type', 'application/json');
-          res.end(JSON.stringify({ error: e?.message || 'Internal Server Error' }));
+          res.end(JSON.stringify(tooLarge ? { error: e.message, code: 'payload_too_large' } : { error: e?.message || 'Internal Server Error' }));
         }
       });
     }